@@ -1,11 +1,34 @@
+import { createBrowserRouter, Navigate, RouterProvider } from 'react-router-dom'
 import './App.css'
+import AppLayout from './components/AppLayout'
+import LocaleProvider from './components/LocaleProvider'
 import BuyerCalculator from './components/BuyerCalculator'
+import SellerCalculator from './components/SellerCalculator'
+import SupplySimulator from './components/SupplySimulator'
+import ScenarioComparison from './components/ScenarioComparison'
+import ParameterDocs from './components/ParameterDocs'
+
+const router = createBrowserRouter([
+  {
+    path: '/',
+    element: <AppLayout />,
+    children: [
+      { index: true, element: <Navigate to="/buyer" replace /> },
+      { path: 'buyer', element: <BuyerCalculator /> },
+      { path: 'seller', element: <SellerCalculator /> },
+      { path: 'simulator', element: <SupplySimulator /> },
+      { path: 'compare', element: <ScenarioComparison /> },
+      { path: 'parameters', element: <ParameterDocs /> },
+      { path: '*', element: <Navigate to="/buyer" replace /> },
+    ],
+  },
+])
 
 function App() {
   return (
-    <div className="app">
-      <BuyerCalculator />
-    </div>
+    <LocaleProvider>
+      <RouterProvider router={router} />
+    </LocaleProvider>
   )
 }
 
@@ -0,0 +1,44 @@
+import { NavLink, Outlet } from 'react-router-dom';
+import { useLocale } from '../i18n/locale';
+import { LOCALES, LOCALE_LABELS, type Locale, type MessageKey } from '../i18n/messages';
+
+const NAV_ITEMS: { to: string; label: MessageKey }[] = [
+  { to: '/buyer', label: 'nav.buyer' },
+  { to: '/seller', label: 'nav.seller' },
+  { to: '/simulator', label: 'nav.simulator' },
+  { to: '/compare', label: 'nav.compare' },
+  { to: '/parameters', label: 'nav.parameters' },
+];
+
+export default function AppLayout() {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <div className="app">
+      <nav className="app-nav">
+        {NAV_ITEMS.map((item) => (
+          <NavLink
+            key={item.to}
+            to={item.to}
+            className={({ isActive }) => (isActive ? 'active' : '')}
+          >
+            {t(item.label)}
+          </NavLink>
+        ))}
+        <select
+          className="locale-switcher"
+          value={locale}
+          onChange={(e) => setLocale(e.target.value as Locale)}
+          aria-label={t('nav.language')}
+        >
+          {LOCALES.map((option) => (
+            <option key={option} value={option}>
+              {LOCALE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </nav>
+      <Outlet />
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { useLocale } from '../i18n/locale';
+import {
+  CURVE_SHAPES,
+  DEFAULT_CURVES,
+  validateCurve,
+  type BondingCurve,
+  type CurvePoint,
+  type CurveShape,
+} from '../tokenomics/curves';
+import './SystemParamsPanel.css';
+import './PopulationPanel.css';
+
+interface BondingCurveEditorProps {
+  curve: BondingCurve;
+  P0: number; // Lower end of the sigmoid, which may not exceed its maximum
+  onChange: (curve: BondingCurve) => void;
+}
+
+// Label and hint come from the catalog under curveEditor.<key>.*
+type CurveField = { key: 'slope' | 'rate' | 'maxPrice' | 'midpoint' | 'steepness'; step: number };
+
+// Numeric parameters of each shape (piecewise points are edited as a table)
+const CURVE_FIELDS: Record<CurveShape, CurveField[]> = {
+  linear: [{ key: 'slope', step: 0.001 }],
+  quadratic: [],
+  exponential: [{ key: 'rate', step: 0.00001 }],
+  sigmoid: [
+    { key: 'maxPrice', step: 10 },
+    { key: 'midpoint', step: 1000 },
+    { key: 'steepness', step: 0.0001 },
+  ],
+  piecewise: [],
+};
+
+export default function BondingCurveEditor({ curve, P0, onChange }: BondingCurveEditorProps) {
+  const { locale, t } = useLocale();
+  const [error, setError] = useState<string | null>(null);
+
+  // Apply a candidate curve if it is valid
+  const update = (next: BondingCurve) => {
+    const nextError = validateCurve(next, P0, locale);
+    setError(nextError);
+    if (!nextError) {
+      onChange(next);
+    }
+  };
+
+  const handleFieldChange = (key: string, value: string) => {
+    if (value === '') {
+      return;
+    }
+    update({ ...curve, [key]: parseFloat(value) } as BondingCurve);
+  };
+
+  const handlePointChange = (points: CurvePoint[], index: number, key: keyof CurvePoint, value: string) => {
+    if (value === '') {
+      return;
+    }
+    update({
+      type: 'piecewise',
+      points: points.map((point, i) => (i === index ? { ...point, [key]: parseFloat(value) } : point)),
+    });
+  };
+
+  const curveValues = curve as unknown as Record<string, number>;
+
+  return (
+    <div className="curve-editor">
+      <div className="params-presets">
+        <label htmlFor="curve-shape">{t('curveEditor.shape')}</label>
+        <select
+          id="curve-shape"
+          value={curve.type}
+          onChange={(e) => update(DEFAULT_CURVES[e.target.value as CurveShape])}
+        >
+          {CURVE_SHAPES.map((shape) => (
+            <option key={shape} value={shape}>
+              {t(`curve.${shape}`)}
+            </option>
+          ))}
+        </select>
+        {curve.type === 'quadratic' && <span className="input-hint">{t('curveEditor.quadraticHint')}</span>}
+      </div>
+
+      {CURVE_FIELDS[curve.type].length > 0 && (
+        <div className="params-grid">
+          {CURVE_FIELDS[curve.type].map((field) => (
+            <div className="input-group" key={field.key}>
+              <label htmlFor={`curve-${field.key}`}>{t(`curveEditor.${field.key}.label`)}</label>
+              <input
+                id={`curve-${field.key}`}
+                type="number"
+                min="0"
+                step={field.step}
+                value={curveValues[field.key]}
+                onChange={(e) => handleFieldChange(field.key, e.target.value)}
+              />
+              <span className="input-hint">{t(`curveEditor.${field.key}.hint`)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {curve.type === 'piecewise' && (
+        <div className="population-table-wrapper">
+          <table className="population-table">
+            <thead>
+              <tr>
+                <th>{t('curveEditor.pointX')}</th>
+                <th>{t('curveEditor.pointPrice')}</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {curve.points.map((point, index) => (
+                <tr key={index}>
+                  <td>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1000"
+                      aria-label={t('curveEditor.pointXLabel', { index: index + 1 })}
+                      value={point.x}
+                      onChange={(e) => handlePointChange(curve.points, index, 'x', e.target.value)}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      aria-label={t('curveEditor.pointPriceLabel', { index: index + 1 })}
+                      value={point.price}
+                      onChange={(e) => handlePointChange(curve.points, index, 'price', e.target.value)}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      onClick={() => update({ type: 'piecewise', points: curve.points.filter((_, i) => i !== index) })}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="params-presets">
+            <button
+              type="button"
+              onClick={() => {
+                const last = curve.points[curve.points.length - 1];
+                update({ type: 'piecewise', points: [...curve.points, { x: last.x + 10000, price: last.price }] });
+              }}
+            >
+              {t('curveEditor.addPoint')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <span className="error-message">{error}</span>}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import {
   LineChart,
   Line,
@@ -7,105 +8,119 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceLine,
+  ReferenceDot,
+  ReferenceArea,
   ResponsiveContainer,
   PieChart,
   Pie,
   Cell,
 } from 'recharts';
+import SystemParamsPanel from './SystemParamsPanel';
+import PopulationPanel from './PopulationPanel';
+import MonteCarloPanel from './MonteCarloPanel';
+import SensitivityPanel from './SensitivityPanel';
+import PurchaseLedgerPanel from './PurchaseLedgerPanel';
+import CapWarning from './CapWarning';
+import StakingPanel from './StakingPanel';
+import GoalSeekPanel from './GoalSeekPanel';
+import PurchaseSchedulePanel from './PurchaseSchedulePanel';
+import ConfigFilePanel from './ConfigFilePanel';
+import CurrencyPanel from './CurrencyPanel';
+import FormulaRow from './FormulaRow';
+import { useCurrencySettings, useDisplayCurrency } from './useCurrency';
+import { useDebouncedValue } from './useDebouncedValue';
+import type { SystemParams } from '../tokenomics/params';
+import {
+  correctInput,
+  validateInput,
+  type UserInputs,
+} from '../tokenomics/inputs';
+import {
+  DEFAULT_CURVE_RANGE,
+  calculateResults,
+  calculateTokenPrice,
+  generateBondingCurveData,
+  generateDiminishingFactorData,
+  generatePeriodRatesData,
+  type CurveRange,
+  type PricingMode,
+} from '../tokenomics/engine';
+import {
+  createDefaultPopulation,
+  createMarketFactory,
+  type MarketMode,
+  type MarketSpec,
+  type UserSegment,
+} from '../tokenomics/population';
+import { decodeCalculatorState, encodeCalculatorState } from '../tokenomics/urlState';
+import { createScenario, loadScenarios, saveScenarios } from '../tokenomics/scenarios';
+import { DEFAULT_MONTE_CARLO_SETTINGS, type MonteCarloSettings } from '../tokenomics/monteCarlo';
+import type { ConfigFile } from '../tokenomics/configFile';
+import { CURVE_SHAPES, DEFAULT_CURVES, type CurveShape } from '../tokenomics/curves';
+import { BURN_DESTINATIONS, calculateBurnShares, type BurnDestination } from '../tokenomics/burnSplit';
+import { convertFromRub, convertToRub } from '../tokenomics/currency';
+import { explainBreakdown } from '../tokenomics/formulas';
+import { useLocale } from '../i18n/locale';
 import './BuyerCalculator.css';
 
-// System parameters (constants)
-interface SystemParams {
-  CB_base: number; // Base cashback percentage
-  alpha: number; // Cashback degradation coefficient
-  beta: number; // Quality factor coefficient
-  gamma: number; // Diminishing returns coefficient
-  P0: number; // Initial token price
-  k: number; // Bonding curve coefficient
-  discount_base: number; // Base discount percentage
-  theta: number; // Discount degradation coefficient
-  burn_cap: number; // Burn cap per year
-  access_fee: number; // Access fee
-  user_cap: number; // User token cap
-  t_launch: number; // Launch time
-}
-
-// User input parameters
-interface UserInputs {
-  purchasePrice: number; // Pi - purchase price
-  numberOfPurchases: number; // Number of purchases
-  period: number; // t - time period
-  reviewQuality: number; // review_quality (0-1)
-  returnProbability: number; // return_probability (0-1)
-}
+export default function BuyerCalculator() {
+  const { locale, t, formatNumber, formatPercent, currencySymbol } = useLocale();
 
-// Market simulation constants
-const ASSUMED_USERS = 100; // Number of similar users for global supply estimation
-const ASSUMED_BURN_RATE = 0.3; // Assumed burn rate (30% of minted tokens are burned)
-const INITIAL_GLOBAL_MINTED = 1000; // Initial global token supply before user's purchases
-
-// Default system parameters
-const DEFAULT_SYSTEM_PARAMS: SystemParams = {
-  CB_base: 0.05, // 5% base cashback
-  alpha: 0.01, // 1% degradation per period
-  beta: 0.3, // Quality factor coefficient
-  gamma: 0.5, // Diminishing returns coefficient
-  P0: 1.0, // Initial token price = 1
-  k: 0.0001, // Bonding curve coefficient
-  discount_base: 0.1, // 10% base discount
-  theta: 0.006, // 0.6% discount degradation
-  burn_cap: 1000000, // 1M tokens burn cap per year
-  access_fee: 10, // 10 tokens access fee
-  user_cap: 10000, // 10K tokens user cap
-  t_launch: 0, // Launch time = 0
-};
+  // Calculator state is restored from and mirrored into the URL query string
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [initialState] = useState(() => decodeCalculatorState(searchParams));
 
-export default function BuyerCalculator() {
   // User inputs state
-  const [userInputs, setUserInputs] = useState<UserInputs>({
-    purchasePrice: 10000,
-    numberOfPurchases: 7,
-    period: 1,
-    reviewQuality: 0.8,
-    returnProbability: 0.1,
-  });
+  const [userInputs, setUserInputs] = useState<UserInputs>(initialState.userInputs);
+  // Inputs the results are computed from; they trail the sliders while they are dragged
+  const computeInputs = useDebouncedValue(userInputs);
 
   // Validation errors state
   const [errors, setErrors] = useState<Partial<Record<keyof UserInputs, string>>>({});
 
-  // System parameters state (can be made editable later)
-  const [systemParams] = useState<SystemParams>(DEFAULT_SYSTEM_PARAMS);
-
-  // Validation function
-  const validateInput = (field: keyof UserInputs, value: number): string | null => {
-    switch (field) {
-      case 'purchasePrice':
-        if (isNaN(value) || value < 0) {
-          return 'Цена покупки должна быть положительным числом';
-        }
-        return null;
-      case 'numberOfPurchases':
-        if (isNaN(value) || value < 1 || !Number.isInteger(value)) {
-          return 'Количество покупок должно быть целым числом не менее 1';
-        }
-        return null;
-      case 'period':
-        if (isNaN(value) || value < 0) {
-          return 'Период должен быть неотрицательным числом';
-        }
-        return null;
-      case 'reviewQuality':
-        if (isNaN(value) || value < 0 || value > 1) {
-          return 'Качество отзывов должно быть числом от 0 до 1';
-        }
-        return null;
-      case 'returnProbability':
-        if (isNaN(value) || value < 0 || value > 1) {
-          return 'Вероятность возврата должна быть числом от 0 до 1';
-        }
-        return null;
-      default:
-        return null;
+  // System parameters state (editable in the advanced parameters panel)
+  const [systemParams, setSystemParams] = useState<SystemParams>(initialState.systemParams);
+
+  // Market model: clones of the buyer or a population of segments
+  const [marketMode, setMarketMode] = useState<MarketMode>('clones');
+  const [population, setPopulation] = useState<UserSegment[]>(() => createDefaultPopulation(locale));
+
+  // Bonding curve pricing: spot price or area under the curve
+  const [pricingMode, setPricingMode] = useState<PricingMode>('spot');
+
+  // Bonding curve chart: sampled range and candidate shapes drawn over the current curve
+  const [curveRange, setCurveRange] = useState<CurveRange>(DEFAULT_CURVE_RANGE);
+  const [overlayShapes, setOverlayShapes] = useState<CurveShape[]>([]);
+
+  // Display currency and exchange rates; the engine itself works in rubles
+  const [currency, setCurrency] = useCurrencySettings();
+  const { toDisplay, formatMoney } = useDisplayCurrency(currency);
+
+  const [monteCarloSettings, setMonteCarloSettings] = useState<MonteCarloSettings>(DEFAULT_MONTE_CARLO_SETTINGS);
+
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Scenario saving state
+  const [scenarioName, setScenarioName] = useState('');
+  const [scenarioSaved, setScenarioSaved] = useState(false);
+
+  // Keep the URL in sync so the current scenario can be shared
+  useEffect(() => {
+    const next = encodeCalculatorState(userInputs, systemParams);
+    if (next.toString() !== searchParams.toString()) {
+      setSearchParams(next, { replace: true });
+    }
+    setLinkCopied(false);
+  }, [userInputs, systemParams, searchParams, setSearchParams]);
+
+  // Copy a link to the current scenario
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+    } catch {
+      setLinkCopied(false);
     }
   };
 
@@ -125,18 +140,18 @@ export default function BuyerCalculator() {
       ? parseInt(value, 10) 
       : parseFloat(value);
     
-    const error = validateInput(field, numValue);
+    const error = validateInput(field, numValue, locale);
     
     setErrors((prev) => ({
       ...prev,
       [field]: error || undefined,
     }));
 
-    // Update value if valid
+    // Update value if valid; the purchase price is entered in its own currency
     if (!error && !isNaN(numValue)) {
       setUserInputs((prev) => ({
         ...prev,
-        [field]: numValue,
+        [field]: field === 'purchasePrice' ? convertToRub(numValue, currency.input, currency.rates) : numValue,
       }));
     }
   };
@@ -144,25 +159,12 @@ export default function BuyerCalculator() {
   // Handle blur - correct value if invalid
   const handleBlur = (field: keyof UserInputs) => {
     const currentValue = userInputs[field];
-    const error = validateInput(field, currentValue);
+    const error = validateInput(field, currentValue, locale);
     
     if (error) {
       // Correct value based on field
-      let correctedValue = currentValue;
-      switch (field) {
-        case 'reviewQuality':
-        case 'returnProbability':
-          correctedValue = Math.max(0, Math.min(1, currentValue));
-          break;
-        case 'numberOfPurchases':
-          correctedValue = Math.max(1, Math.floor(currentValue));
-          break;
-        case 'purchasePrice':
-        case 'period':
-          correctedValue = Math.max(0, currentValue);
-          break;
-      }
-      
+      const correctedValue = correctInput(field, currentValue);
+
       setUserInputs((prev) => ({
         ...prev,
         [field]: correctedValue,
@@ -174,250 +176,145 @@ export default function BuyerCalculator() {
     }
   };
 
-  // Calculate CB%(t) - Cashback percentage at time t
-  const calculateCashbackPercent = (t: number, params: SystemParams): number => {
-    return Math.max(0, params.CB_base * (1 - params.alpha * (t - params.t_launch)));
-  };
+  // Calculate results
+  // Market model at period t for the selected market mode; the spec is what workers receive
+  const marketSpec = useMemo<MarketSpec>(() => ({ mode: marketMode, population }), [marketMode, population]);
+  const createMarket = useMemo(() => createMarketFactory(marketSpec, pricingMode), [marketSpec, pricingMode]);
+
+  // Results under both pricing modes, with a population market trading under each;
+  // the selected one drives the page
+  const resultsByPricing = useMemo(() => {
+    const t = Math.floor(computeInputs.period);
+    const results = (pricing: PricingMode) =>
+      calculateResults(computeInputs, systemParams, createMarketFactory(marketSpec, pricing)(t, systemParams), pricing);
+    return { spot: results('spot'), integral: results('integral') };
+  }, [computeInputs, systemParams, marketSpec]);
+
+  const results = resultsByPricing[pricingMode];
+
+  // Formulas behind the breakdown, with the current values substituted
+  const explanations = explainBreakdown(computeInputs, systemParams, results, pricingMode, currency, locale);
+
+  const pricingComparison = [
+    { label: t('buyer.results.minted'), key: 'totalMintedUser' as const },
+    { label: t('buyer.results.burned'), key: 'totalBurned' as const },
+    { label: t('buyer.results.net'), key: 'netTokens' as const },
+  ].map(({ label, key }) => {
+    const spot = resultsByPricing.spot[key];
+    const integral = resultsByPricing.integral[key];
+    return { label, spot, integral, diffPercent: spot !== 0 ? ((integral - spot) / Math.abs(spot)) * 100 : 0 };
+  });
 
-  // Calculate QFi - Quality factor for purchase i
-  const calculateQualityFactor = (
-    returnProbability: number,
-    reviewQuality: number,
-    params: SystemParams
-  ): number => {
-    return 1 + params.beta * (1 - returnProbability) * reviewQuality;
-  };
+  // Generate chart data for bonding curve, with candidate shapes at their default parameters,
+  // priced in the display currency
+  const bondingCurveData = useMemo(
+    () =>
+      generateBondingCurveData(systemParams, curveRange).map((point) => ({
+        ...point,
+        price: toDisplay(point.price),
+        ...Object.fromEntries(
+          overlayShapes.map((shape) => [
+            shape,
+            toDisplay(calculateTokenPrice(point.totalMinted, { ...systemParams, curve: DEFAULT_CURVES[shape] })),
+          ])
+        ),
+      })),
+    [systemParams, curveRange, overlayShapes, toDisplay]
+  );
 
-  // Calculate DF(t) - Diminishing factor at time t
-  const calculateDiminishingFactor = (
-    totalMintedUser: number,
-    params: SystemParams
-  ): number => {
-    return Math.exp(-params.gamma * (totalMintedUser / params.user_cap));
-  };
+  // Price before the buyer and the market mint, for the price impact markers
+  const initialPrice = calculateTokenPrice(results.breakdown.initialGlobalTotalMinted, systemParams);
+  const priceImpact = initialPrice > 0 ? results.tokenPrice / initialPrice - 1 : 0;
+  const clampToCurveRange = (x: number) => Math.min(curveRange.max, Math.max(curveRange.min, x));
+  const isInCurveRange = (x: number) => x >= curveRange.min && x <= curveRange.max;
 
-  // Calculate Ptoken(t) - Token price at time t
-  const calculateTokenPrice = (
-    totalMinted: number,
-    params: SystemParams
-  ): number => {
-    return params.P0 * (1 + params.k * totalMinted ** 2);
-  };
+  // DF over the user's own mint up to user_cap, with the buyer's stretch marked
+  const dfData = useMemo(
+    () => generateDiminishingFactorData(systemParams, results.totalMintedUser),
+    [systemParams, results.totalMintedUser]
+  );
 
-  // Calculate discount%(t) - Discount percentage at time t
-  const calculateDiscountPercent = (
-    burnedYear: number,
-    params: SystemParams
-  ): number => {
-    return Math.max(0, params.discount_base * (1 - params.theta * (burnedYear / params.burn_cap)));
-  };
+  // CB% and discount% across periods for the current inputs and market
+  const periodRatesData = useMemo(
+    () => generatePeriodRatesData(computeInputs, systemParams, createMarket, pricingMode),
+    [computeInputs, systemParams, createMarket, pricingMode]
+  );
 
-  // Calculate minted tokens for user
-  const calculateMintedTokens = (
-    inputs: UserInputs,
-    params: SystemParams,
-    globalTotalMinted: number
-  ): { 
-    totalMintedUser: number; 
-    newGlobalTotalMinted: number;
-    dfFirst: number;
-    dfLast: number;
-    mintedPerPurchaseAvg: number;
-  } => {
-    let currentGlobalTotalMinted = globalTotalMinted;
-    let totalMintedUser = 0;
-
-    // Use integer period for consistency across all calculations
-    const t = Math.floor(inputs.period);
-    
-    // Calculate DF at the start (when minted = 0)
-    const dfFirst = calculateDiminishingFactor(0, params);
-    
-    for (let i = 0; i < inputs.numberOfPurchases; i++) {
-      const CB_percent = calculateCashbackPercent(t, params);
-      const QFi = calculateQualityFactor(
-        inputs.returnProbability,
-        inputs.reviewQuality,
-        params
-      );
-      const DF = calculateDiminishingFactor(totalMintedUser, params);
-      const Ptoken = calculateTokenPrice(currentGlobalTotalMinted, params);
-
-      const mintedForPurchase =
-        (inputs.purchasePrice * CB_percent * QFi * DF) / Ptoken;
-
-      currentGlobalTotalMinted += mintedForPurchase;
-      totalMintedUser += mintedForPurchase;
+  const handleCurveRangeChange = (field: keyof CurveRange, value: string) => {
+    const next = { ...curveRange, [field]: parseFloat(value) };
+    if (next.min >= 0 && next.max > next.min) {
+      setCurveRange(next);
     }
-
-    // Calculate DF at the end (after all purchases)
-    const dfLast = calculateDiminishingFactor(totalMintedUser, params);
-    const mintedPerPurchaseAvg = totalMintedUser / inputs.numberOfPurchases;
-
-    return {
-      totalMintedUser,
-      newGlobalTotalMinted: currentGlobalTotalMinted,
-      dfFirst,
-      dfLast,
-      mintedPerPurchaseAvg,
-    };
   };
 
-  // Calculate burned tokens for user
-  const calculateBurnedTokens = (
-    inputs: UserInputs,
-    params: SystemParams,
-    burnedYear: number,
-    tokenPrice: number
-  ): number => {
-    const discount_percent = calculateDiscountPercent(burnedYear, params);
-    let totalBurned = 0;
-
-    for (let i = 0; i < inputs.numberOfPurchases; i++) {
-      // Convert discount in rubles to tokens using current token price
-      const discountInRubles = inputs.purchasePrice * discount_percent;
-      const burnedForPurchase = discountInRubles / tokenPrice;
-      totalBurned += burnedForPurchase;
+  // Save the current inputs, parameters and results as a named scenario
+  const handleSaveScenario = () => {
+    const name = scenarioName.trim();
+    if (!name) {
+      return;
     }
-
-    // access_fee is a fixed fee in tokens (not dependent on token price)
-    return totalBurned + params.access_fee;
+    const scenarios = loadScenarios();
+    saveScenarios([...scenarios, createScenario(name, computeInputs, systemParams, pricingMode, marketSpec, results, scenarios)]);
+    setScenarioName('');
+    setScenarioSaved(true);
   };
 
-  // Calculate results
-  const results = useMemo(() => {
-    // Use initial global total minted (simplified - in real scenario this would be global state)
-    const initialGlobalTotalMinted = INITIAL_GLOBAL_MINTED;
-    
-    // Use integer period for consistency
-    const t = Math.floor(userInputs.period);
-    
-    // Calculate minted tokens using global total minted
-    const mintResult = calculateMintedTokens(
-      userInputs,
-      systemParams,
-      initialGlobalTotalMinted
-    );
-    
-    const totalMintedUser = mintResult.totalMintedUser;
-    
-    // Update global total considering all similar users
-    // Formula: newGlobalTotalMinted = initialGlobalTotalMinted + (totalMintedUser * ASSUMED_USERS)
-    const newGlobalTotalMinted = initialGlobalTotalMinted + (totalMintedUser * ASSUMED_USERS);
-    
-    // Calculate token price based on the updated global total minted
-    const tokenPrice = calculateTokenPrice(newGlobalTotalMinted, systemParams);
-    
-    // Estimate market burned tokens for discount calculation
-    // Formula: assumedMarketBurnedYearTokens = totalMintedUser * ASSUMED_BURN_RATE * ASSUMED_USERS
-    const assumedMarketBurnedYearTokens = totalMintedUser * ASSUMED_BURN_RATE * ASSUMED_USERS;
-    const totalBurned = calculateBurnedTokens(
-      userInputs,
-      systemParams,
-      assumedMarketBurnedYearTokens,
-      tokenPrice
-    );
-
-    const burnDestroyed = totalBurned * 0.7; // 70% destroyed
-    const burnRedistributed = totalBurned * 0.3; // 30% redistributed to sellers
-
-    // Calculate intermediate values for breakdown
-    const CB_percent = calculateCashbackPercent(t, systemParams);
-    const QF = calculateQualityFactor(userInputs.returnProbability, userInputs.reviewQuality, systemParams);
-    const capUsage = totalMintedUser / systemParams.user_cap;
-    const discount_percent = calculateDiscountPercent(assumedMarketBurnedYearTokens, systemParams);
-    const discountRubTotal = userInputs.purchasePrice * userInputs.numberOfPurchases * discount_percent;
-    const burnDiscountTokens = discountRubTotal / tokenPrice;
-    const accessFeeTokens = systemParams.access_fee;
-    const netValueRub = (totalMintedUser - totalBurned) * tokenPrice;
-    const effectiveCashbackRub = totalMintedUser * tokenPrice;
-    const effectiveDiscountRub = totalBurned * tokenPrice;
-
-    return {
-      totalMintedUser,
-      tokenPrice,
-      totalBurned,
-      burnDestroyed,
-      burnRedistributed,
-      netTokens: totalMintedUser - totalBurned,
-      // Breakdown values
-      breakdown: {
-        // Mint breakdown
-        t,
-        CB_percent,
-        QF,
-        dfFirst: mintResult.dfFirst,
-        dfLast: mintResult.dfLast,
-        mintedPerPurchaseAvg: mintResult.mintedPerPurchaseAvg,
-        capUsage,
-        // Burn breakdown
-        discount_percent,
-        discountRubTotal,
-        burnDiscountTokens,
-        accessFeeTokens,
-        // Interpretation
-        netValueRub,
-        effectiveCashbackRub,
-        effectiveDiscountRub,
-        // Assumptions
-        initialGlobalTotalMinted,
-        assumedUsers: ASSUMED_USERS,
-        assumedBurnRate: ASSUMED_BURN_RATE,
-        newGlobalTotalMinted,
-      },
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [userInputs, systemParams]);
-
-  // Generate chart data for bonding curve
-  const bondingCurveData = useMemo(() => {
-    const data = [];
-    for (let totalMinted = 0; totalMinted <= 100000; totalMinted += 1000) {
-      const price = calculateTokenPrice(totalMinted, systemParams);
-      data.push({
-        totalMinted,
-        price: price,
-      });
+  // Apply the sections of an imported config file that this page uses
+  const handleImportConfig = (config: ConfigFile) => {
+    if (config.userInputs) {
+      setUserInputs(config.userInputs);
+      setErrors({});
     }
-    return data;
-  }, [systemParams]);
+    if (config.systemParams) {
+      setSystemParams(config.systemParams);
+    }
+    if (config.monteCarlo) {
+      setMonteCarloSettings(config.monteCarlo);
+    }
+  };
 
-  // Burn mechanism pie chart data
-  const burnPieData = [
-    { name: 'Уничтожено (70%)', value: results.burnDestroyed },
-    { name: 'Перераспределено продавцам (30%)', value: results.burnRedistributed },
-  ];
+  // Burn mechanism destinations with a non-zero share, labelled with the current split
+  const burnShares = calculateBurnShares(systemParams);
+  const burnPieData = BURN_DESTINATIONS.filter((destination) => burnShares[destination] > 0).map(
+    (destination) => ({
+      destination,
+      name: `${t(`burnDestination.${destination}`)} (${formatPercent(burnShares[destination], 0)})`,
+      value: results.burnSplit[destination],
+    })
+  );
 
-  const COLORS = ['#8884d8', '#82ca9d'];
+  const BURN_COLORS: Record<BurnDestination, string> = {
+    destroyed: '#8884d8',
+    sellers: '#82ca9d',
+    treasury: '#ffc658',
+    staking: '#ff7300',
+    referral: '#e05297',
+  };
+  const CURVE_OVERLAY_COLORS = ['#8884d8', '#e05297', '#ffc658', '#413ea0'];
 
   return (
     <div className="buyer-calculator">
       <div className="calculator-header">
-        <h1>Калькулятор токеномики для покупателей (B2C)</h1>
-        <p className="description">
-          Этот калькулятор поможет вам рассчитать количество токенов, которые вы получите
-          за покупки (эмиссия) и сможете использовать для получения скидок (утилизация).
-        </p>
+        <h1>{t('buyer.title')}</h1>
+        <p className="description">{t('buyer.description')}</p>
       </div>
 
       <div className="calculator-content">
         <div className="main-sections">
           <div className="input-section">
-            <h2>Параметры ваших действий</h2>
-            <p className="section-description">
-              Введите данные о ваших покупках и активности на платформе:
-            </p>
+            <h2>{t('buyer.inputs.title')}</h2>
+            <p className="section-description">{t('buyer.inputs.description')}</p>
 
           <div className="input-group">
             <label htmlFor="purchasePrice">
-              Цена покупки (₽) <span className="required">*</span>
+              {t('buyer.purchasePrice.label', { currency: currencySymbol(currency.input) })} <span className="required">*</span>
             </label>
             <input
               id="purchasePrice"
               type="number"
               min="0"
               step="100"
-              value={userInputs.purchasePrice}
+              value={Number(convertFromRub(userInputs.purchasePrice, currency.input, currency.rates).toFixed(2))}
               onChange={(e) => handleInputChange('purchasePrice', e.target.value)}
               onBlur={() => handleBlur('purchasePrice')}
               className={errors.purchasePrice ? 'input-error' : ''}
@@ -425,14 +322,12 @@ export default function BuyerCalculator() {
             {errors.purchasePrice && (
               <span className="error-message">{errors.purchasePrice}</span>
             )}
-            <span className="input-hint">
-              Средняя стоимость одной покупки в рублях
-            </span>
+            <span className="input-hint">{t('buyer.purchasePrice.hint')}</span>
           </div>
 
           <div className="input-group">
             <label htmlFor="numberOfPurchases">
-              Количество покупок <span className="required">*</span>
+              {t('buyer.numberOfPurchases.label')} <span className="required">*</span>
             </label>
             <input
               id="numberOfPurchases"
@@ -446,14 +341,12 @@ export default function BuyerCalculator() {
             {errors.numberOfPurchases && (
               <span className="error-message">{errors.numberOfPurchases}</span>
             )}
-            <span className="input-hint">
-              Сколько покупок вы планируете совершить
-            </span>
+            <span className="input-hint">{t('buyer.numberOfPurchases.hint')}</span>
           </div>
 
           <div className="input-group">
             <label htmlFor="period">
-              Период (время с момента запуска) <span className="required">*</span>
+              {t('buyer.period.label')} <span className="required">*</span>
             </label>
             <div className="slider-container">
               <input
@@ -482,14 +375,12 @@ export default function BuyerCalculator() {
             {errors.period && (
               <span className="error-message">{errors.period}</span>
             )}
-            <span className="input-hint">
-              Временной период с момента запуска платформы (в условных единицах)
-            </span>
+            <span className="input-hint">{t('buyer.period.hint')}</span>
           </div>
 
           <div className="input-group">
             <label htmlFor="reviewQuality">
-              Качество отзывов (0-1) <span className="required">*</span>
+              {t('buyer.reviewQuality.label')} <span className="required">*</span>
             </label>
             <div className="slider-container">
               <input
@@ -513,19 +404,17 @@ export default function BuyerCalculator() {
                 style={{ '--slider-progress': `${(userInputs.reviewQuality / 1) * 100}%` } as React.CSSProperties}
                 className={errors.reviewQuality ? 'slider-error' : ''}
               />
-              <span className="slider-value">{(userInputs.reviewQuality * 100).toFixed(1)}%</span>
+              <span className="slider-value">{formatPercent(userInputs.reviewQuality, 1)}</span>
             </div>
             {errors.reviewQuality && (
               <span className="error-message">{errors.reviewQuality}</span>
             )}
-            <span className="input-hint">
-              Оценка качества ваших отзывов (0 = плохо, 1 = отлично)
-            </span>
+            <span className="input-hint">{t('buyer.reviewQuality.hint')}</span>
           </div>
 
           <div className="input-group">
             <label htmlFor="returnProbability">
-              Вероятность возврата (0-1) <span className="required">*</span>
+              {t('buyer.returnProbability.label')} <span className="required">*</span>
             </label>
             <div className="slider-container">
               <input
@@ -549,203 +438,391 @@ export default function BuyerCalculator() {
                 style={{ '--slider-progress': `${(userInputs.returnProbability / 1) * 100}%` } as React.CSSProperties}
                 className={errors.returnProbability ? 'slider-error' : ''}
               />
-              <span className="slider-value">{(userInputs.returnProbability * 100).toFixed(1)}%</span>
+              <span className="slider-value">{formatPercent(userInputs.returnProbability, 1)}</span>
             </div>
             {errors.returnProbability && (
               <span className="error-message">{errors.returnProbability}</span>
             )}
-            <span className="input-hint">
-              Вероятность возврата товара (0 = никогда не возвращаете, 1 = всегда возвращаете)
-            </span>
+            <span className="input-hint">{t('buyer.returnProbability.hint')}</span>
           </div>
         </div>
 
         <div className="results-section">
-          <h2>Результаты расчетов</h2>
+          <div className="results-header">
+            <h2>{t('buyer.results.title')}</h2>
+            <button type="button" className="copy-link-button" onClick={handleCopyLink}>
+              {linkCopied ? t('buyer.results.linkCopied') : t('buyer.results.copyLink')}
+            </button>
+          </div>
 
           <div className="results-grid">
             <div className="result-card">
-              <h3>Эмиссия токенов</h3>
-              <div className="result-value">
-                {results.totalMintedUser.toFixed(2)}
-              </div>
-              <p className="result-description">
-                Количество токенов, которые вы получите за ваши покупки
-              </p>
+              <h3>{t('buyer.results.minted')}</h3>
+              <div className="result-value">{formatNumber(results.totalMintedUser)}</div>
+              <p className="result-description">{t('buyer.results.mintedDescription')}</p>
             </div>
 
             <div className="result-card">
-              <h3>Цена токена</h3>
-              <div className="result-value">
-                {results.tokenPrice.toFixed(4)} ₽
-              </div>
-              <p className="result-description">
-                Текущая цена токена на основе bonding curve
-              </p>
+              <h3>{t('buyer.results.tokenPrice')}</h3>
+              <div className="result-value">{formatMoney(results.tokenPrice, 4)}</div>
+              <p className="result-description">{t('buyer.results.tokenPriceDescription')}</p>
             </div>
 
             <div className="result-card">
-              <h3>Утилизация токенов</h3>
-              <div className="result-value">
-                {results.totalBurned.toFixed(2)}
-              </div>
-              <p className="result-description">
-                Количество токенов, которые вы потратите на скидки и доступ
-              </p>
+              <h3>{t('buyer.results.burned')}</h3>
+              <div className="result-value">{formatNumber(results.totalBurned)}</div>
+              <p className="result-description">{t('buyer.results.burnedDescription')}</p>
             </div>
 
             <div className="result-card">
-              <h3>Чистый баланс</h3>
-              <div className="result-value">
-                {results.netTokens.toFixed(2)}
-              </div>
-              <p className="result-description">
-                Итоговое количество токенов после эмиссии и утилизации
-              </p>
+              <h3>{t('buyer.results.net')}</h3>
+              <div className="result-value">{formatNumber(results.netTokens)}</div>
+              <p className="result-description">{t('buyer.results.netDescription')}</p>
             </div>
           </div>
 
+          <CapWarning
+            mintCutOff={results.breakdown.mintCutOff}
+            purchasesCutOff={results.breakdown.purchasesCutOff}
+            burnRejected={results.breakdown.burnRejected}
+            purchasesBurnRejected={results.breakdown.purchasesBurnRejected}
+          />
+
           <div className="burn-mechanism">
-            <h3>Механизм сжигания токенов</h3>
+            <h3>{t('buyer.burnMechanism')}</h3>
             <div className="burn-stats">
-              <div className="burn-stat">
-                <span className="burn-label">Уничтожено (70%):</span>
-                <span className="burn-value">{results.burnDestroyed.toFixed(2)}</span>
-              </div>
-              <div className="burn-stat">
-                <span className="burn-label">Перераспределено продавцам (30%):</span>
-                <span className="burn-value">{results.burnRedistributed.toFixed(2)}</span>
-              </div>
+              {burnPieData.map((entry) => (
+                <div className="burn-stat" key={entry.destination}>
+                  <span className="burn-label">{entry.name}:</span>
+                  <span className="burn-value">{formatNumber(entry.value)}</span>
+                </div>
+              ))}
             </div>
           </div>
+
+          <div className="pricing-mode">
+            <h3>{t('buyer.pricing.title')}</h3>
+            <div className="pricing-mode-options">
+              <label>
+                <input
+                  type="radio"
+                  name="pricing-mode"
+                  checked={pricingMode === 'spot'}
+                  onChange={() => setPricingMode('spot')}
+                />
+                {t('buyer.pricing.spotOption')}
+              </label>
+              <label>
+                <input
+                  type="radio"
+                  name="pricing-mode"
+                  checked={pricingMode === 'integral'}
+                  onChange={() => setPricingMode('integral')}
+                />
+                {t('buyer.pricing.integralOption')}
+              </label>
+            </div>
+            <table className="pricing-mode-table">
+              <thead>
+                <tr>
+                  <th />
+                  <th>{t('buyer.pricing.spot')}</th>
+                  <th>{t('buyer.pricing.integral')}</th>
+                  <th>{t('buyer.pricing.difference')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pricingComparison.map((row) => (
+                  <tr key={row.label}>
+                    <td>{row.label}</td>
+                    <td>{formatNumber(row.spot, 4)}</td>
+                    <td>{formatNumber(row.integral, 4)}</td>
+                    <td>{row.diffPercent >= 0 ? '+' : ''}{formatPercent(row.diffPercent / 100, 3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="scenario-save">
+            <input
+              type="text"
+              placeholder={t('buyer.scenario.namePlaceholder')}
+              value={scenarioName}
+              onChange={(e) => {
+                setScenarioName(e.target.value);
+                setScenarioSaved(false);
+              }}
+            />
+            <button type="button" onClick={handleSaveScenario} disabled={!scenarioName.trim()}>
+              {t('buyer.scenario.save')}
+            </button>
+            {scenarioSaved && (
+              <Link to="/compare">{t('buyer.scenario.saved')}</Link>
+            )}
+          </div>
         </div>
         </div>
 
+        <SystemParamsPanel params={systemParams} onChange={setSystemParams} />
+
+        <CurrencyPanel settings={currency} onChange={setCurrency} />
+
+        <PopulationPanel
+          mode={marketMode}
+          onModeChange={setMarketMode}
+          population={population}
+          onChange={setPopulation}
+          currency={currency}
+        />
+
+        <MonteCarloPanel
+          inputs={computeInputs}
+          params={systemParams}
+          market={marketSpec}
+          pricing={pricingMode}
+          currency={currency}
+          settings={monteCarloSettings}
+          onSettingsChange={setMonteCarloSettings}
+        />
+
+        <SensitivityPanel
+          inputs={computeInputs}
+          params={systemParams}
+          market={marketSpec}
+          pricing={pricingMode}
+          currency={currency}
+        />
+
+        <GoalSeekPanel
+          inputs={userInputs}
+          params={systemParams}
+          createMarket={createMarket}
+          pricing={pricingMode}
+          currency={currency}
+          onApply={(inputs, params) => {
+            setUserInputs(inputs);
+            setErrors({});
+            setSystemParams(params);
+          }}
+        />
+
+        <PurchaseLedgerPanel
+          inputs={computeInputs}
+          params={systemParams}
+          results={results}
+          pricing={pricingMode}
+          currency={currency}
+        />
+
+        <PurchaseSchedulePanel
+          params={systemParams}
+          createMarket={createMarket}
+          pricing={pricingMode}
+          currency={currency}
+        />
+
+        <StakingPanel results={results} params={systemParams} currency={currency} />
+
+        <ConfigFilePanel
+          config={{ systemParams, userInputs, monteCarlo: monteCarloSettings }}
+          fileName="buyer-scenario"
+          onImport={handleImportConfig}
+        />
+
         <div className="details-section">
-          <h2>Промежуточные шаги расчёта</h2>
+          <h2>{t('buyer.breakdown.title')}</h2>
+          <p className="section-description">{t('buyer.breakdown.hint')}</p>
           
           <div className="breakdown-grid">
             <div className="breakdown-block">
-              <h4>Эмиссия (mint)</h4>
+              <h4>{t('buyer.breakdown.mint')}</h4>
               <div className="breakdown-table">
                 <div className="breakdown-row">
-                  <span className="breakdown-label">Период t:</span>
+                  <span className="breakdown-label">{t('buyer.breakdown.period')}</span>
                   <span className="breakdown-value">{results.breakdown.t}</span>
                 </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Кэшбек CB%(t):</span>
-                  <span className="breakdown-value">{(results.breakdown.CB_percent * 100).toFixed(2)}%</span>
-                </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Коэффициент качества QF:</span>
-                  <span className="breakdown-value">{results.breakdown.QF.toFixed(3)}</span>
-                </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">DF (первая покупка):</span>
-                  <span className="breakdown-value">{results.breakdown.dfFirst.toFixed(4)}</span>
-                </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">DF (последняя покупка):</span>
-                  <span className="breakdown-value">{results.breakdown.dfLast.toFixed(4)}</span>
-                </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Эмиссия / покупка:</span>
-                  <span className="breakdown-value">{results.breakdown.mintedPerPurchaseAvg.toFixed(4)}</span>
-                </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Использование лимита пользователя:</span>
-                  <span className="breakdown-value">{(results.breakdown.capUsage * 100).toFixed(2)}%</span>
-                </div>
+                <FormulaRow
+                  label={t('buyer.breakdown.cashback')}
+                  value={formatPercent(results.breakdown.CB_percent)}
+                  explanation={explanations.CB_percent}
+                />
+                <FormulaRow
+                  label={t('buyer.breakdown.quality')}
+                  value={formatNumber(results.breakdown.QF, 3)}
+                  explanation={explanations.QF}
+                />
+                <FormulaRow
+                  label={t('buyer.breakdown.dfFirst')}
+                  value={formatNumber(results.breakdown.dfFirst, 4)}
+                  explanation={explanations.dfFirst}
+                />
+                <FormulaRow
+                  label={t('buyer.breakdown.dfLast')}
+                  value={formatNumber(results.breakdown.dfLast, 4)}
+                  explanation={explanations.dfLast}
+                />
+                <FormulaRow
+                  label={t('buyer.breakdown.mintedPerPurchase')}
+                  value={formatNumber(results.breakdown.mintedPerPurchaseAvg, 4)}
+                  explanation={explanations.mintedPerPurchaseAvg}
+                />
+                <FormulaRow
+                  label={t('buyer.breakdown.capUsage')}
+                  value={formatPercent(results.breakdown.capUsage)}
+                  explanation={explanations.capUsage}
+                />
+                {systemParams.hard_caps && (
+                  <div className="breakdown-row">
+                    <span className="breakdown-label">{t('buyer.breakdown.mintCutOff')}</span>
+                    <span className="breakdown-value">{formatNumber(results.breakdown.mintCutOff, 4)}</span>
+                  </div>
+                )}
               </div>
             </div>
 
             <div className="breakdown-block">
-              <h4>Утилизация (burn)</h4>
+              <h4>{t('buyer.breakdown.burn')}</h4>
               <div className="breakdown-table">
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Процент скидки:</span>
-                  <span className="breakdown-value">{(results.breakdown.discount_percent * 100).toFixed(2)}%</span>
-                </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Скидка в рублях (всего):</span>
-                  <span className="breakdown-value">{results.breakdown.discountRubTotal.toFixed(2)} ₽</span>
-                </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Сжигание за скидку (токены):</span>
-                  <span className="breakdown-value">{results.breakdown.burnDiscountTokens.toFixed(4)}</span>
-                </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Плата за доступ (токены):</span>
-                  <span className="breakdown-value">{results.breakdown.accessFeeTokens.toFixed(2)}</span>
-                </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Итого сжигание (токены):</span>
-                  <span className="breakdown-value">{results.totalBurned.toFixed(4)}</span>
-                </div>
+                <FormulaRow
+                  label={t('buyer.breakdown.discountPercent')}
+                  value={formatPercent(results.breakdown.discount_percent)}
+                  explanation={explanations.discount_percent}
+                />
+                <FormulaRow
+                  label={t('buyer.breakdown.discountRub')}
+                  value={formatMoney(results.breakdown.discountRubTotal)}
+                  explanation={explanations.discountRubTotal}
+                />
+                <FormulaRow
+                  label={t('buyer.breakdown.discountTokens')}
+                  value={formatNumber(results.breakdown.burnDiscountTokens, 4)}
+                  explanation={explanations.burnDiscountTokens}
+                />
+                {systemParams.hard_caps && (
+                  <div className="breakdown-row">
+                    <span className="breakdown-label">{t('buyer.breakdown.burnRejected')}</span>
+                    <span className="breakdown-value">{formatNumber(results.breakdown.burnRejected, 4)}</span>
+                  </div>
+                )}
+                <FormulaRow
+                  label={t('buyer.breakdown.accessFee')}
+                  value={formatNumber(results.breakdown.accessFeeTokens)}
+                  explanation={explanations.accessFeeTokens}
+                />
+                <FormulaRow
+                  label={t('buyer.breakdown.totalBurned')}
+                  value={formatNumber(results.totalBurned, 4)}
+                  explanation={explanations.totalBurned}
+                />
               </div>
             </div>
 
             <div className="breakdown-block">
-              <h4>Интерпретация</h4>
+              <h4>{t('buyer.breakdown.interpretation')}</h4>
               <div className="breakdown-table">
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Чистая стоимость в рублях:</span>
-                  <span className="breakdown-value">{results.breakdown.netValueRub.toFixed(2)} ₽</span>
-                </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Эффективный кэшбек в рублях:</span>
-                  <span className="breakdown-value">{results.breakdown.effectiveCashbackRub.toFixed(2)} ₽</span>
-                </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Эффективная "стоимость" утилизации:</span>
-                  <span className="breakdown-value">{results.breakdown.effectiveDiscountRub.toFixed(2)} ₽</span>
-                </div>
+                <FormulaRow
+                  label={t('buyer.breakdown.netValue')}
+                  value={formatMoney(results.breakdown.netValueRub)}
+                  explanation={explanations.netValueRub}
+                />
+                <FormulaRow
+                  label={t('buyer.breakdown.effectiveCashback')}
+                  value={formatMoney(results.breakdown.effectiveCashbackRub)}
+                  explanation={explanations.effectiveCashbackRub}
+                />
+                <FormulaRow
+                  label={t('buyer.breakdown.effectiveDiscount')}
+                  value={formatMoney(results.breakdown.effectiveDiscountRub)}
+                  explanation={explanations.effectiveDiscountRub}
+                />
               </div>
             </div>
 
             <div className="breakdown-block">
-              <h4>Допущения</h4>
+              <h4>{t('buyer.breakdown.assumptions')}</h4>
               <div className="breakdown-table">
                 <div className="breakdown-row">
-                  <span className="breakdown-label">Начальная глобальная эмиссия:</span>
-                  <span className="breakdown-value">{results.breakdown.initialGlobalTotalMinted}</span>
-                </div>
-                <div className="breakdown-row">
-                  <span className="breakdown-label">Предполагаемое количество пользователей:</span>
-                  <span className="breakdown-value">{results.breakdown.assumedUsers}</span>
+                  <span className="breakdown-label">{t('buyer.breakdown.initialMinted')}</span>
+                  <span className="breakdown-value">{formatNumber(results.breakdown.initialGlobalTotalMinted, 0)}</span>
                 </div>
                 <div className="breakdown-row">
-                  <span className="breakdown-label">Предполагаемый процент сжигания:</span>
-                  <span className="breakdown-value">{(results.breakdown.assumedBurnRate * 100).toFixed(0)}%</span>
+                  <span className="breakdown-label">
+                    {marketMode === 'population' ? t('buyer.breakdown.segmentUsers') : t('buyer.breakdown.assumedUsers')}
+                  </span>
+                  <span className="breakdown-value">{formatNumber(results.breakdown.assumedUsers, 0)}</span>
                 </div>
                 <div className="breakdown-row">
-                  <span className="breakdown-label">Глобальная эмиссия после:</span>
-                  <span className="breakdown-value">{results.breakdown.newGlobalTotalMinted.toFixed(2)}</span>
+                  <span className="breakdown-label">
+                    {marketMode === 'population' ? t('buyer.breakdown.marketBurnShare') : t('buyer.breakdown.assumedBurnRate')}
+                  </span>
+                  <span className="breakdown-value">{formatPercent(results.breakdown.assumedBurnRate, 0)}</span>
                 </div>
+                <FormulaRow
+                  label={t('buyer.breakdown.finalMinted')}
+                  value={formatNumber(results.breakdown.newGlobalTotalMinted)}
+                  explanation={explanations.newGlobalTotalMinted}
+                />
               </div>
             </div>
           </div>
 
-          <p className="breakdown-note">
-            Промежуточные коэффициенты показывают, какие факторы влияют на эмиссию и утилизацию: cashback и качество увеличивают mint, а высокая цена токена по bonding curve уменьшает mint и увеличивает стоимость утилизации в токенах.
-          </p>
+          <p className="breakdown-note">{t('buyer.breakdown.note')}</p>
         </div>
 
         <div className="charts-section">
-          <h2>Визуализация</h2>
+          <h2>{t('buyer.charts.title')}</h2>
 
           <div className="chart-container">
-            <h3>Bonding Curve (цена токена)</h3>
+            <h3>{t('buyer.charts.curve')}</h3>
+            <div className="curve-chart-controls">
+              <label>
+                {t('buyer.charts.rangeFrom')}
+                <input
+                  type="number"
+                  min="0"
+                  step="1000"
+                  value={curveRange.min}
+                  onChange={(e) => handleCurveRangeChange('min', e.target.value)}
+                />
+              </label>
+              <label>
+                {t('buyer.charts.rangeTo')}
+                <input
+                  type="number"
+                  min="0"
+                  step="1000"
+                  value={curveRange.max}
+                  onChange={(e) => handleCurveRangeChange('max', e.target.value)}
+                />
+              </label>
+              {CURVE_SHAPES.filter((shape) => shape !== systemParams.curve.type).map((shape) => (
+                <label key={shape}>
+                  <input
+                    type="checkbox"
+                    checked={overlayShapes.includes(shape)}
+                    onChange={(e) =>
+                      setOverlayShapes((prev) =>
+                        e.target.checked ? [...prev, shape] : prev.filter((s) => s !== shape)
+                      )
+                    }
+                  />
+                  {t(`curve.${shape}`)}
+                </label>
+              ))}
+            </div>
             <ResponsiveContainer width="100%" height={350}>
               <LineChart data={bondingCurveData} margin={{ top: 10, right: 30, left: 80, bottom: 100 }}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis
                   dataKey="totalMinted"
+                  type="number"
+                  domain={[curveRange.min, curveRange.max]}
                   padding={{ left: 0, right: 0 }}
-                  label={{ value: 'Общее количество заминченных токенов', position: 'insideBottom', offset: -5, style: { textAnchor: 'middle' } }}
+                  label={{ value: t('buyer.charts.totalMinted'), position: 'insideBottom', offset: -5, style: { textAnchor: 'middle' } }}
                 />
                 <YAxis 
-                  label={{ value: 'Цена токена (₽)', angle: -90, position: 'insideLeft', offset: -10, style: { textAnchor: 'middle' } }} 
+                  label={{ value: t('buyer.charts.tokenPrice', { currency: currencySymbol(currency.display) }), angle: -90, position: 'insideLeft', offset: -10, style: { textAnchor: 'middle' } }} 
                 />
                 <Tooltip />
                 <Legend wrapperStyle={{ paddingTop: '20px' }} />
@@ -753,15 +830,139 @@ export default function BuyerCalculator() {
                   type="monotone"
                   dataKey="price"
                   stroke="#82ca9d"
-                  name="Цена токена"
+                  name={t('buyer.charts.currentCurve', { curve: t(`curve.${systemParams.curve.type}`).toLocaleLowerCase(locale) })}
                   strokeWidth={2}
+                  dot={false}
+                />
+                {overlayShapes
+                  .filter((shape) => shape !== systemParams.curve.type)
+                  .map((shape, index) => (
+                    <Line
+                      key={shape}
+                      type="monotone"
+                      dataKey={shape}
+                      stroke={CURVE_OVERLAY_COLORS[index % CURVE_OVERLAY_COLORS.length]}
+                      strokeDasharray="5 5"
+                      name={t(`curve.${shape}`)}
+                      dot={false}
+                    />
+                  ))}
+                <ReferenceArea
+                  x1={clampToCurveRange(results.breakdown.initialGlobalTotalMinted)}
+                  x2={clampToCurveRange(results.breakdown.newGlobalTotalMinted)}
+                  fill="#ff7300"
+                  fillOpacity={0.08}
+                />
+                {isInCurveRange(results.breakdown.initialGlobalTotalMinted) && (
+                  <>
+                    <ReferenceLine
+                      x={results.breakdown.initialGlobalTotalMinted}
+                      stroke="#8884d8"
+                      strokeDasharray="3 3"
+                      label={{ value: t('buyer.charts.initialMinted'), position: 'insideTopLeft', fill: '#8884d8' }}
+                    />
+                    <ReferenceDot
+                      x={results.breakdown.initialGlobalTotalMinted}
+                      y={toDisplay(initialPrice)}
+                      r={5}
+                      fill="#8884d8"
+                      stroke="none"
+                    />
+                  </>
+                )}
+                {isInCurveRange(results.breakdown.newGlobalTotalMinted) && (
+                  <>
+                    <ReferenceLine
+                      x={results.breakdown.newGlobalTotalMinted}
+                      stroke="#ff7300"
+                      strokeDasharray="3 3"
+                      label={{ value: t('buyer.charts.currentMinted'), position: 'top', fill: '#ff7300' }}
+                    />
+                    <ReferenceDot
+                      x={results.breakdown.newGlobalTotalMinted}
+                      y={toDisplay(results.tokenPrice)}
+                      r={5}
+                      fill="#ff7300"
+                      stroke="none"
+                    />
+                  </>
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+            <p className="breakdown-note">
+              {t('buyer.charts.priceImpact', {
+                before: formatMoney(initialPrice, 4),
+                after: formatMoney(results.tokenPrice, 4),
+                change: `${priceImpact >= 0 ? '+' : ''}${formatPercent(priceImpact)}`,
+              })}
+            </p>
+          </div>
+
+          <div className="chart-container">
+            <h3>{t('buyer.charts.df')}</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={dfData} margin={{ top: 10, right: 30, left: 20, bottom: 40 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="userMinted"
+                  type="number"
+                  domain={[0, systemParams.user_cap]}
+                  label={{ value: t('buyer.charts.userMinted'), position: 'insideBottom', offset: -5 }}
+                />
+                <YAxis domain={[0, 1]} />
+                <Tooltip formatter={(value) => formatNumber(Number(value), 4)} />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                <Line type="monotone" dataKey="df" stroke="#8884d8" name={t('buyer.charts.dfCurve')} dot={false} />
+                <Line
+                  type="monotone"
+                  dataKey="buyer"
+                  stroke="#ff7300"
+                  strokeWidth={4}
+                  name={t('buyer.charts.dfBuyer', {
+                    first: formatNumber(results.breakdown.dfFirst, 4),
+                    last: formatNumber(results.breakdown.dfLast, 4),
+                  })}
+                  dot={false}
+                  connectNulls={false}
+                />
+                <ReferenceDot x={0} y={results.breakdown.dfFirst} r={5} fill="#ff7300" stroke="none" />
+                <ReferenceDot
+                  x={Math.min(results.totalMintedUser, systemParams.user_cap)}
+                  y={results.breakdown.dfLast}
+                  r={5}
+                  fill="#ff7300"
+                  stroke="none"
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="chart-container">
+            <h3>{t('buyer.charts.rates')}</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={periodRatesData} margin={{ top: 10, right: 30, left: 20, bottom: 40 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="period"
+                  label={{ value: t('buyer.charts.period'), position: 'insideBottom', offset: -5 }}
+                />
+                <YAxis tickFormatter={(value) => formatPercent(Number(value), 0)} />
+                <Tooltip formatter={(value) => formatPercent(Number(value))} />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                <Line type="monotone" dataKey="cashback" stroke="#82ca9d" name={t('buyer.charts.cashback')} dot={false} />
+                <Line type="monotone" dataKey="discount" stroke="#e05297" name={t('buyer.charts.discount')} dot={false} />
+                <ReferenceLine
+                  x={Math.floor(computeInputs.period)}
+                  stroke="#ff7300"
+                  strokeDasharray="3 3"
+                  label={{ value: t('buyer.charts.currentPeriod'), position: 'top', fill: '#ff7300' }}
                 />
               </LineChart>
             </ResponsiveContainer>
           </div>
 
           <div className="chart-container">
-            <h3>Распределение сжигания токенов</h3>
+            <h3>{t('buyer.charts.burnDistribution')}</h3>
             <ResponsiveContainer width="100%" height={350}>
               <PieChart>
                 <Pie
@@ -769,13 +970,13 @@ export default function BuyerCalculator() {
                   cx="50%"
                   cy="50%"
                   labelLine={false}
-                  label={({ name, percent }) => `${name}: ${((percent ?? 0) * 100).toFixed(0)}%`}
+                  label={({ name, percent }) => `${name}: ${formatPercent(percent ?? 0, 0)}`}
                   outerRadius={80}
                   fill="#8884d8"
                   dataKey="value"
                 >
-                  {burnPieData.map((_, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                  {burnPieData.map((entry) => (
+                    <Cell key={entry.destination} fill={BURN_COLORS[entry.destination]} />
                   ))}
                 </Pie>
                 <Tooltip />
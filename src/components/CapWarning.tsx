@@ -0,0 +1,40 @@
+import { useLocale } from '../i18n/locale';
+import './CapWarning.css';
+
+interface CapWarningProps {
+  mintCutOff: number; // Tokens not minted because of user_cap
+  burnRejected: number; // Discount burns rejected because of burn_cap
+  purchasesCutOff?: number;
+  purchasesBurnRejected?: number;
+}
+
+// Warning shown when a scenario runs into the hard user_cap / burn_cap limits
+export default function CapWarning({
+  mintCutOff,
+  burnRejected,
+  purchasesCutOff,
+  purchasesBurnRejected,
+}: CapWarningProps) {
+  const { t, formatNumber } = useLocale();
+
+  if (mintCutOff <= 0 && burnRejected <= 0) {
+    return null;
+  }
+
+  return (
+    <div className="cap-warning" role="alert">
+      {mintCutOff > 0 && (
+        <p>
+          <strong>{t('cap.userReached')}</strong> {t('cap.mintCutOff', { tokens: formatNumber(mintCutOff) })}
+          {purchasesCutOff !== undefined && ` ${t('cap.purchasesCutOff', { count: purchasesCutOff })}`}.
+        </p>
+      )}
+      {burnRejected > 0 && (
+        <p>
+          <strong>{t('cap.burnReached')}</strong> {t('cap.burnRejected', { tokens: formatNumber(burnRejected) })}
+          {purchasesBurnRejected !== undefined && ` ${t('cap.purchasesBurnRejected', { count: purchasesBurnRejected })}`}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { useLocale } from '../i18n/locale';
+import type { ComputeState } from './useComputeJob';
+
+interface ComputeStatusProps {
+  state: ComputeState<unknown>;
+}
+
+// Progress of a background computation, or its error
+export default function ComputeStatus({ state }: ComputeStatusProps) {
+  const { t, formatPercent } = useLocale();
+
+  if (state.error) {
+    return <p className="error-message">{t('compute.error', { error: state.error })}</p>;
+  }
+  if (!state.running) {
+    return null;
+  }
+  return (
+    <div className="compute-status">
+      <progress value={state.progress} max={1} />
+      <span>{t(state.result ? 'compute.rerunning' : 'compute.running', { progress: formatPercent(state.progress, 0) })}</span>
+    </div>
+  );
+}
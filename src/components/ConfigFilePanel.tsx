@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { useLocale } from '../i18n/locale';
+import {
+  parseConfigFile,
+  serializeConfigFile,
+  type ConfigError,
+  type ConfigFile,
+  type ConfigFormat,
+} from '../tokenomics/configFile';
+import { downloadFile } from './download';
+import './SystemParamsPanel.css';
+import './ConfigFilePanel.css';
+
+interface ConfigFilePanelProps {
+  config: Omit<ConfigFile, 'version'>; // Current state offered for export
+  fileName: string; // Export file name without extension
+  onImport: (config: ConfigFile) => void;
+}
+
+const FORMAT_TYPES: Record<ConfigFormat, string> = {
+  json: 'application/json',
+  yaml: 'application/yaml',
+};
+
+export default function ConfigFilePanel({ config, fileName, onImport }: ConfigFilePanelProps) {
+  const { locale, t } = useLocale();
+  const [enabled, setEnabled] = useState(false);
+  const [dragOver, setDragOver] = useState(false);
+  const [errors, setErrors] = useState<ConfigError[]>([]);
+  const [imported, setImported] = useState<string | null>(null);
+
+  // Never rejects: a file that cannot be read is reported in the errors list
+  const handleFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      setErrors([{ path: '', message: t('config.error.read', { file: file.name, message: (error as Error).message }) }]);
+      setImported(null);
+      return;
+    }
+    const result = parseConfigFile(text, file.name, locale);
+    setErrors(result.errors);
+    setImported(result.config ? file.name : null);
+    if (result.config) {
+      onImport(result.config);
+    }
+  };
+
+  const handleExport = (format: ConfigFormat) => {
+    downloadFile(serializeConfigFile(config, format), `${fileName}.${format}`, FORMAT_TYPES[format]);
+  };
+
+  return (
+    <div className="params-panel">
+      <label className="panel-toggle">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        {t('config.toggle')}
+      </label>
+
+      {enabled && (
+        <div className="params-panel-body">
+          <div className="params-presets">
+            <button type="button" onClick={() => handleExport('json')}>
+              {t('config.exportJson')}
+            </button>
+            <button type="button" onClick={() => handleExport('yaml')}>
+              {t('config.exportYaml')}
+            </button>
+          </div>
+
+          <label
+            className={`config-dropzone${dragOver ? ' config-dropzone-active' : ''}`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOver(true);
+            }}
+            onDragLeave={() => setDragOver(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDragOver(false);
+              const file = e.dataTransfer.files[0];
+              if (file) {
+                handleFile(file);
+              }
+            }}
+          >
+            {t('config.dropzone')}
+            <input
+              type="file"
+              accept=".json,.yaml,.yml,application/json,application/yaml"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  handleFile(file);
+                }
+                e.target.value = '';
+              }}
+            />
+          </label>
+
+          {imported && <p className="config-success">{t('config.imported', { file: imported })}</p>}
+          {errors.length > 0 && (
+            <ul className="config-errors">
+              {errors.map((error) => (
+                <li className="error-message" key={`${error.path}: ${error.message}`}>
+                  {error.path && <code>{error.path}</code>} {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
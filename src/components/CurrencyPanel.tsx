@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useLocale } from '../i18n/locale';
+import {
+  CURRENCIES,
+  DEFAULT_EXCHANGE_RATES,
+  parseRatesFile,
+  validateExchangeRate,
+  type Currency,
+  type CurrencySettings,
+} from '../tokenomics/currency';
+import './SystemParamsPanel.css';
+import './ConfigFilePanel.css';
+
+interface CurrencyPanelProps {
+  settings: CurrencySettings;
+  onChange: (settings: CurrencySettings) => void;
+}
+
+export default function CurrencyPanel({ settings, onChange }: CurrencyPanelProps) {
+  const { locale, t } = useLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const [errors, setErrors] = useState<Partial<Record<Currency, string>>>({});
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [loadedFrom, setLoadedFrom] = useState<string | null>(null);
+
+  // Handle rate change with validation
+  const handleRateChange = (currency: Currency, value: string) => {
+    if (value === '') {
+      setErrors((prev) => ({ ...prev, [currency]: undefined }));
+      return;
+    }
+
+    const numValue = parseFloat(value);
+    const error = validateExchangeRate(currency, numValue, locale);
+
+    setErrors((prev) => ({ ...prev, [currency]: error || undefined }));
+
+    if (!error) {
+      onChange({ ...settings, rates: { ...settings.rates, [currency]: numValue } });
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      setFileErrors([t('currency.error.read', { file: file.name, message: (error as Error).message })]);
+      setLoadedFrom(null);
+      return;
+    }
+    const result = parseRatesFile(text, settings.rates, locale);
+    setFileErrors(result.errors);
+    setLoadedFrom(result.rates ? file.name : null);
+    if (result.rates) {
+      setErrors({});
+      onChange({ ...settings, rates: result.rates });
+    }
+  };
+
+  const handleReset = () => {
+    setErrors({});
+    setFileErrors([]);
+    setLoadedFrom(null);
+    onChange({ ...settings, rates: DEFAULT_EXCHANGE_RATES });
+  };
+
+  return (
+    <div className="params-panel">
+      <button
+        type="button"
+        className="params-panel-toggle"
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? '▾' : '▸'} {t('currency.toggle', { currency: settings.display })}
+      </button>
+
+      {isOpen && (
+        <div className="params-panel-body">
+          <div className="params-presets">
+            <label>
+              {t('currency.display')}{' '}
+              <select
+                value={settings.display}
+                onChange={(e) => onChange({ ...settings, display: e.target.value as Currency })}
+              >
+                {CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('currency.input')}{' '}
+              <select
+                value={settings.input}
+                onChange={(e) => onChange({ ...settings, input: e.target.value as Currency })}
+              >
+                {CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button type="button" onClick={handleReset}>
+              {t('currency.reset')}
+            </button>
+          </div>
+
+          <div className="params-grid">
+            {CURRENCIES.filter((currency) => currency !== 'RUB').map((currency) => (
+              <div className="input-group" key={currency}>
+                <label htmlFor={`rate-${currency}`}>{t('currency.rate', { currency })}</label>
+                <input
+                  id={`rate-${currency}`}
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={settings.rates[currency]}
+                  onChange={(e) => handleRateChange(currency, e.target.value)}
+                  className={errors[currency] ? 'input-error' : ''}
+                />
+                {errors[currency] && <span className="error-message">{errors[currency]}</span>}
+              </div>
+            ))}
+          </div>
+
+          <label className="config-dropzone">
+            {t('currency.file', { example: '{ "USD": 90.5, "EUR": 98 }' })}
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  handleFile(file);
+                }
+                e.target.value = '';
+              }}
+            />
+          </label>
+
+          {loadedFrom && <p className="config-success">{t('currency.loaded', { file: loadedFrom })}</p>}
+          {fileErrors.length > 0 && (
+            <ul className="config-errors">
+              {fileErrors.map((error) => (
+                <li className="error-message" key={error}>
+                  {error}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <p className="input-hint">{t('currency.hint')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
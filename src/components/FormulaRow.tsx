@@ -0,0 +1,57 @@
+import { useState, type ReactNode } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import type { FormulaExplanation } from '../tokenomics/formulas';
+import { useLocale } from '../i18n/locale';
+import './FormulaRow.css';
+
+interface FormulaRowProps {
+  label: ReactNode;
+  value: ReactNode;
+  explanation: FormulaExplanation;
+}
+
+// Breakdown row that expands into its formula with the current values substituted
+export default function FormulaRow({ label, value, explanation }: FormulaRowProps) {
+  const { t } = useLocale();
+  // Parameter links keep the calculator state, so the glossary shows formulas for its curve
+  const { search } = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <>
+      <div className="breakdown-row">
+        <button
+          type="button"
+          className="breakdown-label formula-toggle"
+          onClick={() => setIsOpen((prev) => !prev)}
+          aria-expanded={isOpen}
+          title={t('formula.toggle')}
+        >
+          {isOpen ? '▾' : '▸'} {label}
+        </button>
+        <span className="breakdown-value">{value}</span>
+      </div>
+      {isOpen && (
+        <div className="formula-detail">
+          <p className="formula-description">{explanation.description}</p>
+          <code className="formula-expression">{explanation.formula}</code>
+          {explanation.steps.map((step, index) => (
+            <code className="formula-step" key={index}>
+              {step}
+            </code>
+          ))}
+          {explanation.params.length > 0 && (
+            <div className="formula-params">
+              {t('formula.params')}{' '}
+              {explanation.params.map((param) => (
+                <Link key={param} to={{ pathname: '/parameters', search, hash: `doc-${param}` }}>
+                  <code>{param}</code>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState, useMemo } from 'react';
+import { useLocale } from '../i18n/locale';
+import { useDisplayCurrency } from './useCurrency';
+import type { SystemParams } from '../tokenomics/params';
+import type { UserInputs } from '../tokenomics/inputs';
+import type { MarketFactory, PricingMode } from '../tokenomics/engine';
+import { convertToRub, type CurrencySettings } from '../tokenomics/currency';
+import { SENSITIVITY_KEYS, getVariable, sensitivityLabel, setVariable, type SensitivityKey } from '../tokenomics/sensitivity';
+import {
+  GOAL_METRICS,
+  defaultGoalBounds,
+  runGoalSeek,
+  type GoalMetric,
+  type GoalSeekMethod,
+} from '../tokenomics/goalSeek';
+import './SystemParamsPanel.css';
+import './GoalSeekPanel.css';
+
+interface GoalSeekPanelProps {
+  inputs: UserInputs;
+  params: SystemParams;
+  createMarket: MarketFactory;
+  pricing: PricingMode;
+  currency: CurrencySettings;
+  onApply: (inputs: UserInputs, params: SystemParams) => void;
+}
+
+// Ruble metrics: the target is entered and the result shown in the display currency
+const MONEY_METRICS: GoalMetric[] = ['netValueRub', 'tokenPrice'];
+
+export default function GoalSeekPanel({
+  inputs,
+  params,
+  createMarket,
+  pricing,
+  currency,
+  onApply,
+}: GoalSeekPanelProps) {
+  const { locale, t, formatNumber, formatSignificant } = useLocale();
+  const { toDisplay, symbol } = useDisplayCurrency(currency);
+  const [enabled, setEnabled] = useState(false);
+  const [metric, setMetric] = useState<GoalMetric>('netTokens');
+  const [target, setTarget] = useState(500);
+  const [variable, setVariableKey] = useState<SensitivityKey>('numberOfPurchases');
+  const [method, setMethod] = useState<GoalSeekMethod>('bisection');
+  const [bounds, setBounds] = useState<[number, number]>(() =>
+    defaultGoalBounds('numberOfPurchases', getVariable(inputs, params, 'numberOfPurchases'))
+  );
+  const [boundsError, setBoundsError] = useState<string | null>(null);
+
+  const handleVariableChange = (key: SensitivityKey) => {
+    setVariableKey(key);
+    setBounds(defaultGoalBounds(key, getVariable(inputs, params, key)));
+    setBoundsError(null);
+  };
+
+  // Apply a bound if the range stays non-empty
+  const handleBoundChange = (index: 0 | 1, value: string) => {
+    const numValue = parseFloat(value);
+    if (isNaN(numValue)) {
+      return;
+    }
+    const next: [number, number] = index === 0 ? [numValue, bounds[1]] : [bounds[0], numValue];
+    if (next[0] >= next[1]) {
+      setBoundsError(t('goal.boundsError'));
+      return;
+    }
+    setBoundsError(null);
+    setBounds(next);
+  };
+
+  const isMoney = MONEY_METRICS.includes(metric);
+  const targetRub = isMoney ? convertToRub(target, currency.display, currency.rates) : target;
+
+  const result = useMemo(
+    () =>
+      enabled
+        ? runGoalSeek(
+            inputs,
+            params,
+            { metric, target: targetRub, variable, min: bounds[0], max: bounds[1], method },
+            createMarket,
+            pricing
+          )
+        : null,
+    [enabled, inputs, params, metric, targetRub, variable, bounds, method, createMarket, pricing]
+  );
+
+  const formatValue = (value: number): string =>
+    Math.abs(value) >= 100 ? formatNumber(value) : formatSignificant(value);
+  const formatAchieved = (value: number): string => formatValue(isMoney ? toDisplay(value) : value);
+  const metricLabel = (m: GoalMetric) => t(`goal.metric.${m}`, { currency: symbol });
+
+  return (
+    <div className="params-panel">
+      <label className="panel-toggle">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        {t('goal.toggle')}
+      </label>
+
+      {enabled && result && (
+        <div className="params-panel-body">
+          <div className="params-grid">
+            <div className="input-group">
+              <label htmlFor="goal-metric">{t('goal.metric')}</label>
+              <select id="goal-metric" value={metric} onChange={(e) => setMetric(e.target.value as GoalMetric)}>
+                {GOAL_METRICS.map((m) => (
+                  <option key={m} value={m}>
+                    {metricLabel(m)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="input-group">
+              <label htmlFor="goal-target">{t('goal.target')}</label>
+              <input
+                id="goal-target"
+                type="number"
+                value={target}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value)) {
+                    setTarget(value);
+                  }
+                }}
+              />
+              {metric === 'capUsage' && <span className="input-hint">{t('goal.capUsageHint')}</span>}
+            </div>
+            <div className="input-group">
+              <label htmlFor="goal-variable">{t('goal.variable')}</label>
+              <select
+                id="goal-variable"
+                value={variable}
+                onChange={(e) => handleVariableChange(e.target.value as SensitivityKey)}
+              >
+                {SENSITIVITY_KEYS.map((key) => (
+                  <option key={key} value={key}>
+                    {sensitivityLabel(key, locale)}
+                  </option>
+                ))}
+              </select>
+              <span className="input-hint">
+                {t('goal.current', { value: formatValue(getVariable(inputs, params, variable)) })}
+              </span>
+            </div>
+            <div className="input-group">
+              <label htmlFor="goal-min">{t('goal.min')}</label>
+              <input
+                id="goal-min"
+                type="number"
+                value={bounds[0]}
+                onChange={(e) => handleBoundChange(0, e.target.value)}
+                className={boundsError ? 'input-error' : ''}
+              />
+            </div>
+            <div className="input-group">
+              <label htmlFor="goal-max">{t('goal.max')}</label>
+              <input
+                id="goal-max"
+                type="number"
+                value={bounds[1]}
+                onChange={(e) => handleBoundChange(1, e.target.value)}
+                className={boundsError ? 'input-error' : ''}
+              />
+              {boundsError && <span className="error-message">{boundsError}</span>}
+            </div>
+            <div className="input-group">
+              <label htmlFor="goal-method">{t('goal.method')}</label>
+              <select id="goal-method" value={method} onChange={(e) => setMethod(e.target.value as GoalSeekMethod)}>
+                <option value="bisection">{t('goal.method.bisection')}</option>
+                <option value="newton">{t('goal.method.newton')}</option>
+              </select>
+              <span className="input-hint">{t('goal.methodHint')}</span>
+            </div>
+          </div>
+
+          <div className={`goal-seek-status${result.status === 'solved' ? '' : ' failed'}`}>
+            {result.status === 'solved' ? (
+              <>
+                {sensitivityLabel(variable, locale)} = <strong>{formatValue(result.value)}</strong>{' '}
+                {t('goal.solved', {
+                  metric: metricLabel(metric),
+                  achieved: formatAchieved(result.achieved),
+                  iterations: result.iterations,
+                })}
+              </>
+            ) : (
+              <>
+                {t(`goal.status.${result.status}`)}{' '}
+                {t('goal.closest', {
+                  variable: sensitivityLabel(variable, locale),
+                  value: formatValue(result.value),
+                  metric: metricLabel(metric),
+                  achieved: formatAchieved(result.achieved),
+                })}
+              </>
+            )}
+          </div>
+
+          {result.status === 'solved' && (
+            <div className="params-presets">
+              <button
+                type="button"
+                onClick={() => {
+                  const state = setVariable(inputs, params, variable, result.value);
+                  onApply(state.inputs, state.params);
+                }}
+              >
+                {t('goal.apply')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { LocaleContext } from '../i18n/locale';
+import { loadLocale, saveLocale } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+
+interface LocaleProviderProps {
+  children: ReactNode;
+}
+
+export default function LocaleProvider({ children }: LocaleProviderProps) {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+
+  // Remember the choice and keep the document language in sync
+  useEffect(() => {
+    saveLocale(locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return <LocaleContext.Provider value={{ locale, setLocale }}>{children}</LocaleContext.Provider>;
+}
@@ -0,0 +1,232 @@
+import { useState, useMemo } from 'react';
+import {
+  ComposedChart,
+  BarChart,
+  Bar,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import type { SystemParams } from '../tokenomics/params';
+import type { UserInputs } from '../tokenomics/inputs';
+import type { PricingMode } from '../tokenomics/engine';
+import type { CurrencySettings } from '../tokenomics/currency';
+import type { MarketSpec } from '../tokenomics/population';
+import type { DistributionType } from '../tokenomics/distributions';
+import {
+  MONTE_CARLO_METRICS,
+  buildHistogram,
+  validateMonteCarloSetting,
+  type MonteCarloSettings,
+} from '../tokenomics/monteCarlo';
+import ComputeStatus from './ComputeStatus';
+import { useLocale } from '../i18n/locale';
+import { useDisplayCurrency } from './useCurrency';
+import { useComputeJob } from './useComputeJob';
+import './SystemParamsPanel.css';
+import './MonteCarloPanel.css';
+
+interface MonteCarloPanelProps {
+  inputs: UserInputs;
+  params: SystemParams;
+  market: MarketSpec;
+  pricing: PricingMode;
+  currency: CurrencySettings;
+  settings: MonteCarloSettings;
+  onSettingsChange: (settings: MonteCarloSettings) => void;
+}
+
+// Periods shown on the band chart (same range as the period slider)
+const BAND_PERIODS = Array.from({ length: 21 }, (_, i) => i);
+
+type NumericSetting = Exclude<keyof MonteCarloSettings, 'priceDistribution'>;
+
+// Labels come from the catalog under monteCarlo.<key>
+const SETTING_FIELDS: { key: NumericSetting; step: number }[] = [
+  { key: 'trials', step: 500 },
+  { key: 'seed', step: 1 },
+  { key: 'priceSpread', step: 0.05 },
+  { key: 'reviewQualityStdDev', step: 0.01 },
+];
+
+const DISTRIBUTION_TYPES: DistributionType[] = ['fixed', 'uniform', 'normal'];
+
+export default function MonteCarloPanel({
+  inputs,
+  params,
+  market,
+  pricing,
+  currency,
+  settings,
+  onSettingsChange,
+}: MonteCarloPanelProps) {
+  const { locale, t, formatNumber } = useLocale();
+  const { toDisplay, symbol } = useDisplayCurrency(currency);
+  const [enabled, setEnabled] = useState(false);
+  const [errors, setErrors] = useState<Partial<Record<NumericSetting, string>>>({});
+
+  // Handle setting change with validation
+  const handleSettingChange = (field: NumericSetting, value: string) => {
+    if (value === '') {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+      return;
+    }
+
+    const numValue = parseFloat(value);
+    const error = validateMonteCarloSetting(field, numValue, locale);
+
+    setErrors((prev) => ({ ...prev, [field]: error || undefined }));
+
+    if (!error) {
+      onSettingsChange({ ...settings, [field]: numValue });
+    }
+  };
+
+  // Trials run in a worker; the last result stays on screen while a new run is in progress
+  const computation = useComputeJob<'monteCarlo'>(
+    enabled ? { type: 'monteCarlo', inputs, params, settings, periods: BAND_PERIODS, market, pricing } : null
+  );
+  const result = computation.result?.result ?? null;
+
+  // Net token bands across periods; range [p5, p95] is drawn as a shaded area
+  const bandData = useMemo(
+    () =>
+      (computation.result?.bands ?? []).map((band) => ({
+        ...band,
+        range: [band.p5, band.p95],
+      })),
+    [computation.result]
+  );
+
+  const histogramData = useMemo(
+    () =>
+      result
+        ? buildHistogram(result.trials.map((trial) => trial.netTokens)).map((bin) => ({
+            mid: (bin.from + bin.to) / 2,
+            count: bin.count,
+          }))
+        : [],
+    [result]
+  );
+
+  return (
+    <div className="params-panel">
+      <label className="panel-toggle">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        {t('monteCarlo.toggle')}
+      </label>
+
+      {enabled && (
+        <div className="params-panel-body">
+          <div className="params-grid">
+            {SETTING_FIELDS.map((field) => (
+              <div className="input-group" key={field.key}>
+                <label htmlFor={`mc-${field.key}`}>{t(`monteCarlo.${field.key}`)}</label>
+                <input
+                  id={`mc-${field.key}`}
+                  type="number"
+                  step={field.step}
+                  value={settings[field.key]}
+                  onChange={(e) => handleSettingChange(field.key, e.target.value)}
+                  className={errors[field.key] ? 'input-error' : ''}
+                />
+                {errors[field.key] && <span className="error-message">{errors[field.key]}</span>}
+              </div>
+            ))}
+            <div className="input-group">
+              <label htmlFor="mc-priceDistribution">{t('monteCarlo.priceDistribution')}</label>
+              <select
+                id="mc-priceDistribution"
+                value={settings.priceDistribution}
+                onChange={(e) =>
+                  onSettingsChange({ ...settings, priceDistribution: e.target.value as DistributionType })
+                }
+              >
+                {DISTRIBUTION_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {t(`distribution.${type}`)}
+                  </option>
+                ))}
+              </select>
+              <span className="input-hint">{t('monteCarlo.returnsHint')}</span>
+            </div>
+          </div>
+
+          <ComputeStatus state={computation} />
+
+          {result && (
+            <>
+            <table className="monte-carlo-table">
+              <thead>
+                <tr>
+                  <th>{t('monteCarlo.metric')}</th>
+                  <th>P5</th>
+                  <th>P50</th>
+                  <th>P95</th>
+                </tr>
+              </thead>
+              <tbody>
+                {MONTE_CARLO_METRICS.map((metric) => {
+                  // netValueRub is the only ruble metric
+                  const format = (value: number) => formatNumber(metric === 'netValueRub' ? toDisplay(value) : value);
+                  return (
+                    <tr key={metric}>
+                      <td>{t(`monteCarlo.metric.${metric}`, { currency: symbol })}</td>
+                      <td>{format(result.bands[metric].p5)}</td>
+                      <td>{format(result.bands[metric].p50)}</td>
+                      <td>{format(result.bands[metric].p95)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="chart-container">
+              <h3>{t('monteCarlo.bands')}</h3>
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={bandData} margin={{ top: 10, right: 30, left: 40, bottom: 30 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="period" label={{ value: t('monteCarlo.period'), position: 'insideBottom', offset: -5 }} />
+                  <YAxis />
+                  <Tooltip formatter={(value) => (Array.isArray(value) ? value.map((v) => formatNumber(Number(v))).join(' – ') : formatNumber(Number(value)))} />
+                  <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                  <Area type="monotone" dataKey="range" stroke="none" fill="#8884d8" fillOpacity={0.3} name="P5–P95" />
+                  <Line type="monotone" dataKey="p50" stroke="#8884d8" name="P50" strokeWidth={2} dot={false} />
+                  <ReferenceLine x={Math.floor(inputs.period)} stroke="#ff7300" strokeDasharray="4 4" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="chart-container">
+              <h3>{t('monteCarlo.histogram', { period: Math.floor(inputs.period) })}</h3>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={histogramData} margin={{ top: 10, right: 30, left: 40, bottom: 30 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="mid"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(value) => formatNumber(Number(value), 1)}
+                  />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip labelFormatter={(value) => formatNumber(Number(value))} />
+                  <Bar dataKey="count" fill="#82ca9d" name={t('monteCarlo.trialCount')} />
+                  <ReferenceLine x={result.bands.netTokens.p5} stroke="#ff4444" strokeDasharray="4 4" label="P5" />
+                  <ReferenceLine x={result.bands.netTokens.p50} stroke="#213547" label="P50" />
+                  <ReferenceLine x={result.bands.netTokens.p95} stroke="#ff4444" strokeDasharray="4 4" label="P95" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useEffect } from 'react';
+import { useLocation, useSearchParams } from 'react-router-dom';
+import { useLocale } from '../i18n/locale';
+import {
+  DEFAULT_SYSTEM_PARAMS,
+  SYSTEM_PARAM_FIELDS,
+  parameterFormula,
+  type SystemParamField,
+} from '../tokenomics/params';
+import { decodeCalculatorState } from '../tokenomics/urlState';
+import './BuyerCalculator.css';
+import './ParameterDocs.css';
+
+// Human-readable range for a parameter field
+const formatRange = (field: SystemParamField): string => {
+  const lower = `${field.minExclusive ? '>' : '≥'} ${field.min}`;
+  return field.max !== undefined ? `${field.min} – ${field.max}` : lower;
+};
+
+export default function ParameterDocs() {
+  const { hash } = useLocation();
+  const { t } = useLocale();
+  // Formulas follow the curve of the calculator that linked here, if any
+  const [searchParams] = useSearchParams();
+  const { curve } = decodeCalculatorState(searchParams).systemParams;
+
+  // Scroll to the parameter linked from a formula, e.g. /parameters#doc-beta
+  useEffect(() => {
+    if (hash) {
+      document.getElementById(hash.slice(1))?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [hash]);
+
+  return (
+    <div className="buyer-calculator">
+      <div className="calculator-header">
+        <h1>{t('docs.title')}</h1>
+        <p className="description">{t('docs.description')}</p>
+      </div>
+
+      <div className="details-section">
+        <div className="param-docs">
+          {SYSTEM_PARAM_FIELDS.map((field) => (
+            <div className="param-doc" id={`doc-${field.key}`} key={field.key}>
+              <h3>
+                <code>{field.key}</code> — {t(`param.${field.key}.label`)}
+              </h3>
+              <p>{t(`param.${field.key}.description`)}</p>
+              <div className="breakdown-table">
+                <div className="breakdown-row">
+                  <span className="breakdown-label">{t('docs.default')}</span>
+                  <span className="breakdown-value">{DEFAULT_SYSTEM_PARAMS[field.key]}</span>
+                </div>
+                <div className="breakdown-row">
+                  <span className="breakdown-label">{t('docs.range')}</span>
+                  <span className="breakdown-value">{formatRange(field)}</span>
+                </div>
+                <div className="breakdown-row">
+                  <span className="breakdown-label">{t('docs.formula')}</span>
+                  <span className="breakdown-value">
+                    {parameterFormula(field, curve) === null ? (
+                      t('docs.notUsed', { curve: t(`curve.${curve.type}`) })
+                    ) : (
+                      <code>{parameterFormula(field, curve)}</code>
+                    )}
+                  </span>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import {
+  createDistribution,
+  distributionMean,
+  type Distribution,
+  type DistributionType,
+} from '../tokenomics/distributions';
+import { useLocale } from '../i18n/locale';
+import { convertFromRub, convertToRub, type CurrencySettings } from '../tokenomics/currency';
+import {
+  createDefaultPopulation,
+  validateSegment,
+  type MarketMode,
+  type UserSegment,
+} from '../tokenomics/population';
+import './SystemParamsPanel.css';
+import './PopulationPanel.css';
+
+interface PopulationPanelProps {
+  mode: MarketMode;
+  onModeChange: (mode: MarketMode) => void;
+  population: UserSegment[];
+  onChange: (population: UserSegment[]) => void;
+  currency: CurrencySettings;
+}
+
+type NumericSegmentField = 'count' | 'purchasesPerPeriod' | 'reviewQuality' | 'returnProbability';
+
+const DISTRIBUTION_TYPES: DistributionType[] = ['fixed', 'uniform', 'normal'];
+
+export default function PopulationPanel({
+  mode,
+  onModeChange,
+  population,
+  onChange,
+  currency,
+}: PopulationPanelProps) {
+  const { locale, t, currencySymbol } = useLocale();
+
+  // Validation errors state, keyed by segment id and field
+  const [errors, setErrors] = useState<Record<string, string | undefined>>({});
+
+  // Replace a segment if it is valid for the edited field
+  const updateSegment = (index: number, next: UserSegment, field: keyof UserSegment) => {
+    const error = validateSegment(next, locale)[field];
+    setErrors((prev) => ({ ...prev, [`${next.id}.${field}`]: error }));
+    if (!error) {
+      onChange(population.map((segment, i) => (i === index ? next : segment)));
+    }
+  };
+
+  const handleNumberChange = (index: number, field: NumericSegmentField, value: string) => {
+    if (value === '') {
+      return;
+    }
+    updateSegment(index, { ...population[index], [field]: parseFloat(value) }, field);
+  };
+
+  const handleDistributionChange = (
+    index: number,
+    key: string,
+    value: string
+  ) => {
+    if (value === '') {
+      return;
+    }
+    // Prices are entered in the input currency and kept in rubles
+    const rub = convertToRub(parseFloat(value), currency.input, currency.rates);
+    const purchasePrice = { ...population[index].purchasePrice, [key]: rub } as Distribution;
+    updateSegment(index, { ...population[index], purchasePrice }, 'purchasePrice');
+  };
+
+  const handleDistributionTypeChange = (index: number, type: DistributionType) => {
+    const mean = distributionMean(population[index].purchasePrice);
+    updateSegment(index, { ...population[index], purchasePrice: createDistribution(type, mean) }, 'purchasePrice');
+  };
+
+  const handleAddSegment = () => {
+    onChange([
+      ...population,
+      {
+        id: `segment-${Date.now()}`,
+        name: t('population.newSegment', { index: population.length + 1 }),
+        count: 10,
+        purchasePrice: { type: 'fixed', value: 5000 },
+        purchasesPerPeriod: 1,
+        reviewQuality: 0.5,
+        returnProbability: 0.1,
+      },
+    ]);
+  };
+
+  const handleRemoveSegment = (index: number) => {
+    onChange(population.filter((_, i) => i !== index));
+  };
+
+  const renderDistributionInputs = (segment: UserSegment, index: number) => {
+    const dist = segment.purchasePrice;
+    const fields: [string, number][] =
+      dist.type === 'fixed'
+        ? [['value', dist.value]]
+        : dist.type === 'uniform'
+          ? [['min', dist.min], ['max', dist.max]]
+          : [['mean', dist.mean], ['stdDev', dist.stdDev]];
+    return fields.map(([key, value]) => (
+      <input
+        key={key}
+        type="number"
+        min="0"
+        step="100"
+        title={key}
+        aria-label={`${segment.name}: ${key}`}
+        value={Number(convertFromRub(value, currency.input, currency.rates).toFixed(2))}
+        onChange={(e) => handleDistributionChange(index, key, e.target.value)}
+      />
+    ));
+  };
+
+  const totalUsers = population.reduce((sum, s) => sum + s.count, 0);
+
+  return (
+    <div className="params-panel">
+      <h2 className="population-title">{t('population.title')}</h2>
+      <div className="population-modes">
+        <label>
+          <input
+            type="radio"
+            name="market-mode"
+            checked={mode === 'clones'}
+            onChange={() => onModeChange('clones')}
+          />
+          {t('population.clones')}
+        </label>
+        <label>
+          <input
+            type="radio"
+            name="market-mode"
+            checked={mode === 'population'}
+            onChange={() => onModeChange('population')}
+          />
+          {t('population.segments', { count: totalUsers })}
+        </label>
+      </div>
+
+      {mode === 'population' && (
+        <>
+          <p className="input-hint">{t('population.hint')}</p>
+          <div className="population-table-wrapper">
+            <table className="population-table">
+              <thead>
+                <tr>
+                  <th>{t('population.segment')}</th>
+                  <th>{t('population.count')}</th>
+                  <th>{t('population.purchasePrice', { currency: currencySymbol(currency.input) })}</th>
+                  <th>{t('population.purchasesPerPeriod')}</th>
+                  <th>{t('population.reviewQuality')}</th>
+                  <th>{t('population.returnProbability')}</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {population.map((segment, index) => (
+                  <tr key={segment.id}>
+                    <td>
+                      <input
+                        type="text"
+                        aria-label={t('population.name')}
+                        value={segment.name}
+                        onChange={(e) =>
+                          onChange(population.map((s, i) => (i === index ? { ...s, name: e.target.value } : s)))
+                        }
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min="0"
+                        aria-label={t('population.countLabel', { segment: segment.name })}
+                        value={segment.count}
+                        onChange={(e) => handleNumberChange(index, 'count', e.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <div className="population-distribution">
+                        <select
+                          aria-label={t('population.distributionLabel', { segment: segment.name })}
+                          value={segment.purchasePrice.type}
+                          onChange={(e) => handleDistributionTypeChange(index, e.target.value as DistributionType)}
+                        >
+                          {DISTRIBUTION_TYPES.map((type) => (
+                            <option key={type} value={type}>
+                              {t(`distribution.${type}`)}
+                            </option>
+                          ))}
+                        </select>
+                        {renderDistributionInputs(segment, index)}
+                      </div>
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min="1"
+                        aria-label={t('population.purchasesPerPeriodLabel', { segment: segment.name })}
+                        value={segment.purchasesPerPeriod}
+                        onChange={(e) => handleNumberChange(index, 'purchasesPerPeriod', e.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        aria-label={t('population.reviewQualityLabel', { segment: segment.name })}
+                        value={segment.reviewQuality}
+                        onChange={(e) => handleNumberChange(index, 'reviewQuality', e.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        aria-label={t('population.returnProbabilityLabel', { segment: segment.name })}
+                        value={segment.returnProbability}
+                        onChange={(e) => handleNumberChange(index, 'returnProbability', e.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <button type="button" onClick={() => handleRemoveSegment(index)}>
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {Object.values(errors).filter(Boolean).map((error) => (
+            <span className="error-message" key={error}>{error}</span>
+          ))}
+          <div className="params-presets">
+            <button type="button" onClick={handleAddSegment}>
+              {t('population.add')}
+            </button>
+            <button type="button" onClick={() => { setErrors({}); onChange(createDefaultPopulation(locale)); }}>
+              {t('population.reset')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState, useMemo } from 'react';
+import type { SystemParams } from '../tokenomics/params';
+import type { UserInputs } from '../tokenomics/inputs';
+import type { CalculationResults, PricingMode } from '../tokenomics/engine';
+import type { CurrencySettings } from '../tokenomics/currency';
+import { buildPurchaseLedger, ledgerToCsv, ledgerToJson } from '../tokenomics/ledger';
+import { downloadFile } from './download';
+import { useLocale } from '../i18n/locale';
+import { useDisplayCurrency } from './useCurrency';
+import './SystemParamsPanel.css';
+import './PurchaseLedgerPanel.css';
+
+interface PurchaseLedgerPanelProps {
+  inputs: UserInputs;
+  params: SystemParams;
+  results: CalculationResults;
+  pricing: PricingMode;
+  currency: CurrencySettings;
+}
+
+export default function PurchaseLedgerPanel({ inputs, params, results, pricing, currency }: PurchaseLedgerPanelProps) {
+  const { t, formatNumber, formatPercent } = useLocale();
+  const { toDisplay, symbol } = useDisplayCurrency(currency);
+  const [enabled, setEnabled] = useState(false);
+
+  const ledger = useMemo(
+    () => (enabled ? buildPurchaseLedger(inputs, params, results, pricing) : null),
+    [enabled, inputs, params, results, pricing]
+  );
+
+  return (
+    <div className="params-panel">
+      <label className="panel-toggle">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        {t('ledger.toggle')}
+      </label>
+
+      {enabled && ledger && (
+        <div className="params-panel-body">
+          <div className="params-presets">
+            <button type="button" onClick={() => downloadFile(ledgerToCsv(ledger), 'ledger.csv', 'text/csv')}>
+              {t('ledger.exportCsv')}
+            </button>
+            <button type="button" onClick={() => downloadFile(ledgerToJson(ledger), 'ledger.json', 'application/json')}>
+              {t('ledger.exportJson')}
+            </button>
+          </div>
+
+          <div className="ledger-wrapper">
+            <table className="ledger-table">
+              <thead>
+                <tr>
+                  <th>{t('ledger.index')}</th>
+                  <th>CB%</th>
+                  <th>QF</th>
+                  <th>DF</th>
+                  <th>{t('ledger.priceBefore', { currency: symbol })}</th>
+                  <th>{t('ledger.priceAfter', { currency: symbol })}</th>
+                  <th>{t('ledger.minted')}</th>
+                  {params.hard_caps && <th>{t('ledger.cutOff')}</th>}
+                  <th>{t('ledger.burned')}</th>
+                  {params.hard_caps && <th>{t('ledger.burnRejected')}</th>}
+                  <th>{t('ledger.balance')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ledger.rows.map((row) => (
+                  <tr key={row.index}>
+                    <td>{row.index}</td>
+                    <td>{formatPercent(row.CB_percent)}</td>
+                    <td>{formatNumber(row.QF, 3)}</td>
+                    <td>{formatNumber(row.DF, 4)}</td>
+                    <td>{formatNumber(toDisplay(row.priceBefore), 4)}</td>
+                    <td>{formatNumber(toDisplay(row.priceAfter), 4)}</td>
+                    <td>{formatNumber(row.minted, 4)}</td>
+                    {params.hard_caps && <td>{formatNumber(row.cutOff, 4)}</td>}
+                    <td>{formatNumber(row.burnedForDiscount, 4)}</td>
+                    {params.hard_caps && <td>{formatNumber(row.burnRejected, 4)}</td>}
+                    <td>{formatNumber(row.balance, 4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td colSpan={params.hard_caps ? 8 : 7}>{t('ledger.accessFee')}</td>
+                  <td>{formatNumber(ledger.accessFeeTokens, 4)}</td>
+                  {params.hard_caps && <td />}
+                  <td>{formatNumber(ledger.netTokens, 4)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+          <p className="breakdown-note">
+            {t(`ledger.note.${pricing}`)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState, useMemo } from 'react';
+import type { SystemParams } from '../tokenomics/params';
+import type { MarketFactory, PricingMode } from '../tokenomics/engine';
+import { convertFromRub, convertToRub, type CurrencySettings } from '../tokenomics/currency';
+import {
+  DEFAULT_SCHEDULE,
+  DEFAULT_SPEND_PATTERN,
+  calculateScheduleResults,
+  generateSchedule,
+  parseSchedule,
+  validateScheduledPurchase,
+  validateSpendPattern,
+  type ScheduledPurchase,
+  type SpendPattern,
+} from '../tokenomics/schedule';
+import CapWarning from './CapWarning';
+import { useLocale } from '../i18n/locale';
+import { useDisplayCurrency } from './useCurrency';
+import './SystemParamsPanel.css';
+import './PopulationPanel.css';
+import './PurchaseLedgerPanel.css';
+import './PurchaseSchedulePanel.css';
+
+interface PurchaseSchedulePanelProps {
+  params: SystemParams;
+  createMarket: MarketFactory;
+  pricing: PricingMode;
+  currency: CurrencySettings;
+}
+
+type NumericPurchaseField = Exclude<keyof ScheduledPurchase, 'returned'>;
+
+// Labels come from the catalog under schedule.<key>
+const PATTERN_FIELDS: { key: keyof SpendPattern; step: number }[] = [
+  { key: 'monthlySpend', step: 1000 },
+  { key: 'purchasesPerMonth', step: 1 },
+  { key: 'months', step: 1 },
+  { key: 'startPeriod', step: 1 },
+  { key: 'reviewQuality', step: 0.05 },
+  { key: 'returnRate', step: 0.05 },
+];
+
+export default function PurchaseSchedulePanel({ params, createMarket, pricing, currency }: PurchaseSchedulePanelProps) {
+  const { locale, t, formatNumber, formatPercent, currencySymbol } = useLocale();
+  const { toDisplay, formatMoney, symbol } = useDisplayCurrency(currency);
+  const [enabled, setEnabled] = useState(false);
+  const [schedule, setSchedule] = useState<ScheduledPurchase[]>(DEFAULT_SCHEDULE);
+  const [rowErrors, setRowErrors] = useState<Record<string, string | undefined>>({});
+  const [pattern, setPattern] = useState<SpendPattern>(DEFAULT_SPEND_PATTERN);
+  const [patternErrors, setPatternErrors] = useState<Partial<Record<keyof SpendPattern, string>>>({});
+  const [pasteText, setPasteText] = useState('');
+  const [pasteErrors, setPasteErrors] = useState<string[]>([]);
+
+  const results = useMemo(
+    () => (enabled ? calculateScheduleResults(schedule, params, createMarket, pricing) : null),
+    [enabled, schedule, params, createMarket, pricing]
+  );
+
+  // Purchase amounts are entered in the input currency and kept in rubles
+  const toInput = (rub: number) => Number(convertFromRub(rub, currency.input, currency.rates).toFixed(2));
+  const fromInput = (amount: number) => convertToRub(amount, currency.input, currency.rates);
+  const inputSymbol = currencySymbol(currency.input);
+
+  // Handle purchase row change with validation
+  const handlePurchaseChange = (index: number, field: NumericPurchaseField, value: string) => {
+    if (value === '') {
+      return;
+    }
+    const numValue = field === 'amount' ? fromInput(parseFloat(value)) : parseFloat(value);
+    const error = validateScheduledPurchase(field, numValue, locale);
+    setRowErrors((prev) => ({ ...prev, [`${index}.${field}`]: error || undefined }));
+    if (!error) {
+      setSchedule((prev) => prev.map((p, i) => (i === index ? { ...p, [field]: numValue } : p)));
+    }
+  };
+
+  // Handle spend pattern change with validation
+  const handlePatternChange = (field: keyof SpendPattern, value: string) => {
+    if (value === '') {
+      setPatternErrors((prev) => ({ ...prev, [field]: undefined }));
+      return;
+    }
+    const numValue = field === 'monthlySpend' ? fromInput(parseFloat(value)) : parseFloat(value);
+    const error = validateSpendPattern(field, numValue, locale);
+    setPatternErrors((prev) => ({ ...prev, [field]: error || undefined }));
+    if (!error) {
+      setPattern((prev) => ({ ...prev, [field]: numValue }));
+    }
+  };
+
+  const replaceSchedule = (next: ScheduledPurchase[]) => {
+    setRowErrors({});
+    setSchedule(next);
+  };
+
+  const handlePaste = () => {
+    const parsed = parseSchedule(pasteText, locale);
+    setPasteErrors(parsed.errors);
+    if (parsed.errors.length === 0 && parsed.schedule.length > 0) {
+      replaceSchedule(parsed.schedule.map((purchase) => ({ ...purchase, amount: fromInput(purchase.amount) })));
+      setPasteText('');
+    }
+  };
+
+  const handleAddPurchase = () => {
+    const last = schedule[schedule.length - 1];
+    replaceSchedule([
+      ...schedule,
+      { amount: last?.amount ?? 10000, period: last?.period ?? 0, returned: false, reviewQuality: last?.reviewQuality ?? 0.8 },
+    ]);
+  };
+
+  return (
+    <div className="params-panel">
+      <label className="panel-toggle">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        {t('schedule.toggle')}
+      </label>
+
+      {enabled && results && (
+        <div className="params-panel-body">
+          <p className="section-description">{t('schedule.description')}</p>
+
+          <h3 className="schedule-subtitle">{t('schedule.generateTitle')}</h3>
+          <div className="params-grid">
+            {PATTERN_FIELDS.map((field) => (
+              <div className="input-group" key={field.key}>
+                <label htmlFor={`schedule-${field.key}`}>
+                  {t(`schedule.${field.key}`, { currency: inputSymbol })}
+                </label>
+                <input
+                  id={`schedule-${field.key}`}
+                  type="number"
+                  min="0"
+                  step={field.step}
+                  value={field.key === 'monthlySpend' ? toInput(pattern.monthlySpend) : pattern[field.key]}
+                  onChange={(e) => handlePatternChange(field.key, e.target.value)}
+                  className={patternErrors[field.key] ? 'input-error' : ''}
+                />
+                {patternErrors[field.key] && (
+                  <span className="error-message">{patternErrors[field.key]}</span>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="params-presets">
+            <button type="button" onClick={() => replaceSchedule(generateSchedule(pattern))}>
+              {t('schedule.generate')}
+            </button>
+          </div>
+
+          <h3 className="schedule-subtitle">{t('schedule.pasteTitle')}</h3>
+          <textarea
+            className="schedule-paste"
+            rows={4}
+            placeholder={`${t('schedule.pasteHeader')}\n${t('schedule.pasteExample')}`}
+            value={pasteText}
+            onChange={(e) => setPasteText(e.target.value)}
+          />
+          {pasteErrors.map((error) => (
+            <span className="error-message" key={error}>{error}</span>
+          ))}
+          <div className="params-presets">
+            <button type="button" onClick={handlePaste} disabled={!pasteText.trim()}>
+              {t('schedule.paste')}
+            </button>
+          </div>
+
+          <h3 className="schedule-subtitle">{t('schedule.purchases')}</h3>
+          <div className="population-table-wrapper">
+            <table className="population-table">
+              <thead>
+                <tr>
+                  <th>{t('schedule.amount', { currency: inputSymbol })}</th>
+                  <th>{t('schedule.period')}</th>
+                  <th>{t('schedule.returned')}</th>
+                  <th>{t('schedule.reviewQuality')}</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {schedule.map((purchase, index) => (
+                  <tr key={index}>
+                    <td>
+                      <input
+                        type="number"
+                        min="0"
+                        step="100"
+                        aria-label={t('schedule.amountLabel', { index: index + 1 })}
+                        value={toInput(purchase.amount)}
+                        onChange={(e) => handlePurchaseChange(index, 'amount', e.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        aria-label={t('schedule.periodLabel', { index: index + 1 })}
+                        value={purchase.period}
+                        onChange={(e) => handlePurchaseChange(index, 'period', e.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        aria-label={t('schedule.returnedLabel', { index: index + 1 })}
+                        checked={purchase.returned}
+                        onChange={(e) =>
+                          setSchedule((prev) =>
+                            prev.map((p, i) => (i === index ? { ...p, returned: e.target.checked } : p))
+                          )
+                        }
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        aria-label={t('schedule.reviewQualityLabel', { index: index + 1 })}
+                        value={purchase.reviewQuality}
+                        onChange={(e) => handlePurchaseChange(index, 'reviewQuality', e.target.value)}
+                      />
+                    </td>
+                    <td>
+                      <button type="button" onClick={() => replaceSchedule(schedule.filter((_, i) => i !== index))}>
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {Object.values(rowErrors).filter(Boolean).map((error) => (
+            <span className="error-message" key={error}>{error}</span>
+          ))}
+          <div className="params-presets">
+            <button type="button" onClick={handleAddPurchase}>
+              {t('schedule.add')}
+            </button>
+            <button type="button" onClick={() => replaceSchedule(DEFAULT_SCHEDULE)}>
+              {t('schedule.reset')}
+            </button>
+          </div>
+
+          <div className="results-grid">
+            <div className="result-card">
+              <h3>{t('schedule.minted')}</h3>
+              <div className="result-value">{formatNumber(results.totalMintedUser)}</div>
+            </div>
+            <div className="result-card">
+              <h3>{t('schedule.tokenPrice')}</h3>
+              <div className="result-value">{formatMoney(results.tokenPrice, 4)}</div>
+            </div>
+            <div className="result-card">
+              <h3>{t('schedule.burned')}</h3>
+              <div className="result-value">{formatNumber(results.totalBurned)}</div>
+            </div>
+            <div className="result-card">
+              <h3>{t('schedule.net')}</h3>
+              <div className="result-value">{formatNumber(results.netTokens)}</div>
+            </div>
+          </div>
+
+          <CapWarning
+            mintCutOff={results.mintCutOff}
+            purchasesCutOff={results.rows.filter((row) => row.cutOff > 0).length}
+            burnRejected={results.burnRejected}
+            purchasesBurnRejected={results.rows.filter((row) => row.burnRejected > 0).length}
+          />
+
+          <div className="ledger-wrapper">
+            <table className="ledger-table">
+              <thead>
+                <tr>
+                  <th>t</th>
+                  <th>{t('schedule.amount', { currency: inputSymbol })}</th>
+                  <th>CB%</th>
+                  <th>QF</th>
+                  <th>DF</th>
+                  <th>{t('ledger.minted')}</th>
+                  <th>{t('schedule.discount')}</th>
+                  <th>{t('schedule.price', { currency: symbol })}</th>
+                  <th>{t('schedule.burn')}</th>
+                  <th>{t('ledger.balance')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.rows.map((row, index) => (
+                  <tr key={index}>
+                    <td>{row.t}</td>
+                    <td>{formatNumber(toInput(row.amount), 0)}</td>
+                    <td>{formatPercent(row.CB_percent)}</td>
+                    <td>{formatNumber(row.QF, 3)}</td>
+                    <td>{formatNumber(row.DF, 4)}</td>
+                    <td>{formatNumber(row.minted, 4)}</td>
+                    <td>{formatPercent(row.discount_percent)}</td>
+                    <td>{formatNumber(toDisplay(row.tokenPrice), 4)}</td>
+                    <td>{formatNumber(row.burned, 4)}</td>
+                    <td>{formatNumber(row.balance, 4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td colSpan={8}>{t('ledger.accessFee')}</td>
+                  <td>{formatNumber(params.access_fee, 4)}</td>
+                  <td>{formatNumber(results.netTokens, 4)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  generateBondingCurveData,
+  type CalculationBreakdown,
+  type CalculationResults,
+  type PricingMode,
+} from '../tokenomics/engine';
+import { DEFAULT_SIMULATION_SETTINGS, runSimulation } from '../tokenomics/simulation';
+import {
+  MAX_PINNED_SCENARIOS,
+  loadScenarios,
+  mergeSeriesBy,
+  saveScenarios,
+  togglePinned,
+  type Scenario,
+} from '../tokenomics/scenarios';
+import { useLocale } from '../i18n/locale';
+import { useCurrencySettings, useDisplayCurrency } from './useCurrency';
+import type { MessageKey } from '../i18n/messages';
+import './BuyerCalculator.css';
+import './ScenarioComparison.css';
+
+type SummaryField = Exclude<keyof CalculationResults, 'breakdown' | 'burnSplit'>;
+
+// Every compared field: top-level results followed by the breakdown.
+// Labels come from the catalog under compare.summary.<key> and compare.breakdown.<key>.
+const SUMMARY_FIELDS: SummaryField[] = [
+  'totalMintedUser',
+  'tokenPrice',
+  'totalBurned',
+  'burnDestroyed',
+  'burnRedistributed',
+  'netTokens',
+];
+
+// marketBurnedPeriod is only known for some market models and is compared through marketBurnedYear
+type BreakdownField = Exclude<keyof CalculationBreakdown, 'marketBurnedPeriod'>;
+
+const BREAKDOWN_FIELDS: BreakdownField[] = [
+  't',
+  'CB_percent',
+  'QF',
+  'dfFirst',
+  'dfLast',
+  'mintedPerPurchaseAvg',
+  'capUsage',
+  'discount_percent',
+  'discountRubTotal',
+  'burnDiscountTokens',
+  'accessFeeTokens',
+  'marketBurnedYear',
+  'marketMinted',
+  'mintCutOff',
+  'purchasesCutOff',
+  'burnRejected',
+  'purchasesBurnRejected',
+  'netValueRub',
+  'effectiveCashbackRub',
+  'effectiveDiscountRub',
+  'initialGlobalTotalMinted',
+  'assumedUsers',
+  'assumedBurnRate',
+  'newGlobalTotalMinted',
+];
+
+// Ruble fields, shown in the display currency
+const MONEY_FIELDS: (SummaryField | BreakdownField)[] = [
+  'tokenPrice',
+  'discountRubTotal',
+  'netValueRub',
+  'effectiveCashbackRub',
+  'effectiveDiscountRub',
+];
+
+const COMPARISON_ROWS: { key: MessageKey; money: boolean; value: (results: CalculationResults) => number }[] = [
+  ...SUMMARY_FIELDS.map((key) => ({
+    key: `compare.summary.${key}` as const,
+    money: MONEY_FIELDS.includes(key),
+    value: (results: CalculationResults) => results[key],
+  })),
+  ...BREAKDOWN_FIELDS.map((key) => ({
+    key: `compare.breakdown.${key}` as const,
+    money: MONEY_FIELDS.includes(key),
+    value: (results: CalculationResults) => results.breakdown[key],
+  })),
+];
+
+const PRICING_LABEL_KEYS: Record<PricingMode, MessageKey> = {
+  spot: 'buyer.pricing.spotOption',
+  integral: 'buyer.pricing.integralOption',
+};
+
+const SCENARIO_COLORS = ['#8884d8', '#82ca9d', '#ff7300', '#e05297'];
+
+export default function ScenarioComparison() {
+  const { locale, t, formatNumber, formatPercent } = useLocale();
+  const [currency] = useCurrencySettings();
+  const { toDisplay, symbol } = useDisplayCurrency(currency);
+  const [scenarios, setScenarios] = useState<Scenario[]>(loadScenarios);
+
+  const updateScenarios = (next: Scenario[]) => {
+    setScenarios(next);
+    saveScenarios(next);
+  };
+
+  const pinned = useMemo(() => scenarios.filter((s) => s.pinned), [scenarios]);
+
+  // Bonding curves of pinned scenarios merged by totalMinted
+  const bondingCurveData = useMemo(
+    () =>
+      mergeSeriesBy(
+        'totalMinted',
+        pinned.map((s) =>
+          generateBondingCurveData(s.systemParams).map((point) => ({
+            totalMinted: point.totalMinted,
+            [s.id]: toDisplay(point.price),
+          }))
+        )
+      ),
+    [pinned, toDisplay]
+  );
+
+  // Default simulation run with each scenario's purchase, merged by period
+  const timeSeriesData = useMemo(
+    () =>
+      mergeSeriesBy(
+        'period',
+        pinned.map((s) =>
+          runSimulation(
+            {
+              ...DEFAULT_SIMULATION_SETTINGS,
+              purchasePrice: s.userInputs.purchasePrice,
+              reviewQuality: s.userInputs.reviewQuality,
+              returnProbability: s.userInputs.returnProbability,
+            },
+            s.systemParams
+          ).timeline.map((row) => ({
+            period: row.period,
+            [`${s.id}.price`]: toDisplay(row.tokenPrice),
+            [`${s.id}.supply`]: row.circulatingSupply,
+          }))
+        )
+      ),
+    [pinned, toDisplay]
+  );
+
+  const formatValue = (value: number): string => formatNumber(value, Number.isInteger(value) ? 0 : 4);
+
+  return (
+    <div className="buyer-calculator">
+      <div className="calculator-header">
+        <h1>{t('nav.compare')}</h1>
+        <p className="description">{t('compare.description', { count: MAX_PINNED_SCENARIOS })}</p>
+      </div>
+
+      <div className="calculator-content">
+        <div className="details-section">
+          <h2>{t('compare.saved')}</h2>
+          {scenarios.length === 0 ? (
+            <p className="breakdown-note">
+              {t('compare.empty')} <Link to="/buyer">{t('compare.emptyLink')}</Link>.
+            </p>
+          ) : (
+            <ul className="scenario-list">
+              {scenarios.map((s) => (
+                <li key={s.id}>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={s.pinned}
+                      disabled={!s.pinned && pinned.length >= MAX_PINNED_SCENARIOS}
+                      onChange={() => updateScenarios(togglePinned(scenarios, s.id))}
+                    />
+                    {s.name}
+                  </label>
+                  <span className="scenario-date">
+                    {new Date(s.createdAt).toLocaleString(locale)} · {t(PRICING_LABEL_KEYS[s.pricing])} ·{' '}
+                    {t(`marketMode.${s.market.mode}`)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => updateScenarios(scenarios.filter((other) => other.id !== s.id))}
+                  >
+                    {t('compare.delete')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {pinned.length > 0 && (
+          <div className="details-section">
+            <h2>{t('compare.table')}</h2>
+            <div className="comparison-table-wrapper">
+              <table className="comparison-table">
+                <thead>
+                  <tr>
+                    <th>{t('compare.metric')}</th>
+                    {pinned.map((s, i) => (
+                      <th key={s.id} style={{ color: SCENARIO_COLORS[i] }}>
+                        {s.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {COMPARISON_ROWS.map((row) => {
+                    const valueOf = (results: CalculationResults) =>
+                      row.money ? toDisplay(row.value(results)) : row.value(results);
+                    const base = valueOf(pinned[0].results);
+                    return (
+                      <tr key={row.key}>
+                        <td>{t(row.key, { currency: symbol })}</td>
+                        {pinned.map((s, i) => {
+                          const value = valueOf(s.results);
+                          const delta = value - base;
+                          const changed = i > 0 && Math.abs(delta) > 1e-9;
+                          return (
+                            <td
+                              key={s.id}
+                              className={changed ? (delta > 0 ? 'delta-up' : 'delta-down') : ''}
+                            >
+                              {formatValue(value)}
+                              {changed && (
+                                <span className="delta">
+                                  {delta > 0 ? '+' : ''}
+                                  {formatValue(delta)}
+                                  {base !== 0 && ` (${formatPercent(delta / Math.abs(base), 1)})`}
+                                </span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {pinned.length > 0 && (
+          <div className="charts-section">
+            <h2>{t('compare.charts')}</h2>
+
+            <div className="chart-container">
+              <h3>{t('compare.curve')}</h3>
+              <ResponsiveContainer width="100%" height={350}>
+                <LineChart data={bondingCurveData} margin={{ top: 10, right: 30, left: 40, bottom: 30 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="totalMinted" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                  {pinned.map((s, i) => (
+                    <Line key={s.id} type="monotone" dataKey={s.id} name={s.name} stroke={SCENARIO_COLORS[i]} strokeWidth={2} dot={false} connectNulls />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="chart-container">
+              <h3>{t('compare.priceOverTime')}</h3>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={timeSeriesData} margin={{ top: 10, right: 30, left: 40, bottom: 30 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="period" label={{ value: t('compare.period'), position: 'insideBottom', offset: -5 }} />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                  {pinned.map((s, i) => (
+                    <Line key={s.id} type="monotone" dataKey={`${s.id}.price`} name={s.name} stroke={SCENARIO_COLORS[i]} strokeWidth={2} dot={false} connectNulls />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="chart-container">
+              <h3>{t('compare.supplyOverTime')}</h3>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={timeSeriesData} margin={{ top: 10, right: 30, left: 40, bottom: 30 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="period" label={{ value: t('compare.period'), position: 'insideBottom', offset: -5 }} />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                  {pinned.map((s, i) => (
+                    <Line key={s.id} type="monotone" dataKey={`${s.id}.supply`} name={s.name} stroke={SCENARIO_COLORS[i]} strokeWidth={2} dot={false} connectNulls />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import SystemParamsPanel from './SystemParamsPanel';
+import CurrencyPanel from './CurrencyPanel';
+import { useCurrencySettings, useDisplayCurrency } from './useCurrency';
+import { useLocale } from '../i18n/locale';
+import { DEFAULT_SYSTEM_PARAMS, type SystemParams } from '../tokenomics/params';
+import {
+  DEFAULT_SELLER_INPUTS,
+  calculateSellerResults,
+  validateSellerInput,
+  type SellerInputs,
+} from '../tokenomics/seller';
+import { convertFromRub, convertToRub } from '../tokenomics/currency';
+import './BuyerCalculator.css';
+
+export default function SellerCalculator() {
+  const { locale, t, formatNumber, formatPercent, currencySymbol } = useLocale();
+
+  // Display currency and exchange rates; GMV is entered in the input currency
+  const [currency, setCurrency] = useCurrencySettings();
+  const { toDisplay, formatMoney, symbol } = useDisplayCurrency(currency);
+
+  // Seller inputs state
+  const [sellerInputs, setSellerInputs] = useState<SellerInputs>(DEFAULT_SELLER_INPUTS);
+
+  // Validation errors state
+  const [errors, setErrors] = useState<Partial<Record<keyof SellerInputs, string>>>({});
+
+  // System parameters state (editable in the advanced parameters panel)
+  const [systemParams, setSystemParams] = useState<SystemParams>(DEFAULT_SYSTEM_PARAMS);
+
+  // Handle input change with validation
+  const handleInputChange = (field: keyof SellerInputs, value: string) => {
+    if (value === '') {
+      setErrors((prev) => ({
+        ...prev,
+        [field]: undefined,
+      }));
+      return;
+    }
+
+    const parsed = field === 'orderCount' || field === 'periods' || field === 'periodsPerYear'
+      ? parseInt(value, 10)
+      : parseFloat(value);
+    const numValue = field === 'gmv' ? convertToRub(parsed, currency.input, currency.rates) : parsed;
+
+    const error = validateSellerInput(field, numValue, locale);
+
+    setErrors((prev) => ({
+      ...prev,
+      [field]: error || undefined,
+    }));
+
+    if (!error && !isNaN(numValue)) {
+      setSellerInputs((prev) => ({
+        ...prev,
+        [field]: numValue,
+      }));
+    }
+  };
+
+  // Calculate results
+  const results = useMemo(
+    () => calculateSellerResults(sellerInputs, systemParams),
+    [sellerInputs, systemParams]
+  );
+
+  // Ruble series of the chart in the display currency
+  const timelineData = useMemo(
+    () => results.timeline.map((row) => ({ ...row, cumulativeNetRub: toDisplay(row.cumulativeNetRub) })),
+    [results, toDisplay]
+  );
+
+  return (
+    <div className="buyer-calculator">
+      <div className="calculator-header">
+        <h1>{t('seller.title')}</h1>
+        <p className="description">{t('seller.description')}</p>
+      </div>
+
+      <div className="calculator-content">
+        <div className="main-sections">
+          <div className="input-section">
+            <h2>{t('seller.inputs.title')}</h2>
+            <p className="section-description">{t('seller.inputs.description')}</p>
+
+            <div className="input-group">
+              <label htmlFor="gmv">
+                {t('seller.gmv.label', { currency: currencySymbol(currency.input) })} <span className="required">*</span>
+              </label>
+              <input
+                id="gmv"
+                type="number"
+                min="0"
+                step="10000"
+                value={Number(convertFromRub(sellerInputs.gmv, currency.input, currency.rates).toFixed(2))}
+                onChange={(e) => handleInputChange('gmv', e.target.value)}
+                className={errors.gmv ? 'input-error' : ''}
+              />
+              {errors.gmv && <span className="error-message">{errors.gmv}</span>}
+              <span className="input-hint">{t('seller.gmv.hint')}</span>
+            </div>
+
+            <div className="input-group">
+              <label htmlFor="orderCount">
+                {t('seller.orderCount.label')} <span className="required">*</span>
+              </label>
+              <input
+                id="orderCount"
+                type="number"
+                min="1"
+                value={sellerInputs.orderCount}
+                onChange={(e) => handleInputChange('orderCount', e.target.value)}
+                className={errors.orderCount ? 'input-error' : ''}
+              />
+              {errors.orderCount && <span className="error-message">{errors.orderCount}</span>}
+              <span className="input-hint">{t('seller.orderCount.hint')}</span>
+            </div>
+
+            <div className="input-group">
+              <label htmlFor="returnRate">
+                {t('seller.returnRate.label')} <span className="required">*</span>
+              </label>
+              <div className="slider-container">
+                <input
+                  id="returnRate"
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={sellerInputs.returnRate}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    setSellerInputs((prev) => ({ ...prev, returnRate: value }));
+                  }}
+                  style={{ '--slider-progress': `${sellerInputs.returnRate * 100}%` } as React.CSSProperties}
+                />
+                <span className="slider-value">{formatPercent(sellerInputs.returnRate, 1)}</span>
+              </div>
+              <span className="input-hint">{t('seller.returnRate.hint')}</span>
+            </div>
+
+            <div className="input-group">
+              <label htmlFor="discountedShare">
+                {t('seller.discountedShare.label')} <span className="required">*</span>
+              </label>
+              <div className="slider-container">
+                <input
+                  id="discountedShare"
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={sellerInputs.discountedShare}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    setSellerInputs((prev) => ({ ...prev, discountedShare: value }));
+                  }}
+                  style={{ '--slider-progress': `${sellerInputs.discountedShare * 100}%` } as React.CSSProperties}
+                />
+                <span className="slider-value">{formatPercent(sellerInputs.discountedShare, 1)}</span>
+              </div>
+              <span className="input-hint">{t('seller.discountedShare.hint')}</span>
+            </div>
+
+            <div className="input-group">
+              <label htmlFor="periods">
+                {t('seller.periods.label')} <span className="required">*</span>
+              </label>
+              <input
+                id="periods"
+                type="number"
+                min="1"
+                value={sellerInputs.periods}
+                onChange={(e) => handleInputChange('periods', e.target.value)}
+                className={errors.periods ? 'input-error' : ''}
+              />
+              {errors.periods && <span className="error-message">{errors.periods}</span>}
+              <span className="input-hint">{t('seller.periods.hint')}</span>
+            </div>
+
+            <div className="input-group">
+              <label htmlFor="periodsPerYear">
+                {t('seller.periodsPerYear.label')} <span className="required">*</span>
+              </label>
+              <input
+                id="periodsPerYear"
+                type="number"
+                min="1"
+                value={sellerInputs.periodsPerYear}
+                onChange={(e) => handleInputChange('periodsPerYear', e.target.value)}
+                className={errors.periodsPerYear ? 'input-error' : ''}
+              />
+              {errors.periodsPerYear && <span className="error-message">{errors.periodsPerYear}</span>}
+              <span className="input-hint">{t('seller.periodsPerYear.hint')}</span>
+            </div>
+          </div>
+
+          <div className="results-section">
+            <h2>{t('seller.results.title')}</h2>
+
+            <div className="results-grid">
+              <div className="result-card">
+                <h3>{t('seller.results.redistributed')}</h3>
+                <div className="result-value">{formatNumber(results.totalRedistributedTokens)}</div>
+                <p className="result-description">{t('seller.results.redistributedDescription')}</p>
+              </div>
+
+              <div className="result-card">
+                <h3>{t('seller.results.fee')}</h3>
+                <div className="result-value">{formatNumber(results.totalFeeTokens)}</div>
+                <p className="result-description">{t('seller.results.feeDescription')}</p>
+              </div>
+
+              <div className="result-card">
+                <h3>{t('seller.results.net')}</h3>
+                <div className="result-value">{formatNumber(results.netTokens)}</div>
+                <p className="result-description">{t('seller.results.netDescription')}</p>
+              </div>
+
+              <div className="result-card">
+                <h3>{t('seller.results.netValue')}</h3>
+                <div className="result-value">{formatMoney(results.netValueRub)}</div>
+                <p className="result-description">
+                  {t('seller.results.netValueDescription', { price: formatMoney(results.tokenPrice, 4) })}
+                </p>
+              </div>
+            </div>
+
+            <div className="burn-mechanism">
+              <h3>{t('seller.period.title')}</h3>
+              <div className="burn-stats">
+                <div className="burn-stat">
+                  <span className="burn-label">{t('seller.period.avgOrder')}</span>
+                  <span className="burn-value">{formatMoney(results.avgOrderValue)}</span>
+                </div>
+                <div className="burn-stat">
+                  <span className="burn-label">{t('seller.period.discountedOrders')}</span>
+                  <span className="burn-value">{formatNumber(results.discountedOrdersPerPeriod)}</span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <SystemParamsPanel params={systemParams} onChange={setSystemParams} />
+
+        <CurrencyPanel settings={currency} onChange={setCurrency} />
+
+        <div className="charts-section">
+          <h2>{t('seller.charts.title')}</h2>
+
+          <div className="chart-container">
+            <h3>{t('seller.charts.position')}</h3>
+            <ResponsiveContainer width="100%" height={350}>
+              <LineChart data={timelineData} margin={{ top: 10, right: 80, left: 80, bottom: 40 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="period"
+                  label={{ value: t('seller.charts.period'), position: 'insideBottom', offset: -5 }}
+                />
+                <YAxis
+                  yAxisId="tokens"
+                  label={{ value: t('seller.charts.tokens'), angle: -90, position: 'insideLeft', offset: -10, style: { textAnchor: 'middle' } }}
+                />
+                <YAxis
+                  yAxisId="rub"
+                  orientation="right"
+                  label={{ value: symbol, angle: -90, position: 'insideRight' }}
+                />
+                <Tooltip />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                <Line
+                  yAxisId="tokens"
+                  type="monotone"
+                  dataKey="redistributedTokens"
+                  stroke="#82ca9d"
+                  name={t('seller.charts.redistributed')}
+                  strokeWidth={2}
+                />
+                <Line
+                  yAxisId="tokens"
+                  type="monotone"
+                  dataKey="cumulativeNetTokens"
+                  stroke="#8884d8"
+                  name={t('seller.charts.cumulativeTokens')}
+                  strokeWidth={2}
+                />
+                <Line
+                  yAxisId="rub"
+                  type="monotone"
+                  dataKey="cumulativeNetRub"
+                  stroke="#ff7300"
+                  name={t('seller.charts.cumulativeValue', { currency: symbol })}
+                  strokeWidth={2}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
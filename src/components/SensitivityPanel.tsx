@@ -0,0 +1,252 @@
+import { useState, useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import type { SystemParams } from '../tokenomics/params';
+import type { UserInputs } from '../tokenomics/inputs';
+import type { PricingMode } from '../tokenomics/engine';
+import type { CurrencySettings } from '../tokenomics/currency';
+import type { MarketSpec } from '../tokenomics/population';
+import {
+  SENSITIVITY_KEYS,
+  SENSITIVITY_METRICS,
+  getVariable,
+  heatmapRange,
+  rankByImpact,
+  sensitivityLabel,
+  type SensitivityKey,
+  type SensitivityMetric,
+} from '../tokenomics/sensitivity';
+import ComputeStatus from './ComputeStatus';
+import { useLocale } from '../i18n/locale';
+import { useDisplayCurrency } from './useCurrency';
+import { useComputeJob } from './useComputeJob';
+import './SystemParamsPanel.css';
+import './SensitivityPanel.css';
+
+interface SensitivityPanelProps {
+  inputs: UserInputs;
+  params: SystemParams;
+  market: MarketSpec;
+  pricing: PricingMode;
+  currency: CurrencySettings;
+}
+
+type SensitivityMode = 'tornado' | 'heatmap';
+
+const HEATMAP_STEPS = 11;
+
+// Red (low) to green (high) cell colour
+const heatColor = (value: number, min: number, max: number): string => {
+  const ratio = max > min ? (value - min) / (max - min) : 0.5;
+  return `hsl(${Math.round(ratio * 120)}, 65%, 45%)`;
+};
+
+export default function SensitivityPanel({ inputs, params, market, pricing, currency }: SensitivityPanelProps) {
+  const { locale, t, formatNumber, formatSignificant } = useLocale();
+  const { toDisplay, symbol } = useDisplayCurrency(currency);
+  const [enabled, setEnabled] = useState(false);
+  const [mode, setMode] = useState<SensitivityMode>('tornado');
+  const [metric, setMetric] = useState<SensitivityMetric>('netTokens');
+  const [deltaPercent, setDeltaPercent] = useState(10);
+  const [xKey, setXKey] = useState<SensitivityKey>('k');
+  const [yKey, setYKey] = useState<SensitivityKey>('gamma');
+  const [spanPercent, setSpanPercent] = useState(50);
+
+  // Sweeps run in a worker, one job per mode
+  const tornadoJob = useComputeJob<'sensitivity'>(
+    enabled && mode === 'tornado'
+      ? { type: 'sensitivity', inputs, params, delta: deltaPercent / 100, market, pricing }
+      : null
+  );
+  const heatmapJob = useComputeJob<'heatmap'>(
+    enabled && mode === 'heatmap'
+      ? {
+          type: 'heatmap',
+          inputs,
+          params,
+          xKey,
+          yKey,
+          xRange: heatmapRange(getVariable(inputs, params, xKey), spanPercent / 100),
+          yRange: heatmapRange(getVariable(inputs, params, yKey), spanPercent / 100),
+          steps: HEATMAP_STEPS,
+          metric,
+          market,
+          pricing,
+        }
+      : null
+  );
+
+  const tornado = useMemo(() => {
+    if (!enabled || mode !== 'tornado' || !tornadoJob.result) {
+      return null;
+    }
+    const { base, rows } = tornadoJob.result;
+    // Ruble metrics are shown in the display currency
+    const toMetric = (value: number) => (metric === 'netTokens' ? value : toDisplay(value));
+    return {
+      base: toMetric(base[metric]),
+      data: rankByImpact(rows, metric).map((row) => ({
+        name: sensitivityLabel(row.key, locale),
+        low: toMetric(row.low[metric] - base[metric]),
+        high: toMetric(row.high[metric] - base[metric]),
+      })),
+    };
+  }, [enabled, mode, tornadoJob.result, metric, locale, toDisplay]);
+
+  const heatmap = enabled && mode === 'heatmap' ? heatmapJob.result : null;
+
+  const formatAxisValue = (value: number): string =>
+    Math.abs(value) >= 100 ? formatNumber(value, 0) : formatSignificant(value, 3);
+  const toHeatmapValue = (value: number) => (metric === 'netTokens' ? value : toDisplay(value));
+  const metricLabel = (m: SensitivityMetric) => t(`sensitivity.metric.${m}`, { currency: symbol });
+
+  const renderKeySelect = (id: string, value: SensitivityKey, onChange: (key: SensitivityKey) => void) => (
+    <select id={id} value={value} onChange={(e) => onChange(e.target.value as SensitivityKey)}>
+      {SENSITIVITY_KEYS.map((key) => (
+        <option key={key} value={key}>
+          {sensitivityLabel(key, locale)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="params-panel">
+      <label className="panel-toggle">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        {t('sensitivity.toggle')}
+      </label>
+
+      {enabled && (
+        <div className="params-panel-body">
+          <div className="params-presets">
+            <select value={mode} onChange={(e) => setMode(e.target.value as SensitivityMode)} aria-label={t('sensitivity.mode')}>
+              <option value="tornado">{t('sensitivity.tornado')}</option>
+              <option value="heatmap">{t('sensitivity.heatmap')}</option>
+            </select>
+            <select value={metric} onChange={(e) => setMetric(e.target.value as SensitivityMetric)} aria-label={t('sensitivity.metric')}>
+              {SENSITIVITY_METRICS.map((m) => (
+                <option key={m} value={m}>
+                  {metricLabel(m)}
+                </option>
+              ))}
+            </select>
+            {mode === 'tornado' ? (
+              <label className="sensitivity-inline">
+                ±
+                <input
+                  type="number"
+                  min="1"
+                  max="99"
+                  value={deltaPercent}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (value > 0 && value < 100) {
+                      setDeltaPercent(value);
+                    }
+                  }}
+                />
+                %
+              </label>
+            ) : (
+              <>
+                <label className="sensitivity-inline" htmlFor="heatmap-x">X:</label>
+                {renderKeySelect('heatmap-x', xKey, setXKey)}
+                <label className="sensitivity-inline" htmlFor="heatmap-y">Y:</label>
+                {renderKeySelect('heatmap-y', yKey, setYKey)}
+                <label className="sensitivity-inline">
+                  ±
+                  <input
+                    type="number"
+                    min="1"
+                    max="99"
+                    value={spanPercent}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (value > 0 && value < 100) {
+                        setSpanPercent(value);
+                      }
+                    }}
+                  />
+                  %
+                </label>
+              </>
+            )}
+          </div>
+
+          <ComputeStatus state={mode === 'tornado' ? tornadoJob : heatmapJob} />
+
+          {tornado && (
+            <div className="chart-container">
+              <h3>
+                {t('sensitivity.impact', {
+                  delta: deltaPercent,
+                  metric: metricLabel(metric),
+                  base: formatNumber(tornado.base),
+                })}
+              </h3>
+              <ResponsiveContainer width="100%" height={Math.max(300, tornado.data.length * 28)}>
+                <BarChart data={tornado.data} layout="vertical" stackOffset="sign" margin={{ top: 10, right: 30, left: 180, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" tickFormatter={(value) => formatNumber(Number(value))} />
+                  <YAxis type="category" dataKey="name" width={170} />
+                  <Tooltip formatter={(value) => formatNumber(Number(value), 4)} />
+                  <Legend />
+                  <ReferenceLine x={0} stroke="#213547" />
+                  <Bar dataKey="low" stackId="impact" fill="#ff7373" name={`−${deltaPercent}%`} />
+                  <Bar dataKey="high" stackId="impact" fill="#82ca9d" name={`+${deltaPercent}%`} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {heatmap && (
+            <div className="chart-container">
+              <h3>
+                {metricLabel(metric)}: {sensitivityLabel(xKey, locale)} × {sensitivityLabel(yKey, locale)}
+              </h3>
+              <div className="heatmap-wrapper">
+                <table className="heatmap">
+                  <tbody>
+                    {[...heatmap.cells].reverse().map((row, reversedIndex) => {
+                      const yIndex = heatmap.yValues.length - 1 - reversedIndex;
+                      return (
+                        <tr key={yIndex}>
+                          <th>{formatAxisValue(heatmap.yValues[yIndex])}</th>
+                          {row.map((value, xIndex) => (
+                            <td
+                              key={xIndex}
+                              style={{ background: heatColor(value, heatmap.min, heatmap.max) }}
+                              title={`${sensitivityLabel(xKey, locale)} = ${formatSignificant(heatmap.xValues[xIndex])}, ${sensitivityLabel(yKey, locale)} = ${formatSignificant(heatmap.yValues[yIndex])}: ${formatNumber(toHeatmapValue(value), 4)}`}
+                            >
+                              {formatAxisValue(toHeatmapValue(value))}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                    <tr>
+                      <th />
+                      {heatmap.xValues.map((x, xIndex) => (
+                        <th key={xIndex}>{formatAxisValue(x)}</th>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { useLocale } from '../i18n/locale';
+import { useDisplayCurrency } from './useCurrency';
+import type { SystemParams } from '../tokenomics/params';
+import type { CalculationResults } from '../tokenomics/engine';
+import type { CurrencySettings } from '../tokenomics/currency';
+import {
+  DEFAULT_STAKING_SETTINGS,
+  STAKING_FUNDINGS,
+  calculateStaking,
+  validateStakingSetting,
+  type StakingFunding,
+  type StakingSettings,
+} from '../tokenomics/staking';
+import './SystemParamsPanel.css';
+
+interface StakingPanelProps {
+  results: CalculationResults;
+  params: SystemParams;
+  currency: CurrencySettings;
+}
+
+type NumericSetting = Exclude<keyof StakingSettings, 'funding'>;
+
+// Label and hint come from the catalog under staking.<key>.*
+const SETTING_FIELDS: { key: NumericSetting; step: number }[] = [
+  { key: 'lockShare', step: 0.05 },
+  { key: 'termPeriods', step: 1 },
+  { key: 'periodsPerYear', step: 1 },
+  { key: 'participation', step: 0.05 },
+  { key: 'emissionShare', step: 0.01 },
+];
+
+export default function StakingPanel({ results, params, currency }: StakingPanelProps) {
+  const { locale, t, formatNumber, formatPercent } = useLocale();
+  const { formatMoney } = useDisplayCurrency(currency);
+  const [enabled, setEnabled] = useState(false);
+  const [settings, setSettings] = useState<StakingSettings>(DEFAULT_STAKING_SETTINGS);
+  const [errors, setErrors] = useState<Partial<Record<NumericSetting, string>>>({});
+
+  // Handle setting change with validation
+  const handleSettingChange = (field: NumericSetting, value: string) => {
+    if (value === '') {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+      return;
+    }
+
+    const numValue = parseFloat(value);
+    const error = validateStakingSetting(field, numValue, locale);
+
+    setErrors((prev) => ({ ...prev, [field]: error || undefined }));
+
+    if (!error) {
+      setSettings((prev) => ({ ...prev, [field]: numValue }));
+    }
+  };
+
+  const staking = useMemo(
+    () => (enabled ? calculateStaking(results, params, settings) : null),
+    [enabled, results, params, settings]
+  );
+
+  return (
+    <div className="params-panel">
+      <label className="panel-toggle">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        {t('staking.toggle')}
+      </label>
+
+      {enabled && staking && (
+        <div className="params-panel-body">
+          <div className="params-grid">
+            {SETTING_FIELDS.map((field) => (
+              <div className="input-group" key={field.key}>
+                <label htmlFor={`staking-${field.key}`}>{t(`staking.${field.key}.label`)}</label>
+                <input
+                  id={`staking-${field.key}`}
+                  type="number"
+                  min="0"
+                  step={field.step}
+                  value={settings[field.key]}
+                  onChange={(e) => handleSettingChange(field.key, e.target.value)}
+                  className={errors[field.key] ? 'input-error' : ''}
+                />
+                {errors[field.key] && <span className="error-message">{errors[field.key]}</span>}
+                <span className="input-hint">{t(`staking.${field.key}.hint`)}</span>
+              </div>
+            ))}
+            <div className="input-group">
+              <label htmlFor="staking-funding">{t('staking.funding')}</label>
+              <select
+                id="staking-funding"
+                value={settings.funding}
+                onChange={(e) => setSettings((prev) => ({ ...prev, funding: e.target.value as StakingFunding }))}
+              >
+                {STAKING_FUNDINGS.map((funding) => (
+                  <option key={funding} value={funding}>
+                    {t(`staking.funding.${funding}`)}
+                  </option>
+                ))}
+              </select>
+              {settings.funding === 'burns' && params.burn_staking === 0 && (
+                <span className="input-hint">{t('staking.noBurnShare')}</span>
+              )}
+            </div>
+          </div>
+
+          <div className="results-grid">
+            <div className="result-card">
+              <h3>{t('staking.staked')}</h3>
+              <div className="result-value">{formatNumber(staking.stakedTokens)}</div>
+              <p className="result-description">{t('staking.liquid', { tokens: formatNumber(staking.liquidTokens) })}</p>
+            </div>
+            <div className="result-card">
+              <h3>{t('staking.yield')}</h3>
+              <div className="result-value">{formatNumber(staking.yieldTokens)}</div>
+              <p className="result-description">
+                {t('staking.yieldDescription', {
+                  value: formatMoney(staking.yieldRub),
+                  rate: formatPercent(staking.yieldRate),
+                })}
+              </p>
+            </div>
+            <div className="result-card">
+              <h3>{t('staking.tokenPrice')}</h3>
+              <div className="result-value">{formatMoney(staking.tokenPrice, 4)}</div>
+              <p className="result-description">
+                {t('staking.tokenPriceDescription', {
+                  tokens: formatNumber(staking.lockedSupply),
+                  price: formatMoney(results.tokenPrice, 4),
+                })}
+              </p>
+            </div>
+            <div className="result-card">
+              <h3>{t('staking.final')}</h3>
+              <div className="result-value">{formatNumber(staking.finalTokens)}</div>
+              <p className="result-description">{t('staking.finalDescription')}</p>
+            </div>
+          </div>
+
+          <div className="chart-container">
+            <h3>{t('staking.chart')}</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={staking.timeline} margin={{ top: 10, right: 30, left: 40, bottom: 30 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" label={{ value: t('staking.chartPeriod'), position: 'insideBottom', offset: -5 }} />
+                <YAxis />
+                <Tooltip formatter={(value) => formatNumber(Number(value), 4)} />
+                <Line type="monotone" dataKey="yieldTokens" stroke="#82ca9d" name={t('staking.chartYield')} strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <p className="breakdown-note">{t('staking.note')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import SystemParamsPanel from './SystemParamsPanel';
+import ConfigFilePanel from './ConfigFilePanel';
+import TreasuryPanel from './TreasuryPanel';
+import CapWarning from './CapWarning';
+import CurrencyPanel from './CurrencyPanel';
+import { useCurrencySettings, useDisplayCurrency } from './useCurrency';
+import { useLocale } from '../i18n/locale';
+import { DEFAULT_SYSTEM_PARAMS, type SystemParams } from '../tokenomics/params';
+import {
+  DEFAULT_SIMULATION_SETTINGS,
+  runSimulation,
+  validateSimulationSetting,
+  type SimulationSettings,
+} from '../tokenomics/simulation';
+import type { ConfigFile } from '../tokenomics/configFile';
+import { convertFromRub, convertToRub } from '../tokenomics/currency';
+import { REDISTRIBUTION_DESTINATIONS, type RedistributionDestination } from '../tokenomics/burnSplit';
+import './BuyerCalculator.css';
+
+// Label and hint come from the catalog under simulator.<key>.*
+const SETTING_FIELDS: { key: keyof SimulationSettings; step: number }[] = [
+  { key: 'periods', step: 1 },
+  { key: 'periodsPerYear', step: 1 },
+  { key: 'users', step: 10 },
+  { key: 'purchasesPerPeriod', step: 1 },
+  { key: 'purchasePrice', step: 100 },
+  { key: 'reviewQuality', step: 0.01 },
+  { key: 'returnProbability', step: 0.01 },
+  { key: 'initialGlobalMinted', step: 100 },
+];
+
+const POOL_COLORS: Record<RedistributionDestination, string> = {
+  sellers: '#82ca9d',
+  treasury: '#ffc658',
+  staking: '#ff7300',
+  referral: '#e05297',
+};
+
+export default function SupplySimulator() {
+  const { locale, t, formatNumber, formatPercent, currencySymbol } = useLocale();
+
+  // Display currency and exchange rates; the purchase price is entered in the input currency
+  const [currency, setCurrency] = useCurrencySettings();
+  const { toDisplay, formatMoney, symbol } = useDisplayCurrency(currency);
+
+  // Simulation settings state
+  const [settings, setSettings] = useState<SimulationSettings>(DEFAULT_SIMULATION_SETTINGS);
+
+  // Validation errors state
+  const [errors, setErrors] = useState<Partial<Record<keyof SimulationSettings, string>>>({});
+
+  // System parameters state (editable in the advanced parameters panel)
+  const [systemParams, setSystemParams] = useState<SystemParams>(DEFAULT_SYSTEM_PARAMS);
+
+  // Handle input change with validation
+  const handleInputChange = (field: keyof SimulationSettings, value: string) => {
+    if (value === '') {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+      return;
+    }
+
+    const parsed = parseFloat(value);
+    const numValue = field === 'purchasePrice' ? convertToRub(parsed, currency.input, currency.rates) : parsed;
+    const error = validateSimulationSetting(field, numValue, locale);
+
+    setErrors((prev) => ({ ...prev, [field]: error || undefined }));
+
+    if (!error) {
+      setSettings((prev) => ({ ...prev, [field]: numValue }));
+    }
+  };
+
+  // Apply the sections of an imported config file that this page uses
+  const handleImportConfig = (config: ConfigFile) => {
+    if (config.simulation) {
+      setSettings(config.simulation);
+      setErrors({});
+    }
+    if (config.systemParams) {
+      setSystemParams(config.systemParams);
+    }
+  };
+
+  // Run the simulation
+  const simulation = useMemo(
+    () => runSimulation(settings, systemParams),
+    [settings, systemParams]
+  );
+
+  // Percent series for the CB% / discount% chart
+  const ratesData = useMemo(
+    () =>
+      simulation.timeline.map((row) => ({
+        period: row.period,
+        cashback: row.CB_percent * 100,
+        discount: row.discount_percent * 100,
+      })),
+    [simulation]
+  );
+
+  // Token price in the display currency
+  const priceData = useMemo(
+    () => simulation.timeline.map((row) => ({ period: row.period, tokenPrice: toDisplay(row.tokenPrice) })),
+    [simulation, toDisplay]
+  );
+
+  // Destinations that received tokens during the run
+  const activePools = REDISTRIBUTION_DESTINATIONS.filter((destination) =>
+    simulation.timeline.some((row) => row.pools[destination] > 0)
+  );
+
+  return (
+    <div className="buyer-calculator">
+      <div className="calculator-header">
+        <h1>{t('simulator.title')}</h1>
+        <p className="description">{t('simulator.description')}</p>
+      </div>
+
+      <div className="calculator-content">
+        <div className="main-sections">
+          <div className="input-section">
+            <h2>{t('simulator.settings')}</h2>
+            {SETTING_FIELDS.map((field) => (
+              <div className="input-group" key={field.key}>
+                <label htmlFor={`sim-${field.key}`}>
+                  {t(`simulator.${field.key}.label`, { currency: currencySymbol(currency.input) })}
+                </label>
+                <input
+                  id={`sim-${field.key}`}
+                  type="number"
+                  min="0"
+                  step={field.step}
+                  value={
+                    field.key === 'purchasePrice'
+                      ? Number(convertFromRub(settings.purchasePrice, currency.input, currency.rates).toFixed(2))
+                      : settings[field.key]
+                  }
+                  onChange={(e) => handleInputChange(field.key, e.target.value)}
+                  className={errors[field.key] ? 'input-error' : ''}
+                />
+                {errors[field.key] && (
+                  <span className="error-message">{errors[field.key]}</span>
+                )}
+                <span className="input-hint">{t(`simulator.${field.key}.hint`)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="results-section">
+            <h2>{t('simulator.results')}</h2>
+            <div className="results-grid">
+              <div className="result-card">
+                <h3>{t('simulator.finalPrice')}</h3>
+                <div className="result-value">{formatMoney(simulation.finalPrice, 4)}</div>
+                <p className="result-description">{t('simulator.finalPriceDescription')}</p>
+              </div>
+              <div className="result-card">
+                <h3>{t('simulator.circulating')}</h3>
+                <div className="result-value">{formatNumber(simulation.finalCirculatingSupply)}</div>
+                <p className="result-description">{t('simulator.circulatingDescription')}</p>
+              </div>
+              <div className="result-card">
+                <h3>{t('simulator.burned')}</h3>
+                <div className="result-value">{formatNumber(simulation.cumulativeBurned)}</div>
+                <p className="result-description">{t('simulator.burnedDescription')}</p>
+              </div>
+              <div className="result-card">
+                <h3>{simulation.supplyChange >= 0 ? t('simulator.inflation') : t('simulator.deflation')}</h3>
+                <div className="result-value">{formatPercent(simulation.supplyChange, 1)}</div>
+                <p className="result-description">{t('simulator.supplyChangeDescription')}</p>
+              </div>
+            </div>
+            <CapWarning mintCutOff={simulation.mintCutOff} burnRejected={simulation.burnRejected} />
+          </div>
+        </div>
+
+        <SystemParamsPanel params={systemParams} onChange={setSystemParams} />
+
+        <ConfigFilePanel
+          config={{ systemParams, simulation: settings }}
+          fileName="supply-simulation"
+          onImport={handleImportConfig}
+        />
+
+        <CurrencyPanel settings={currency} onChange={setCurrency} />
+
+        <TreasuryPanel simulation={simulation} settings={settings} params={systemParams} currency={currency} />
+
+        <div className="charts-section">
+          <h2>{t('simulator.charts')}</h2>
+
+          <div className="chart-container">
+            <h3>{t('simulator.rates')}</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={ratesData} margin={{ top: 10, right: 30, left: 40, bottom: 30 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" label={{ value: t('simulator.period'), position: 'insideBottom', offset: -5 }} />
+                <YAxis unit="%" />
+                <Tooltip formatter={(value) => formatPercent(Number(value) / 100)} />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                <Line type="monotone" dataKey="cashback" stroke="#82ca9d" name="CB%(t)" strokeWidth={2} />
+                <Line type="monotone" dataKey="discount" stroke="#8884d8" name="discount%(t)" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="chart-container">
+            <h3>{t('simulator.tokenPrice')}</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={priceData} margin={{ top: 10, right: 30, left: 40, bottom: 30 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" label={{ value: t('simulator.period'), position: 'insideBottom', offset: -5 }} />
+                <YAxis unit={` ${symbol}`} />
+                <Tooltip />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                <Line type="monotone" dataKey="tokenPrice" stroke="#ff7300" name={t('simulator.tokenPrice')} strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="chart-container">
+            <h3>{t('simulator.supply')}</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={simulation.timeline} margin={{ top: 10, right: 30, left: 40, bottom: 30 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" label={{ value: t('simulator.period'), position: 'insideBottom', offset: -5 }} />
+                <YAxis />
+                <Tooltip />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                <Line type="monotone" dataKey="circulatingSupply" stroke="#8884d8" name={t('simulator.circulatingSeries')} strokeWidth={2} />
+                <Line type="monotone" dataKey="cumulativeBurned" stroke="#ff4444" name={t('simulator.burnedSeries')} strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="chart-container">
+            <h3>{t('simulator.pools')}</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={simulation.timeline} margin={{ top: 10, right: 30, left: 40, bottom: 30 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" label={{ value: t('simulator.period'), position: 'insideBottom', offset: -5 }} />
+                <YAxis />
+                <Tooltip />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                {activePools.map((destination) => (
+                  <Line
+                    key={destination}
+                    type="monotone"
+                    dataKey={`pools.${destination}`}
+                    stroke={POOL_COLORS[destination]}
+                    name={t(`burnDestination.${destination}`)}
+                    strokeWidth={2}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+            <p className="breakdown-note">{t('simulator.poolsNote')}</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { useLocale } from '../i18n/locale';
+import {
+  DEFAULT_SYSTEM_PARAMS,
+  SYSTEM_PARAM_FIELDS,
+  validateSystemParam,
+  type NumericSystemParam,
+  type SystemParams,
+} from '../tokenomics/params';
+import {
+  BUILT_IN_PRESETS,
+  loadSavedPresets,
+  savePresets,
+  type SystemParamsPreset,
+} from '../tokenomics/presets';
+import { isBurnShareParam, validateBurnSplit } from '../tokenomics/burnSplit';
+import { validateCurve } from '../tokenomics/curves';
+import BondingCurveEditor from './BondingCurveEditor';
+import './SystemParamsPanel.css';
+
+interface SystemParamsPanelProps {
+  params: SystemParams;
+  onChange: (params: SystemParams) => void;
+}
+
+export default function SystemParamsPanel({ params, onChange }: SystemParamsPanelProps) {
+  const { locale, t } = useLocale();
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Validation errors state
+  const [errors, setErrors] = useState<Partial<Record<keyof SystemParams, string>>>({});
+
+  // Presets state (built-in + saved in localStorage)
+  const [presets, setPresets] = useState<SystemParamsPreset[]>(() => [
+    ...BUILT_IN_PRESETS,
+    ...loadSavedPresets(),
+  ]);
+  const [selectedPreset, setSelectedPreset] = useState('');
+  const [presetName, setPresetName] = useState('');
+
+  // Handle parameter change with validation
+  const handleParamChange = (field: NumericSystemParam, value: string) => {
+    if (value === '') {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+      return;
+    }
+
+    const numValue = parseFloat(value);
+    const next = { ...params, [field]: numValue };
+    // Burn shares are also checked together, since their sum may not exceed 1,
+    // and P0 against the curve, which may not fall below it
+    const error =
+      validateSystemParam(field, numValue, locale) ||
+      (isBurnShareParam(field) ? validateBurnSplit(next, locale) : null) ||
+      (field === 'P0' ? validateCurve(next.curve, numValue, locale) : null);
+
+    setErrors((prev) => ({ ...prev, [field]: error || undefined }));
+
+    if (!error) {
+      onChange(next);
+    }
+  };
+
+  const handleLoadPreset = (name: string) => {
+    setSelectedPreset(name);
+    const preset = presets.find((p) => p.name === name);
+    if (preset) {
+      setErrors({});
+      onChange({ ...preset.params });
+    }
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name || BUILT_IN_PRESETS.some((p) => p.name === name)) {
+      return;
+    }
+    const next = [
+      ...presets.filter((p) => p.name !== name),
+      { name, params: { ...params } },
+    ];
+    setPresets(next);
+    savePresets(next);
+    setSelectedPreset(name);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    const preset = presets.find((p) => p.name === selectedPreset);
+    if (!preset || preset.builtIn) {
+      return;
+    }
+    const next = presets.filter((p) => p.name !== selectedPreset);
+    setPresets(next);
+    savePresets(next);
+    setSelectedPreset('');
+  };
+
+  const handleReset = () => {
+    setErrors({});
+    setSelectedPreset('');
+    onChange({ ...DEFAULT_SYSTEM_PARAMS });
+  };
+
+  const isBuiltInName = BUILT_IN_PRESETS.some((p) => p.name === presetName.trim());
+  const selected = presets.find((p) => p.name === selectedPreset);
+
+  return (
+    <div className="params-panel">
+      <button
+        type="button"
+        className="params-panel-toggle"
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? '▾' : '▸'} {t('params.toggle')}
+      </button>
+
+      {isOpen && (
+        <div className="params-panel-body">
+          <div className="params-presets">
+            <select
+              value={selectedPreset}
+              onChange={(e) => handleLoadPreset(e.target.value)}
+              aria-label={t('params.preset')}
+            >
+              <option value="">{t('params.presetPlaceholder')}</option>
+              {presets.map((preset) => (
+                <option key={preset.name} value={preset.name}>
+                  {preset.name}
+                  {preset.builtIn ? ` ${t('params.builtIn')}` : ''}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleDeletePreset}
+              disabled={!selected || selected.builtIn}
+            >
+              {t('params.delete')}
+            </button>
+            <input
+              type="text"
+              placeholder={t('params.presetName')}
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+            />
+            <button
+              type="button"
+              onClick={handleSavePreset}
+              disabled={!presetName.trim() || isBuiltInName}
+            >
+              {t('params.save')}
+            </button>
+            <button type="button" onClick={handleReset}>
+              {t('params.reset')}
+            </button>
+          </div>
+
+          <BondingCurveEditor curve={params.curve} P0={params.P0} onChange={(curve) => onChange({ ...params, curve })} />
+
+          <label className="hard-caps-toggle">
+            <input
+              type="checkbox"
+              checked={params.hard_caps}
+              onChange={(e) => onChange({ ...params, hard_caps: e.target.checked })}
+            />
+            {t('params.hardCaps')}
+          </label>
+
+          <div className="params-grid">
+            {SYSTEM_PARAM_FIELDS.map((field) => (
+              <div className="input-group" key={field.key}>
+                <label htmlFor={`param-${field.key}`}>{t(`param.${field.key}.label`)}</label>
+                <input
+                  id={`param-${field.key}`}
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={params[field.key]}
+                  onChange={(e) => handleParamChange(field.key, e.target.value)}
+                  className={errors[field.key] ? 'input-error' : ''}
+                />
+                {errors[field.key] && (
+                  <span className="error-message">{errors[field.key]}</span>
+                )}
+                <span className="input-hint">{t(`param.${field.key}.hint`)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { useLocale } from '../i18n/locale';
+import { useDisplayCurrency } from './useCurrency';
+import type { SystemParams } from '../tokenomics/params';
+import type { SimulationResult, SimulationSettings } from '../tokenomics/simulation';
+import { convertFromRub, convertToRub, type CurrencySettings } from '../tokenomics/currency';
+import {
+  DEFAULT_TREASURY_SETTINGS,
+  runTreasury,
+  validateTreasurySetting,
+  type TreasurySettings,
+} from '../tokenomics/treasury';
+import './SystemParamsPanel.css';
+import './TreasuryPanel.css';
+
+interface TreasuryPanelProps {
+  simulation: SimulationResult;
+  settings: SimulationSettings;
+  params: SystemParams;
+  currency: CurrencySettings;
+}
+
+// Label and hint come from the catalog under treasury.<key>.*
+const TREASURY_FIELDS: { key: keyof TreasurySettings; step: number }[] = [
+  { key: 'initialReserve', step: 1000 },
+  { key: 'fundingRate', step: 0.01 },
+  { key: 'minReserveRatio', step: 0.05 },
+];
+
+export default function TreasuryPanel({ simulation, settings, params, currency }: TreasuryPanelProps) {
+  const { locale, t, formatNumber, formatPercent, formatCurrency, currencySymbol } = useLocale();
+  const { toDisplay, formatMoney, symbol } = useDisplayCurrency(currency);
+  const [enabled, setEnabled] = useState(false);
+  const [treasurySettings, setTreasurySettings] = useState<TreasurySettings>(DEFAULT_TREASURY_SETTINGS);
+  const [errors, setErrors] = useState<Partial<Record<keyof TreasurySettings, string>>>({});
+
+  // Handle setting change with validation
+  const handleSettingChange = (field: keyof TreasurySettings, value: string) => {
+    if (value === '') {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+      return;
+    }
+
+    // The initial reserve is entered in the input currency and kept in rubles
+    const parsed = parseFloat(value);
+    const numValue = field === 'initialReserve' ? convertToRub(parsed, currency.input, currency.rates) : parsed;
+    const error = validateTreasurySetting(field, numValue, locale);
+
+    setErrors((prev) => ({ ...prev, [field]: error || undefined }));
+
+    if (!error) {
+      setTreasurySettings((prev) => ({ ...prev, [field]: numValue }));
+    }
+  };
+
+  const treasury = useMemo(
+    () => (enabled ? runTreasury(simulation, settings, params, treasurySettings) : null),
+    [enabled, simulation, settings, params, treasurySettings]
+  );
+
+  // Reserve and obligations in the display currency
+  const reserveData = useMemo(
+    () =>
+      treasury
+        ? treasury.timeline.map((row) => ({
+            period: row.period,
+            reserve: toDisplay(row.reserve),
+            requiredReserve: toDisplay(row.requiredReserve),
+          }))
+        : [],
+    [treasury, toDisplay]
+  );
+
+  // Reserve ratio in percent for the coverage chart
+  const ratioData = useMemo(
+    () =>
+      treasury
+        ? treasury.timeline.map((row) => ({
+            period: row.period,
+            ratio: isFinite(row.reserveRatio) ? row.reserveRatio * 100 : null,
+          }))
+        : [],
+    [treasury]
+  );
+
+  return (
+    <div className="params-panel">
+      <label className="panel-toggle">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        {t('treasury.toggle')}
+      </label>
+
+      {enabled && treasury && (
+        <div className="params-panel-body">
+          <div className="params-grid">
+            {TREASURY_FIELDS.map((field) => (
+              <div className="input-group" key={field.key}>
+                <label htmlFor={`treasury-${field.key}`}>
+                  {t(`treasury.${field.key}.label`, { currency: currencySymbol(currency.input) })}
+                </label>
+                <input
+                  id={`treasury-${field.key}`}
+                  type="number"
+                  min="0"
+                  step={field.step}
+                  value={
+                    field.key === 'initialReserve'
+                      ? Number(convertFromRub(treasurySettings.initialReserve, currency.input, currency.rates).toFixed(2))
+                      : treasurySettings[field.key]
+                  }
+                  onChange={(e) => handleSettingChange(field.key, e.target.value)}
+                  className={errors[field.key] ? 'input-error' : ''}
+                />
+                {errors[field.key] && <span className="error-message">{errors[field.key]}</span>}
+                <span className="input-hint">{t(`treasury.${field.key}.hint`)}</span>
+              </div>
+            ))}
+          </div>
+
+          {treasury.insolventPeriod !== null ? (
+            <div className="treasury-warning">
+              <strong>{t('treasury.insolvent')}</strong>{' '}
+              {t('treasury.insolventText', { period: treasury.insolventPeriod })}
+            </div>
+          ) : treasury.undercollateralizedPeriod !== null ? (
+            <div className="treasury-warning">
+              <strong>{t('treasury.undercollateralized')}</strong>{' '}
+              {t('treasury.undercollateralizedText', {
+                period: treasury.undercollateralizedPeriod,
+                ratio: formatPercent(treasury.minReserveRatio, 1),
+                threshold: formatPercent(treasurySettings.minReserveRatio, 0),
+              })}
+            </div>
+          ) : (
+            <div className="treasury-warning ok">{t('treasury.ok')}</div>
+          )}
+
+          <div className="results-grid">
+            <div className="result-card">
+              <h3>{t('treasury.finalReserve')}</h3>
+              <div className="result-value">{formatMoney(treasury.finalReserve)}</div>
+              <p className="result-description">{t('treasury.finalReserveDescription')}</p>
+            </div>
+            <div className="result-card">
+              <h3>{t('treasury.minCoverage')}</h3>
+              <div className="result-value">
+                {isFinite(treasury.minReserveRatio) ? formatPercent(treasury.minReserveRatio, 1) : '—'}
+              </div>
+              <p className="result-description">{t('treasury.minCoverageDescription')}</p>
+            </div>
+          </div>
+
+          <div className="chart-container">
+            <h3>{t('treasury.chart')}</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={reserveData} margin={{ top: 10, right: 30, left: 40, bottom: 30 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" label={{ value: t('treasury.period'), position: 'insideBottom', offset: -5 }} />
+                <YAxis unit={` ${symbol}`} />
+                <Tooltip formatter={(value) => formatCurrency(Number(value), currency.display)} />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                <Line type="monotone" dataKey="reserve" stroke="#82ca9d" name={t('treasury.reserve')} strokeWidth={2} />
+                <Line type="monotone" dataKey="requiredReserve" stroke="#ff4444" name={t('treasury.required')} strokeWidth={2} />
+                <ReferenceLine y={0} stroke="#213547" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="chart-container">
+            <h3>{t('treasury.coverageChart')}</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={ratioData} margin={{ top: 10, right: 30, left: 40, bottom: 30 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" label={{ value: t('treasury.period'), position: 'insideBottom', offset: -5 }} />
+                <YAxis unit="%" />
+                <Tooltip formatter={(value) => `${formatNumber(Number(value), 1)}%`} />
+                <Line type="monotone" dataKey="ratio" stroke="#8884d8" name={t('treasury.coverage')} strokeWidth={2} />
+                <ReferenceLine y={treasurySettings.minReserveRatio * 100} stroke="#ff4444" strokeDasharray="4 4" label={t('treasury.threshold')} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
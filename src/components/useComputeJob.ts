@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from 'react';
+import { useLocale } from '../i18n/locale';
+import {
+  runComputeJob,
+  type ComputeJobOf,
+  type ComputeJobType,
+  type ComputeRequest,
+  type ComputeResponse,
+  type ComputeResults,
+} from '../tokenomics/computeJobs';
+
+export interface ComputeState<R> {
+  result: R | null; // Last finished result, kept while a newer job runs
+  progress: number; // 0-1 for the running job
+  running: boolean;
+  error: string | null;
+}
+
+const createWorker = () =>
+  new Worker(new URL('../tokenomics/compute.worker.ts', import.meta.url), { type: 'module' });
+
+// Quiet time before a changed job starts, long enough to span a slider drag step
+export const COMPUTE_DEBOUNCE_MS = 250;
+
+let nextRequestId = 1;
+
+// Run a heavy job in a Web Worker.
+// A job starts once it has stayed unchanged for `delay` ms, so dragging a slider queues
+// a single run. A job that changes while running is cancelled by terminating the worker,
+// which is recreated for the next job. Pass null to skip computing.
+export const useComputeJob = <T extends ComputeJobType>(
+  job: ComputeJobOf<T> | null,
+  delay = COMPUTE_DEBOUNCE_MS
+): ComputeState<ComputeResults[T]> => {
+  const [state, setState] = useState<ComputeState<ComputeResults[T]>>({
+    result: null,
+    progress: 0,
+    running: false,
+    error: null,
+  });
+  const workerRef = useRef<Worker | null>(null);
+
+  // Read from the worker's error handlers, so a locale change does not restart the job
+  const { t } = useLocale();
+  const workerFailedRef = useRef(t('compute.workerFailed'));
+  workerFailedRef.current = t('compute.workerFailed');
+
+  // Jobs are plain data, so their JSON identifies them across renders
+  const key = job ? JSON.stringify(job) : null;
+
+  useEffect(() => {
+    if (key === null) {
+      return;
+    }
+    const request: ComputeRequest = { id: nextRequestId++, job: JSON.parse(key) };
+    let started = false;
+    let finished = false;
+
+    const timer = setTimeout(() => {
+      started = true;
+      setState((prev) => ({ ...prev, progress: 0, running: true, error: null }));
+
+      // Without worker support run on the main thread
+      if (typeof Worker === 'undefined') {
+        try {
+          const result = runComputeJob(request.job as ComputeJobOf<T>);
+          setState({ result, progress: 1, running: false, error: null });
+        } catch (error) {
+          setState((prev) => ({ ...prev, running: false, error: (error as Error).message }));
+        }
+        finished = true;
+        return;
+      }
+
+      const worker = workerRef.current ?? createWorker();
+      workerRef.current = worker;
+      worker.onmessage = (event: MessageEvent<ComputeResponse>) => {
+        const response = event.data;
+        if (response.id !== request.id) {
+          return;
+        }
+        switch (response.type) {
+          case 'progress':
+            setState((prev) => ({ ...prev, progress: response.progress }));
+            break;
+          case 'result':
+            finished = true;
+            setState({ result: response.result as ComputeResults[T], progress: 1, running: false, error: null });
+            break;
+          case 'error':
+            finished = true;
+            setState((prev) => ({ ...prev, running: false, error: response.message }));
+            break;
+        }
+      };
+      // A worker that fails to load or throws outside a job, or a reply that cannot be
+      // deserialized, ends the job; the broken worker is dropped and recreated next time
+      const fail = (message: string) => {
+        finished = true;
+        worker.terminate();
+        if (workerRef.current === worker) {
+          workerRef.current = null;
+        }
+        setState((prev) => ({ ...prev, running: false, error: message }));
+      };
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        fail(event.message || workerFailedRef.current);
+      };
+      worker.onmessageerror = () => fail(workerFailedRef.current);
+      worker.postMessage(request);
+    }, delay);
+
+    return () => {
+      clearTimeout(timer);
+      // A job still running is cancelled; an idle worker is kept for the next one
+      if (started && !finished && workerRef.current) {
+        workerRef.current.terminate();
+        workerRef.current = null;
+        setState((prev) => ({ ...prev, running: false }));
+      }
+    };
+  }, [key, delay]);
+
+  // Stop the worker when the component goes away
+  useEffect(
+    () => () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    },
+    []
+  );
+
+  return state;
+};
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useLocale } from '../i18n/locale';
+import {
+  convertFromRub,
+  loadCurrencySettings,
+  saveCurrencySettings,
+  type CurrencySettings,
+} from '../tokenomics/currency';
+
+// Currency settings of a page, loaded from and saved to localStorage so every page shares them
+export const useCurrencySettings = (): [CurrencySettings, (settings: CurrencySettings) => void] => {
+  const [settings, setSettings] = useState<CurrencySettings>(loadCurrencySettings);
+
+  useEffect(() => {
+    saveCurrencySettings(settings);
+  }, [settings]);
+
+  return [settings, setSettings];
+};
+
+// Ruble amounts in the display currency; the engine itself works in rubles
+export const useDisplayCurrency = (settings: CurrencySettings) => {
+  const { formatCurrency, currencySymbol } = useLocale();
+
+  const toDisplay = useCallback(
+    (rub: number) => convertFromRub(rub, settings.display, settings.rates),
+    [settings]
+  );
+  const formatMoney = (rub: number, digits?: number) => formatCurrency(toDisplay(rub), settings.display, digits);
+
+  return { toDisplay, formatMoney, symbol: currencySymbol(settings.display) };
+};
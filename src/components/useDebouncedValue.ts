@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { COMPUTE_DEBOUNCE_MS } from './useComputeJob';
+
+// A value that follows `value` once it has stayed unchanged for `delay` ms,
+// so computations keyed on it run once per slider drag instead of on every step
+export const useDebouncedValue = <T>(value: T, delay = COMPUTE_DEBOUNCE_MS): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+};
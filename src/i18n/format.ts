@@ -0,0 +1,66 @@
+import { LOCALES, MESSAGES, type Locale, type MessageKey } from './messages';
+
+const LOCALE_STORAGE_KEY = 'tokenomics.locale';
+
+export const DEFAULT_LOCALE: Locale = 'ru';
+
+// Catalog message with {name} placeholders filled in
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  values: Record<string, string | number> = {}
+): string =>
+  MESSAGES[locale][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match
+  );
+
+// Fixed number of fraction digits, like toFixed, with the locale's separators
+export const formatNumber = (value: number, locale: Locale, digits = 2): string =>
+  value.toLocaleString(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+// Up to `digits` significant digits, for values whose scale is not known in advance
+export const formatSignificant = (value: number, locale: Locale, digits = 6): string =>
+  value.toLocaleString(locale, { maximumSignificantDigits: digits });
+
+// Share (0-1) as a percentage
+export const formatPercent = (share: number, locale: Locale, digits = 2): string =>
+  share.toLocaleString(locale, {
+    style: 'percent',
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  });
+
+// Money amount in an ISO 4217 currency, with the symbol placed the way the locale writes it
+export const formatCurrency = (value: number, locale: Locale, currency = 'RUB', digits = 2): string =>
+  value.toLocaleString(locale, {
+    style: 'currency',
+    currency,
+    currencyDisplay: 'narrowSymbol',
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  });
+
+// Currency symbol as the locale writes it
+export const currencySymbol = (locale: Locale, currency = 'RUB'): string =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency, currencyDisplay: 'narrowSymbol' })
+    .formatToParts(0)
+    .find((part) => part.type === 'currency')?.value ?? currency;
+
+// Load the saved locale, falling back to the default
+export const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    return LOCALES.find((locale) => locale === saved) ?? DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+// Persist the chosen locale
+export const saveLocale = (locale: Locale): void => {
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // Storage may be unavailable (private mode, quota) - the choice lasts for the session
+  }
+};
@@ -0,0 +1,37 @@
+import { createContext, useContext } from 'react';
+import {
+  DEFAULT_LOCALE,
+  currencySymbol,
+  formatCurrency,
+  formatNumber,
+  formatPercent,
+  formatSignificant,
+  translate,
+} from './format';
+import type { Locale, MessageKey } from './messages';
+
+export interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+}
+
+export const LocaleContext = createContext<LocaleContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+});
+
+// Current locale with translation and formatting bound to it
+export const useLocale = () => {
+  const { locale, setLocale } = useContext(LocaleContext);
+  return {
+    locale,
+    setLocale,
+    t: (key: MessageKey, values?: Record<string, string | number>) => translate(locale, key, values),
+    formatNumber: (value: number, digits?: number) => formatNumber(value, locale, digits),
+    formatSignificant: (value: number, digits?: number) => formatSignificant(value, locale, digits),
+    formatPercent: (share: number, digits?: number) => formatPercent(share, locale, digits),
+    currencySymbol: (currency?: string) => currencySymbol(locale, currency),
+    formatCurrency: (value: number, currency?: string, digits?: number) =>
+      formatCurrency(value, locale, currency, digits),
+  };
+};
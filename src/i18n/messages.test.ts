@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { LOCALES, MESSAGES } from './messages';
+import { translate } from './format';
+
+const placeholders = (message: string): string[] => [...message.matchAll(/\{(\w+)\}/g)].map((m) => m[1]).sort();
+
+describe('message catalogs', () => {
+  const sourceKeys = Object.keys(MESSAGES.ru).sort();
+
+  it.each(LOCALES)('%s has exactly the keys of the Russian catalog', (locale) => {
+    const keys = Object.keys(MESSAGES[locale]).sort();
+    expect(sourceKeys.filter((key) => !keys.includes(key))).toEqual([]);
+    expect(keys.filter((key) => !sourceKeys.includes(key))).toEqual([]);
+  });
+
+  it.each(LOCALES)('%s has no empty messages', (locale) => {
+    const empty = Object.entries(MESSAGES[locale])
+      .filter(([, message]) => message.trim() === '')
+      .map(([key]) => key);
+    expect(empty).toEqual([]);
+  });
+
+  it.each(LOCALES)('%s uses the same placeholders as the Russian catalog', (locale) => {
+    const mismatched = Object.entries(MESSAGES.ru)
+      .filter(([key, message]) => {
+        const translated = MESSAGES[locale][key as keyof typeof MESSAGES.ru];
+        return placeholders(translated).join() !== placeholders(message).join();
+      })
+      .map(([key]) => key);
+    expect(mismatched).toEqual([]);
+  });
+});
+
+describe('translate', () => {
+  it('fills placeholders and leaves unknown ones as written', () => {
+    expect(translate('en', 'validation.range', { min: 0, max: 1 })).not.toMatch(/\{(min|max)\}/);
+    expect(translate('en', 'validation.range', { min: 0 })).toContain('{max}');
+  });
+});
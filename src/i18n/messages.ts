@@ -0,0 +1,1294 @@
+// Translation catalogs.
+// The Russian catalog is the source of keys; every other catalog is typed as
+// Record<MessageKey, string>, so a missing or unknown key fails the type check.
+// Placeholders in braces ({name}) are filled in by translate().
+
+export type Locale = 'ru' | 'en';
+
+export const LOCALES: Locale[] = ['ru', 'en'];
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  ru: 'Русский',
+  en: 'English',
+};
+
+const ru = {
+  'nav.buyer': 'Покупатель (B2C)',
+  'nav.seller': 'Продавец (B2B)',
+  'nav.simulator': 'Симулятор эмиссии',
+  'nav.compare': 'Сравнение сценариев',
+  'nav.parameters': 'Параметры',
+  'nav.language': 'Язык',
+
+  'inputs.error.purchasePrice': 'Цена покупки должна быть положительным числом',
+  'inputs.error.numberOfPurchases': 'Количество покупок должно быть целым числом не менее 1',
+  'inputs.error.period': 'Период должен быть неотрицательным числом',
+  'inputs.error.reviewQuality': 'Качество отзывов должно быть числом от 0 до 1',
+  'inputs.error.returnProbability': 'Вероятность возврата должна быть числом от 0 до 1',
+
+  'burnDestination.destroyed': 'Уничтожено',
+  'burnDestination.sellers': 'Продавцам',
+  'burnDestination.treasury': 'В казну',
+  'burnDestination.staking': 'В пул стейкинга',
+  'burnDestination.referral': 'В реферальный пул',
+
+  'curve.linear': 'Линейная',
+  'curve.quadratic': 'Квадратичная',
+  'curve.exponential': 'Экспоненциальная',
+  'curve.sigmoid': 'Сигмоида',
+  'curve.piecewise': 'Кусочная по точкам',
+
+  'buyer.title': 'Калькулятор токеномики для покупателей (B2C)',
+  'buyer.description':
+    'Этот калькулятор поможет вам рассчитать количество токенов, которые вы получите за покупки (эмиссия) и сможете использовать для получения скидок (утилизация).',
+  'buyer.inputs.title': 'Параметры ваших действий',
+  'buyer.inputs.description': 'Введите данные о ваших покупках и активности на платформе:',
+  'buyer.purchasePrice.label': 'Цена покупки ({currency})',
+  'buyer.purchasePrice.hint': 'Средняя стоимость одной покупки',
+  'buyer.numberOfPurchases.label': 'Количество покупок',
+  'buyer.numberOfPurchases.hint': 'Сколько покупок вы планируете совершить',
+  'buyer.period.label': 'Период (время с момента запуска)',
+  'buyer.period.hint': 'Временной период с момента запуска платформы (в условных единицах)',
+  'buyer.reviewQuality.label': 'Качество отзывов (0-1)',
+  'buyer.reviewQuality.hint': 'Оценка качества ваших отзывов (0 = плохо, 1 = отлично)',
+  'buyer.returnProbability.label': 'Вероятность возврата (0-1)',
+  'buyer.returnProbability.hint':
+    'Вероятность возврата товара (0 = никогда не возвращаете, 1 = всегда возвращаете)',
+
+  'buyer.results.title': 'Результаты расчетов',
+  'buyer.results.copyLink': 'Скопировать ссылку',
+  'buyer.results.linkCopied': 'Ссылка скопирована',
+  'buyer.results.minted': 'Эмиссия токенов',
+  'buyer.results.mintedDescription': 'Количество токенов, которые вы получите за ваши покупки',
+  'buyer.results.tokenPrice': 'Цена токена',
+  'buyer.results.tokenPriceDescription': 'Текущая цена токена на основе bonding curve',
+  'buyer.results.burned': 'Утилизация токенов',
+  'buyer.results.burnedDescription': 'Количество токенов, которые вы потратите на скидки и доступ',
+  'buyer.results.net': 'Чистый баланс',
+  'buyer.results.netDescription': 'Итоговое количество токенов после эмиссии и утилизации',
+  'buyer.burnMechanism': 'Механизм сжигания токенов',
+
+  'buyer.pricing.title': 'Цена по bonding curve',
+  'buyer.pricing.spotOption': 'Спот-цена',
+  'buyer.pricing.integralOption': 'Интеграл по кривой',
+  'buyer.pricing.spot': 'Спот',
+  'buyer.pricing.integral': 'Интеграл',
+  'buyer.pricing.difference': 'Разница',
+
+  'buyer.scenario.namePlaceholder': 'Название сценария',
+  'buyer.scenario.save': 'Сохранить сценарий',
+  'buyer.scenario.saved': 'Сценарий сохранён — перейти к сравнению',
+
+  'buyer.breakdown.title': 'Промежуточные шаги расчёта',
+  'buyer.breakdown.hint': 'Нажмите на строку, чтобы увидеть формулу с подставленными значениями.',
+  'buyer.breakdown.mint': 'Эмиссия (mint)',
+  'buyer.breakdown.period': 'Период t:',
+  'buyer.breakdown.cashback': 'Кэшбек CB%(t):',
+  'buyer.breakdown.quality': 'Коэффициент качества QF:',
+  'buyer.breakdown.dfFirst': 'DF (первая покупка):',
+  'buyer.breakdown.dfLast': 'DF (последняя покупка):',
+  'buyer.breakdown.mintedPerPurchase': 'Эмиссия / покупка:',
+  'buyer.breakdown.capUsage': 'Использование лимита пользователя:',
+  'buyer.breakdown.mintCutOff': 'Не выпущено из-за user_cap:',
+  'buyer.breakdown.burn': 'Утилизация (burn)',
+  'buyer.breakdown.discountPercent': 'Процент скидки:',
+  'buyer.breakdown.discountRub': 'Скидка (всего):',
+  'buyer.breakdown.discountTokens': 'Сжигание за скидку (токены):',
+  'buyer.breakdown.burnRejected': 'Отклонено из-за burn_cap (токены):',
+  'buyer.breakdown.accessFee': 'Плата за доступ (токены):',
+  'buyer.breakdown.totalBurned': 'Итого сжигание (токены):',
+  'buyer.breakdown.interpretation': 'Интерпретация',
+  'buyer.breakdown.netValue': 'Чистая стоимость:',
+  'buyer.breakdown.effectiveCashback': 'Эффективный кэшбек:',
+  'buyer.breakdown.effectiveDiscount': 'Эффективная "стоимость" утилизации:',
+  'buyer.breakdown.assumptions': 'Допущения',
+  'buyer.breakdown.initialMinted': 'Начальная глобальная эмиссия:',
+  'buyer.breakdown.segmentUsers': 'Пользователей в сегментах:',
+  'buyer.breakdown.assumedUsers': 'Предполагаемое количество пользователей:',
+  'buyer.breakdown.marketBurnShare': 'Доля сжигания рынка:',
+  'buyer.breakdown.assumedBurnRate': 'Предполагаемый процент сжигания:',
+  'buyer.breakdown.finalMinted': 'Глобальная эмиссия после:',
+  'buyer.breakdown.note':
+    'Промежуточные коэффициенты показывают, какие факторы влияют на эмиссию и утилизацию: cashback и качество увеличивают mint, а высокая цена токена по bonding curve уменьшает mint и увеличивает стоимость утилизации в токенах.',
+
+  'formula.toggle': 'Показать формулу',
+  'formula.params': 'Параметры в справочнике:',
+
+  'buyer.charts.title': 'Визуализация',
+  'buyer.charts.curve': 'Bonding Curve (цена токена)',
+  'buyer.charts.rangeFrom': 'Эмиссия от',
+  'buyer.charts.rangeTo': 'до',
+  'buyer.charts.totalMinted': 'Общее количество заминченных токенов',
+  'buyer.charts.tokenPrice': 'Цена токена ({currency})',
+  'buyer.charts.currentCurve': 'Цена токена ({curve})',
+  'buyer.charts.currentMinted': 'Текущая эмиссия',
+  'buyer.charts.burnDistribution': 'Распределение сжигания токенов',
+  'buyer.charts.initialMinted': 'Эмиссия до покупок',
+  'buyer.charts.priceImpact':
+    'Эмиссия покупателя и рынка поднимает цену токена с {before} до {after} ({change}).',
+  'buyer.charts.df': 'Убывающая отдача DF',
+  'buyer.charts.userMinted': 'Эмиссия пользователя (токены)',
+  'buyer.charts.dfCurve': 'DF до user_cap',
+  'buyer.charts.dfBuyer': 'Ваши покупки: DF {first} → {last}',
+  'buyer.charts.rates': 'Кэшбек и скидка по периодам',
+  'buyer.charts.period': 'Период t',
+  'buyer.charts.cashback': 'Кэшбек CB%(t)',
+  'buyer.charts.discount': 'Скидка discount%(t)',
+  'buyer.charts.currentPeriod': 'Текущий период',
+
+  'validation.number': 'Значение должно быть числом',
+  'validation.nonNegative': 'Значение должно быть неотрицательным числом',
+  'validation.greaterThan': 'Значение должно быть больше {min}',
+  'validation.atLeast': 'Значение должно быть не меньше {min}',
+  'validation.range': 'Значение должно быть от {min} до {max}',
+  'validation.share': 'Значение должно быть числом от 0 до 1',
+  'validation.wholeAtLeastOne': 'Значение должно быть целым числом не менее 1',
+  'validation.boolean': 'Значение должно быть true или false',
+  'param.CB_base.label': 'Базовый кэшбек CB_base',
+  'param.CB_base.hint': 'Доля от цены покупки (0-1)',
+  'param.CB_base.description':
+    'Доля цены покупки, возвращаемая покупателю токенами в момент запуска платформы. Со временем уменьшается со скоростью α.',
+  'param.alpha.label': 'Деградация кэшбека α',
+  'param.alpha.hint': 'Снижение кэшбека за период',
+  'param.alpha.description':
+    'Насколько кэшбек снижается за каждый период после запуска. При α = 0.01 кэшбек теряет 1% своей базовой величины за период.',
+  'param.beta.label': 'Коэффициент качества β',
+  'param.beta.hint': 'Вес качества отзывов в QF',
+  'param.beta.description':
+    'Максимальная надбавка к эмиссии за качественные отзывы и отсутствие возвратов. При β = 0.3 идеальный покупатель получает на 30% больше токенов.',
+  'param.gamma.label': 'Убывающая отдача γ',
+  'param.gamma.hint': 'Скорость затухания DF',
+  'param.gamma.description':
+    'Скорость, с которой эмиссия для одного пользователя затухает по мере приближения к user_cap.',
+  'param.P0.label': 'Начальная цена токена P0',
+  'param.P0.hint': 'Цена токена при нулевой эмиссии (₽)',
+  'param.P0.description': 'Цена токена в рублях при нулевой глобальной эмиссии — нижняя точка bonding curve.',
+  'param.k.label': 'Коэффициент bonding curve k',
+  'param.k.hint': 'Крутизна кривой цены',
+  'param.k.description':
+    'Крутизна bonding curve: чем больше k, тем быстрее растёт цена токена с ростом глобальной эмиссии S.',
+  'param.discount_base.label': 'Базовая скидка discount_base',
+  'param.discount_base.hint': 'Доля от цены покупки (0-1)',
+  'param.discount_base.description':
+    'Доля цены покупки, которую можно оплатить токенами при нулевом годовом сжигании.',
+  'param.theta.label': 'Деградация скидки θ',
+  'param.theta.hint': 'Снижение скидки при росте сжигания',
+  'param.theta.description':
+    'Насколько скидка уменьшается по мере того, как годовое сжигание B приближается к burn_cap.',
+  'param.burn_cap.label': 'Лимит сжигания burn_cap',
+  'param.burn_cap.hint': 'Токенов в год',
+  'param.burn_cap.description':
+    'Ориентир годового объёма сжигания в токенах, относительно которого нормируется снижение скидки.',
+  'param.access_fee.label': 'Плата за доступ access_fee',
+  'param.access_fee.hint': 'Фиксированная плата в токенах',
+  'param.access_fee.description':
+    'Фиксированная плата в токенах за доступ к платформе, списывается независимо от цены токена.',
+  'param.user_cap.label': 'Лимит пользователя user_cap',
+  'param.user_cap.hint': 'Токенов на пользователя',
+  'param.user_cap.description':
+    'Ориентир объёма токенов на одного пользователя, относительно которого нормируется убывающая отдача.',
+  'param.t_launch.label': 'Время запуска t_launch',
+  'param.t_launch.hint': 'Период запуска платформы',
+  'param.t_launch.description':
+    'Номер периода, в котором запускается платформа; от него отсчитывается снижение кэшбека.',
+  'param.burn_sellers.label': 'Доля сжигания продавцам',
+  'param.burn_sellers.hint': 'Доля утилизации (0-1)',
+  'param.burn_sellers.description':
+    'Часть утилизированных покупателями токенов, которая перераспределяется продавцам. Не перераспределённые токены уничтожаются.',
+  'param.burn_treasury.label': 'Доля сжигания в казну',
+  'param.burn_treasury.hint': 'Доля утилизации (0-1)',
+  'param.burn_treasury.description':
+    'Часть утилизированных токенов, которая остаётся у платформы в казне и не требует обеспечения резервом.',
+  'param.burn_staking.label': 'Доля сжигания в пул стейкинга',
+  'param.burn_staking.hint': 'Доля утилизации (0-1)',
+  'param.burn_staking.description':
+    'Часть утилизированных токенов, которая пополняет пул вознаграждений за стейкинг.',
+  'param.burn_referral.label': 'Доля сжигания в реферальный пул',
+  'param.burn_referral.hint': 'Доля утилизации (0-1)',
+  'param.burn_referral.description':
+    'Часть утилизированных токенов, которая идёт на реферальные вознаграждения.',
+  'burnSplit.error.total': 'Сумма долей перераспределения не может превышать 1',
+
+  'curve.error.object': 'Кривая должна быть объектом',
+  'curve.error.slope': 'Наклон должен быть неотрицательным числом',
+  'curve.error.rate': 'Скорость роста должна быть неотрицательным числом',
+  'curve.error.maxPrice': 'Максимальная цена должна быть больше 0',
+  'curve.error.maxPriceBelowP0': 'Максимальная цена не может быть ниже P0: цена должна расти с эмиссией',
+  'curve.error.midpoint': 'Середина должна быть неотрицательным числом',
+  'curve.error.steepness': 'Крутизна должна быть больше 0',
+  'curve.error.points': 'Нужно не менее двух точек',
+  'curve.error.point': 'Точка {index}: x должен быть неотрицательным, цена — больше 0',
+  'curve.error.pointOrder': 'Точка {index}: x должен возрастать',
+  'curve.error.pointPrice': 'Точка {index}: цена не должна убывать',
+  'curve.error.shape': 'Форма кривой должна быть одной из: {shapes}',
+
+  'input.purchasePrice': 'Цена покупки',
+  'input.numberOfPurchases': 'Количество покупок',
+  'input.period': 'Период',
+  'input.reviewQuality': 'Качество отзывов',
+  'input.returnProbability': 'Вероятность возврата',
+  'goal.metric.netTokens': 'Чистый баланс (токены)',
+  'goal.metric.netValueRub': 'Чистая стоимость ({currency})',
+  'goal.metric.tokenPrice': 'Цена токена ({currency})',
+  'goal.metric.capUsage': 'Использование лимита пользователя',
+  'staking.funding.burns': 'Доля сжигания (burn_staking)',
+  'staking.funding.emission': 'Доля эмиссии',
+  'staking.error.termPeriods': 'Срок должен быть целым числом не менее 1',
+  'distribution.error.uniform': 'Границы должны быть неотрицательными, min ≤ max',
+  'distribution.error.normal': 'Среднее и отклонение должны быть неотрицательными',
+  'treasury.error.initialReserve': 'Начальный резерв должен быть неотрицательным числом',
+  'seller.error.gmv': 'GMV должен быть неотрицательным числом',
+  'seller.error.orderCount': 'Количество заказов должно быть целым числом не менее 1',
+  'seller.error.returnRate': 'Доля возвратов должна быть числом от 0 до 1',
+  'seller.error.discountedShare': 'Доля заказов со скидкой должна быть числом от 0 до 1',
+  'seller.error.periods': 'Количество периодов должно быть целым числом не менее 1',
+  'population.error.count': 'Количество должно быть целым неотрицательным числом',
+  'population.error.purchasesPerPeriod': 'Частота покупок должна быть целым числом не менее 1',
+  'schedule.error.amount': 'Сумма покупки должна быть неотрицательным числом',
+  'schedule.error.returnRate': 'Доля возвратов должна быть числом от 0 до 1',
+  'schedule.error.returned': 'Признак возврата должен быть 1/0 или да/нет',
+  'schedule.error.ambiguousNumber': 'Число «{value}» неоднозначно: уберите разделители разрядов или лишние запятые',
+  'schedule.error.line': 'Строка {line}: {errors}',
+  'currency.error.rub': 'Курс рубля всегда равен 1',
+  'currency.error.rate': 'Курс должен быть положительным числом',
+  'currency.error.rateNumber': 'Курс должен быть числом',
+  'currency.error.json': 'Не удалось разобрать JSON: {message}',
+  'currency.error.object': 'Файл должен содержать объект с курсами',
+  'currency.error.unknown': '{currency}: неизвестная валюта',
+  'monteCarlo.error.trials': 'Количество испытаний должно быть целым числом от 1 до 100000',
+  'monteCarlo.error.seed': 'Seed должен быть целым числом',
+  'monteCarlo.error.spread': 'Разброс должен быть числом от 0 до 1',
+  'config.error.section': 'Раздел должен быть объектом',
+  'config.error.unknownField': 'Неизвестное поле',
+  'config.error.distribution': 'Распределение должно быть одним из: {distributions}',
+  'config.error.version': 'Версия схемы должна быть целым неотрицательным числом',
+  'config.error.versionTooNew': 'Файл создан для версии схемы {version}, поддерживается до {supported}',
+  'config.error.parse': 'Не удалось разобрать {format}: {message}',
+  'config.error.object': 'Файл должен содержать объект',
+  'config.error.name': 'Название должно быть строкой',
+  'config.error.read': 'Не удалось прочитать {file}: {message}',
+
+  'params.toggle': 'Расширенные параметры системы',
+  'params.preset': 'Пресет параметров',
+  'params.presetPlaceholder': '— Выберите пресет —',
+  'params.builtIn': '(встроенный)',
+  'params.delete': 'Удалить',
+  'params.presetName': 'Название пресета',
+  'params.save': 'Сохранить',
+  'params.reset': 'Сбросить к умолчаниям',
+  'params.hardCaps':
+    'Жёсткие лимиты: эмиссия останавливается на user_cap, сжигание сверх burn_cap за год отклоняется',
+
+  'docs.title': 'Параметры системы',
+  'docs.description':
+    'Справочник по параметрам токеномики: что означает каждый параметр, его значение по умолчанию, допустимый диапазон и формула, в которой он используется.',
+  'docs.default': 'По умолчанию:',
+  'docs.range': 'Диапазон:',
+  'docs.formula': 'Формула:',
+  'docs.notUsed': 'Не используется кривой «{curve}»',
+
+  'curveEditor.shape': 'Форма bonding curve:',
+  'curveEditor.quadraticHint': 'P = P0 · (1 + k·x²), k задаётся ниже',
+  'curveEditor.slope.label': 'Наклон',
+  'curveEditor.slope.hint': 'P = P0 · (1 + наклон·x)',
+  'curveEditor.rate.label': 'Скорость роста',
+  'curveEditor.rate.hint': 'P = P0 · e^(скорость·x)',
+  'curveEditor.maxPrice.label': 'Максимальная цена (₽)',
+  'curveEditor.maxPrice.hint': 'К чему стремится цена',
+  'curveEditor.midpoint.label': 'Середина',
+  'curveEditor.midpoint.hint': 'Эмиссия, при которой цена на полпути',
+  'curveEditor.steepness.label': 'Крутизна',
+  'curveEditor.steepness.hint': 'Насколько резок переход',
+  'curveEditor.pointX': 'Эмиссия x',
+  'curveEditor.pointPrice': 'Цена (₽)',
+  'curveEditor.pointXLabel': 'Точка {index}: эмиссия',
+  'curveEditor.pointPriceLabel': 'Точка {index}: цена',
+  'curveEditor.addPoint': 'Добавить точку',
+
+  'cap.userReached': 'Достигнут user_cap:',
+  'cap.mintCutOff': 'не выпущено {tokens} токенов',
+  'cap.purchasesCutOff': '(урезано покупок: {count})',
+  'cap.burnReached': 'Достигнут burn_cap:',
+  'cap.burnRejected': 'отклонено сжигание {tokens} токенов',
+  'cap.purchasesBurnRejected': '(покупок без скидки: {count})',
+  'compute.error': 'Ошибка расчёта: {error}',
+  'compute.running': 'Расчёт… {progress}',
+  'compute.rerunning': 'Пересчёт… {progress}',
+  'compute.workerFailed': 'фоновый расчёт остановился с ошибкой',
+
+  'config.toggle': 'Импорт и экспорт файлов',
+  'config.exportJson': 'Экспорт JSON',
+  'config.exportYaml': 'Экспорт YAML',
+  'config.dropzone': 'Перетащите файл .json, .yaml или .yml сюда или нажмите, чтобы выбрать',
+  'config.imported': 'Загружено из {file}',
+
+  'currency.toggle': 'Валюта и курсы ({currency})',
+  'currency.display': 'Валюта отображения',
+  'currency.input': 'Валюта цены покупки',
+  'currency.reset': 'Сбросить курсы',
+  'currency.rate': '1 {currency} = ₽',
+  'currency.file': 'Загрузить курсы из файла .json, например {example}',
+  'currency.loaded': 'Курсы загружены из {file}',
+  'currency.hint':
+    'Расчёт ведётся в рублях: цена токена и рублёвые показатели пересчитываются в валюту отображения, а цена покупки вводится в своей валюте и переводится в рубли по курсу.',
+
+  'staking.toggle': 'Стейкинг',
+  'staking.lockShare.label': 'Доля баланса в стейкинге (0-1)',
+  'staking.lockShare.hint': 'Часть чистого баланса, которая блокируется',
+  'staking.termPeriods.label': 'Срок блокировки (периодов)',
+  'staking.termPeriods.hint': 'Токены недоступны до конца срока',
+  'staking.periodsPerYear.label': 'Периодов в году',
+  'staking.periodsPerYear.hint': 'На сколько выплат делится годовое сжигание рынка',
+  'staking.participation.label': 'Участие рынка (0-1)',
+  'staking.participation.hint': 'Доля остальных пользователей, которые тоже стейкают',
+  'staking.emissionShare.label': 'Доля эмиссии в пул (0-1)',
+  'staking.emissionShare.hint': 'Используется при финансировании из эмиссии',
+  'staking.funding': 'Источник доходности',
+  'staking.noBurnShare': 'Доля сжигания в пул стейкинга равна 0 — задайте её в расширенных параметрах',
+  'staking.staked': 'В стейкинге',
+  'staking.liquid': 'Свободно: {tokens} токенов',
+  'staking.yield': 'Доходность за срок',
+  'staking.yieldDescription': '{value} · {rate} от суммы в стейкинге',
+  'staking.tokenPrice': 'Цена токена',
+  'staking.tokenPriceDescription': 'Без {tokens} заблокированных токенов (было {price})',
+  'staking.final': 'Баланс после разблокировки',
+  'staking.finalDescription': 'Чистый баланс плюс доходность',
+  'staking.chart': 'Накопленная доходность',
+  'staking.chartPeriod': 'Период блокировки',
+  'staking.chartYield': 'Доходность (токены)',
+  'staking.note':
+    'Пул пополняется каждый период и делится между всеми участниками стейкинга пропорционально заблокированным токенам. Заблокированные токены выводятся из обращения и не влияют на цену по bonding curve.',
+
+  'treasury.toggle': 'Казна и резервы',
+  'treasury.initialReserve.label': 'Начальный резерв ({currency})',
+  'treasury.initialReserve.hint': 'Деньги в казне на момент запуска',
+  'treasury.fundingRate.label': 'Отчисления в резерв (доля)',
+  'treasury.fundingRate.hint': 'Доля оборота покупок, которую платформа переводит в казну',
+  'treasury.minReserveRatio.label': 'Минимальное покрытие (0-1)',
+  'treasury.minReserveRatio.hint': 'Порог, ниже которого резерв считается недостаточным',
+  'treasury.insolvent': 'Платформа неплатёжеспособна',
+  'treasury.insolventText':
+    'с периода {period}: выплаты скидок превышают резерв при текущих параметрах системы.',
+  'treasury.undercollateralized': 'Резерв ниже порога',
+  'treasury.undercollateralizedText':
+    'с периода {period}: покрытие опускается до {ratio} при пороге {threshold}.',
+  'treasury.ok': 'Резерв покрывает обязательства на всём горизонте симуляции.',
+  'treasury.finalReserve': 'Резерв в конце',
+  'treasury.finalReserveDescription': 'Начальный резерв + отчисления − скидки',
+  'treasury.minCoverage': 'Минимальное покрытие',
+  'treasury.minCoverageDescription': 'Резерв к стоимости выкупа токенов в обращении',
+  'treasury.chart': 'Резерв и обязательства',
+  'treasury.period': 'Период',
+  'treasury.reserve': 'Резерв',
+  'treasury.required': 'Стоимость выкупа по кривой',
+  'treasury.coverageChart': 'Коэффициент покрытия',
+  'treasury.coverage': 'Покрытие',
+  'treasury.threshold': 'Порог',
+
+  'goal.toggle': 'Подбор параметра под цель',
+  'goal.metric': 'Целевой показатель',
+  'goal.target': 'Целевое значение',
+  'goal.capUsageHint': 'Доля лимита: 1 = 100%',
+  'goal.variable': 'Подбираемая переменная',
+  'goal.current': 'Текущее значение: {value}',
+  'goal.min': 'Нижняя граница',
+  'goal.max': 'Верхняя граница',
+  'goal.boundsError': 'Нижняя граница должна быть меньше верхней',
+  'goal.method': 'Метод',
+  'goal.method.bisection': 'Бисекция',
+  'goal.method.newton': 'Метод Ньютона',
+  'goal.methodHint': 'Ньютон стартует от текущего значения переменной',
+  'goal.solved': 'даёт «{metric}» = {achieved} (итераций: {iterations})',
+  'goal.status.no-solution':
+    'В заданных границах решения нет: показатель не достигает цели. Ближайшее значение:',
+  'goal.status.no-convergence': 'Метод не сошёлся в заданных границах. Ближайшее найденное значение:',
+  'goal.closest': '{variable} = {value}, «{metric}» = {achieved}',
+  'goal.apply': 'Применить найденное значение',
+
+  'seller.title': 'Калькулятор токеномики для продавцов (B2B)',
+  'seller.description':
+    'Этот калькулятор показывает, сколько токенов продавец получает из перераспределения сжигания покупателей, сколько платит за доступ и какой у него итоговый баланс во времени.',
+  'seller.inputs.title': 'Параметры продаж',
+  'seller.inputs.description': 'Введите данные о ваших продажах за один период:',
+  'seller.gmv.label': 'GMV за период ({currency})',
+  'seller.gmv.hint': 'Общий объём продаж за один период',
+  'seller.orderCount.label': 'Количество заказов',
+  'seller.orderCount.hint': 'Сколько заказов вы получаете за период',
+  'seller.returnRate.label': 'Доля возвратов (0-1)',
+  'seller.returnRate.hint': 'Доля заказов, которые покупатели возвращают',
+  'seller.discountedShare.label': 'Доля заказов со скидкой (0-1)',
+  'seller.discountedShare.hint': 'Доля невозвращённых заказов, оплаченных со скидкой за токены',
+  'seller.periods.label': 'Горизонт расчёта (периодов)',
+  'seller.periods.hint': 'На сколько периодов вперёд строить прогноз',
+  'seller.periodsPerYear.label': 'Периодов в году',
+  'seller.periodsPerYear.hint':
+    'Через сколько периодов обнуляется годовое сжигание рынка, от которого зависит скидка, и снова списывается плата за доступ',
+  'seller.results.title': 'Результаты расчетов',
+  'seller.results.redistributed': 'Перераспределено продавцу',
+  'seller.results.redistributedDescription': 'Токены из сжигания покупателей за весь горизонт',
+  'seller.results.fee': 'Плата за доступ',
+  'seller.results.feeDescription': 'Токены, списанные с продавца за весь горизонт',
+  'seller.results.net': 'Чистый баланс',
+  'seller.results.netDescription': 'Итоговое количество токенов после платы за доступ',
+  'seller.results.netValue': 'Чистая стоимость',
+  'seller.results.netValueDescription': 'Баланс по цене токена в конце горизонта {price}',
+  'seller.period.title': 'Один период',
+  'seller.period.avgOrder': 'Средний чек:',
+  'seller.period.discountedOrders': 'Заказов со скидкой:',
+  'seller.charts.title': 'Визуализация',
+  'seller.charts.position': 'Позиция продавца во времени',
+  'seller.charts.period': 'Период',
+  'seller.charts.tokens': 'Токены',
+  'seller.charts.redistributed': 'Перераспределено за период',
+  'seller.charts.cumulativeTokens': 'Накопленный баланс (токены)',
+  'seller.charts.cumulativeValue': 'Накопленный баланс ({currency})',
+
+  'simulator.title': 'Симулятор глобальной эмиссии',
+  'simulator.description':
+    'Многопериодная симуляция эмиссии, сжигания и цены токена для всей платформы: глобальная эмиссия, годовое сжигание и накопления пользователей переносятся из периода в период.',
+  'simulator.settings': 'Параметры симуляции',
+  'simulator.periods.label': 'Количество периодов',
+  'simulator.periods.hint': 'Сколько периодов симулировать с t_launch',
+  'simulator.periodsPerYear.label': 'Периодов в году',
+  'simulator.periodsPerYear.hint': 'Через сколько периодов обнуляется годовое сжигание',
+  'simulator.users.label': 'Активных покупателей',
+  'simulator.users.hint': 'Количество покупателей на платформе',
+  'simulator.purchasesPerPeriod.label': 'Покупок за период',
+  'simulator.purchasesPerPeriod.hint': 'На одного покупателя',
+  'simulator.purchasePrice.label': 'Цена покупки ({currency})',
+  'simulator.purchasePrice.hint': 'Средняя стоимость одной покупки',
+  'simulator.reviewQuality.label': 'Качество отзывов (0-1)',
+  'simulator.reviewQuality.hint': 'Среднее по покупателям',
+  'simulator.returnProbability.label': 'Вероятность возврата (0-1)',
+  'simulator.returnProbability.hint': 'Среднее по покупателям',
+  'simulator.initialGlobalMinted.label': 'Начальная эмиссия',
+  'simulator.initialGlobalMinted.hint': 'Токенов в обращении до запуска',
+  'simulator.results': 'Итог симуляции',
+  'simulator.finalPrice': 'Цена токена в конце',
+  'simulator.finalPriceDescription': 'По bonding curve от объёма в обращении',
+  'simulator.circulating': 'Токенов в обращении',
+  'simulator.circulatingDescription': 'Эмиссия за вычетом уничтоженных токенов',
+  'simulator.burned': 'Сожжено всего',
+  'simulator.burnedDescription': 'Накопленное сжигание за все периоды',
+  'simulator.inflation': 'Инфляция',
+  'simulator.deflation': 'Дефляция',
+  'simulator.supplyChangeDescription': 'Изменение объёма в обращении за период симуляции',
+  'simulator.charts': 'Динамика по периодам',
+  'simulator.period': 'Период',
+  'simulator.rates': 'Кэшбек и скидка',
+  'simulator.tokenPrice': 'Цена токена',
+  'simulator.supply': 'Объём в обращении и сжигание',
+  'simulator.circulatingSeries': 'В обращении',
+  'simulator.burnedSeries': 'Сожжено (накопленно)',
+  'simulator.pools': 'Перераспределённые токены (накопленно)',
+  'simulator.poolsNote':
+    'Перераспределённые токены остаются в обращении и учитываются в цене токена; из обращения выводится только уничтоженная доля.',
+
+  'marketMode.clones': 'Копии покупателя',
+  'marketMode.population': 'Сегменты пользователей',
+  'compare.summary.totalMintedUser': 'Эмиссия токенов',
+  'compare.summary.tokenPrice': 'Цена токена ({currency})',
+  'compare.summary.totalBurned': 'Утилизация токенов',
+  'compare.summary.burnDestroyed': 'Уничтожено',
+  'compare.summary.burnRedistributed': 'Перераспределено',
+  'compare.summary.netTokens': 'Чистый баланс',
+  'compare.breakdown.t': 'Период t',
+  'compare.breakdown.CB_percent': 'Кэшбек CB%(t)',
+  'compare.breakdown.QF': 'Коэффициент качества QF',
+  'compare.breakdown.dfFirst': 'DF (первая покупка)',
+  'compare.breakdown.dfLast': 'DF (последняя покупка)',
+  'compare.breakdown.mintedPerPurchaseAvg': 'Эмиссия / покупка',
+  'compare.breakdown.capUsage': 'Использование лимита пользователя',
+  'compare.breakdown.discount_percent': 'Процент скидки',
+  'compare.breakdown.discountRubTotal': 'Скидка, всего ({currency})',
+  'compare.breakdown.burnDiscountTokens': 'Сжигание за скидку (токены)',
+  'compare.breakdown.accessFeeTokens': 'Плата за доступ (токены)',
+  'compare.breakdown.marketBurnedYear': 'Сожжено рынком за год',
+  'compare.breakdown.marketMinted': 'Эмиссия рынка',
+  'compare.breakdown.mintCutOff': 'Не выпущено из-за user_cap',
+  'compare.breakdown.purchasesCutOff': 'Покупок урезано user_cap',
+  'compare.breakdown.burnRejected': 'Отклонено сжиганий из-за burn_cap',
+  'compare.breakdown.purchasesBurnRejected': 'Покупок без скидки из-за burn_cap',
+  'compare.breakdown.netValueRub': 'Чистая стоимость ({currency})',
+  'compare.breakdown.effectiveCashbackRub': 'Эффективный кэшбек ({currency})',
+  'compare.breakdown.effectiveDiscountRub': 'Эффективная "стоимость" утилизации ({currency})',
+  'compare.breakdown.initialGlobalTotalMinted': 'Начальная глобальная эмиссия',
+  'compare.breakdown.assumedUsers': 'Количество пользователей',
+  'compare.breakdown.assumedBurnRate': 'Процент сжигания',
+  'compare.breakdown.newGlobalTotalMinted': 'Глобальная эмиссия после',
+  'compare.description':
+    'Сохраняйте сценарии в калькуляторе покупателя и сравнивайте до {count} из них бок о бок. Первый закреплённый сценарий — базовый, разницы считаются относительно него.',
+  'compare.saved': 'Сохранённые сценарии',
+  'compare.empty': 'Пока нет сохранённых сценариев. Сохраните сценарий в',
+  'compare.emptyLink': 'калькуляторе покупателя',
+  'compare.delete': 'Удалить',
+  'compare.table': 'Сравнение',
+  'compare.metric': 'Показатель',
+  'compare.charts': 'Визуализация',
+  'compare.curve': 'Bonding Curve (цена токена)',
+  'compare.priceOverTime': 'Цена токена во времени',
+  'compare.supplyOverTime': 'Токенов в обращении во времени',
+  'compare.period': 'Период',
+
+  'distribution.fixed': 'Фиксированная',
+  'distribution.uniform': 'Равномерная',
+  'distribution.normal': 'Нормальная',
+  'population.title': 'Модель рынка',
+  'population.clones': 'Копии текущего покупателя',
+  'population.segments': 'Сегменты пользователей ({count} чел.)',
+  'population.hint':
+    'Сегменты совершают покупки периода t по очереди, и покупатель торгует после них. Годовое сжигание рынка, от которого зависит скидка, упрощённо оценивается по сжиганию этого одного периода.',
+  'population.segment': 'Сегмент',
+  'population.count': 'Кол-во',
+  'population.purchasePrice': 'Цена покупки ({currency})',
+  'population.purchasesPerPeriod': 'Покупок / период',
+  'population.reviewQuality': 'Качество отзывов',
+  'population.returnProbability': 'Вероятность возврата',
+  'population.name': 'Название сегмента',
+  'population.segment.active': 'Активные',
+  'population.segment.regular': 'Обычные',
+  'population.segment.occasional': 'Редкие',
+  'population.countLabel': '{segment}: количество',
+  'population.distributionLabel': '{segment}: распределение',
+  'population.purchasesPerPeriodLabel': '{segment}: покупок за период',
+  'population.reviewQualityLabel': '{segment}: качество отзывов',
+  'population.returnProbabilityLabel': '{segment}: вероятность возврата',
+  'population.newSegment': 'Сегмент {index}',
+  'population.add': 'Добавить сегмент',
+  'population.reset': 'Сбросить сегменты',
+  'monteCarlo.toggle': 'Режим Монте-Карло',
+  'monteCarlo.metric.totalMintedUser': 'Эмиссия токенов',
+  'monteCarlo.metric.totalBurned': 'Утилизация токенов',
+  'monteCarlo.metric.netTokens': 'Чистый баланс (токены)',
+  'monteCarlo.metric.netValueRub': 'Чистая стоимость ({currency})',
+  'monteCarlo.trials': 'Количество испытаний',
+  'monteCarlo.seed': 'Seed генератора',
+  'monteCarlo.priceSpread': 'Разброс цены покупки (доля)',
+  'monteCarlo.reviewQualityStdDev': 'Отклонение качества отзывов',
+  'monteCarlo.priceDistribution': 'Распределение цены покупки',
+  'monteCarlo.returnsHint': 'Возвраты разыгрываются для каждой покупки с вероятностью возврата',
+  'monteCarlo.metric': 'Показатель',
+  'monteCarlo.bands': 'Чистый баланс по периодам (P5–P95)',
+  'monteCarlo.period': 'Период',
+  'monteCarlo.histogram': 'Распределение чистого баланса (период {period})',
+  'monteCarlo.trialCount': 'Испытаний',
+
+  'sensitivity.toggle': 'Анализ чувствительности',
+  'sensitivity.metric.netTokens': 'Чистый баланс (токены)',
+  'sensitivity.metric.tokenPrice': 'Цена токена ({currency})',
+  'sensitivity.metric.netValueRub': 'Чистая стоимость ({currency})',
+  'sensitivity.mode': 'Режим',
+  'sensitivity.metric': 'Показатель',
+  'sensitivity.tornado': 'Торнадо-диаграмма',
+  'sensitivity.heatmap': 'Тепловая карта (2 параметра)',
+  'sensitivity.impact': 'Влияние ±{delta}% на «{metric}» (база {base})',
+  'ledger.toggle': 'Журнал покупок',
+  'ledger.exportCsv': 'Экспорт CSV',
+  'ledger.exportJson': 'Экспорт JSON',
+  'ledger.index': '№',
+  'ledger.priceBefore': 'Цена до ({currency})',
+  'ledger.priceAfter': 'Цена после ({currency})',
+  'ledger.minted': 'Эмиссия',
+  'ledger.cutOff': 'Урезано user_cap',
+  'ledger.burned': 'Сжигание за скидку',
+  'ledger.burnRejected': 'Отклонено burn_cap',
+  'ledger.balance': 'Баланс',
+  'ledger.accessFee': 'Плата за доступ',
+  'ledger.note.spot':
+    'Сжигание за скидку считается по итоговой цене токена, плата за доступ списывается один раз.',
+  'ledger.note.integral':
+    'Эмиссия и сжигание считаются по площади под bonding curve, плата за доступ списывается один раз.',
+
+  'schedule.toggle': 'График покупок',
+  'schedule.description':
+    'Каждая покупка эмитирует токены по CB%(t) своего периода и сжигает их по discount%(t) того же периода.',
+  'schedule.monthlySpend': 'Траты в месяц ({currency})',
+  'schedule.purchasesPerMonth': 'Покупок в месяц',
+  'schedule.months': 'Месяцев',
+  'schedule.startPeriod': 'Начальный период',
+  'schedule.reviewQuality': 'Качество отзывов',
+  'schedule.returnRate': 'Доля возвратов',
+  'schedule.generateTitle': 'Сгенерировать по ежемесячным тратам',
+  'schedule.generate': 'Сгенерировать график',
+  'schedule.pasteTitle': 'Вставить список',
+  'schedule.pasteHeader': 'сумма;период;возврат (да/нет);качество отзывов',
+  'schedule.pasteExample': '10000;0;нет;0,8',
+  'schedule.paste': 'Загрузить список',
+  'schedule.purchases': 'Покупки',
+  'schedule.amount': 'Сумма ({currency})',
+  'schedule.period': 'Период',
+  'schedule.returned': 'Возврат',
+  'schedule.amountLabel': 'Покупка {index}: сумма',
+  'schedule.periodLabel': 'Покупка {index}: период',
+  'schedule.returnedLabel': 'Покупка {index}: возврат',
+  'schedule.reviewQualityLabel': 'Покупка {index}: качество отзывов',
+  'schedule.add': 'Добавить покупку',
+  'schedule.reset': 'Сбросить график',
+  'schedule.minted': 'Эмиссия токенов',
+  'schedule.tokenPrice': 'Цена токена',
+  'schedule.burned': 'Утилизация токенов',
+  'schedule.net': 'Чистый баланс',
+  'schedule.discount': 'Скидка',
+  'schedule.price': 'Цена ({currency})',
+  'schedule.burn': 'Сжигание',
+
+  'currency.error.read': 'Не удалось прочитать {file}: {message}',
+
+  'formula.CB_percent':
+    'Доля цены покупки, возвращаемая токенами; снижается с каждым периодом после запуска.',
+  'formula.QF': 'Надбавка за качественные отзывы, уменьшенная на вероятность возврата.',
+  'formula.dfFirst': 'Убывающая отдача для первой покупки, пока покупатель ещё ничего не получил.',
+  'formula.dfLast': 'Убывающая отдача для последней покупки с учётом уже полученных токенов.',
+  'formula.mintedPerPurchaseAvg':
+    'Каждая покупка эмитирует токены по своему DF и цене токена; ниже — первая покупка и среднее по всем.',
+  'formula.capUsage': 'Какая часть лимита пользователя уже израсходована.',
+  'formula.discount_percent': 'Скидка падает по мере того, как рынок сжигает токены в течение года.',
+  'formula.discountRubTotal': 'Скидка на покупки, оплаченная токенами; покупки сверх burn_cap её не получают.',
+  'formula.burnDiscountTokens': 'Токены, сожжённые в обмен на скидку.',
+  'formula.accessFeeTokens': 'Фиксированная плата за доступ, списывается один раз.',
+  'formula.totalBurned': 'Всё сжигание покупателя: скидка и плата за доступ.',
+  'formula.netValueRub': 'Оставшиеся токены по текущей цене токена.',
+  'formula.effectiveCashbackRub': 'Все полученные токены по текущей цене токена.',
+  'formula.effectiveDiscountRub': 'Все сожжённые токены по текущей цене токена.',
+  'formula.newGlobalTotalMinted': 'Эмиссия до покупок плюс эмиссия рынка за период.',
+};
+
+export type MessageKey = keyof typeof ru;
+
+const en: Record<MessageKey, string> = {
+  'nav.buyer': 'Buyer (B2C)',
+  'nav.seller': 'Seller (B2B)',
+  'nav.simulator': 'Supply simulator',
+  'nav.compare': 'Scenario comparison',
+  'nav.parameters': 'Parameters',
+  'nav.language': 'Language',
+
+  'inputs.error.purchasePrice': 'Purchase price must be a positive number',
+  'inputs.error.numberOfPurchases': 'Number of purchases must be a whole number of at least 1',
+  'inputs.error.period': 'Period must be a non-negative number',
+  'inputs.error.reviewQuality': 'Review quality must be a number from 0 to 1',
+  'inputs.error.returnProbability': 'Return probability must be a number from 0 to 1',
+
+  'burnDestination.destroyed': 'Destroyed',
+  'burnDestination.sellers': 'To sellers',
+  'burnDestination.treasury': 'To treasury',
+  'burnDestination.staking': 'To staking pool',
+  'burnDestination.referral': 'To referral pool',
+
+  'curve.linear': 'Linear',
+  'curve.quadratic': 'Quadratic',
+  'curve.exponential': 'Exponential',
+  'curve.sigmoid': 'Sigmoid',
+  'curve.piecewise': 'Piecewise by points',
+
+  'buyer.title': 'Tokenomics calculator for buyers (B2C)',
+  'buyer.description':
+    'This calculator estimates how many tokens you receive for purchases (emission) and can spend on discounts (burn).',
+  'buyer.inputs.title': 'Your activity',
+  'buyer.inputs.description': 'Enter your purchases and activity on the platform:',
+  'buyer.purchasePrice.label': 'Purchase price ({currency})',
+  'buyer.purchasePrice.hint': 'Average price of one purchase',
+  'buyer.numberOfPurchases.label': 'Number of purchases',
+  'buyer.numberOfPurchases.hint': 'How many purchases you plan to make',
+  'buyer.period.label': 'Period (time since launch)',
+  'buyer.period.hint': 'Time since the platform launch (in periods)',
+  'buyer.reviewQuality.label': 'Review quality (0-1)',
+  'buyer.reviewQuality.hint': 'Quality score of your reviews (0 = poor, 1 = excellent)',
+  'buyer.returnProbability.label': 'Return probability (0-1)',
+  'buyer.returnProbability.hint': 'Probability of returning an item (0 = never, 1 = always)',
+
+  'buyer.results.title': 'Results',
+  'buyer.results.copyLink': 'Copy link',
+  'buyer.results.linkCopied': 'Link copied',
+  'buyer.results.minted': 'Tokens minted',
+  'buyer.results.mintedDescription': 'Tokens you receive for your purchases',
+  'buyer.results.tokenPrice': 'Token price',
+  'buyer.results.tokenPriceDescription': 'Current token price on the bonding curve',
+  'buyer.results.burned': 'Tokens burned',
+  'buyer.results.burnedDescription': 'Tokens you spend on discounts and access',
+  'buyer.results.net': 'Net balance',
+  'buyer.results.netDescription': 'Tokens left after emission and burn',
+  'buyer.burnMechanism': 'Token burn mechanism',
+
+  'buyer.pricing.title': 'Bonding curve pricing',
+  'buyer.pricing.spotOption': 'Spot price',
+  'buyer.pricing.integralOption': 'Integral along the curve',
+  'buyer.pricing.spot': 'Spot',
+  'buyer.pricing.integral': 'Integral',
+  'buyer.pricing.difference': 'Difference',
+
+  'buyer.scenario.namePlaceholder': 'Scenario name',
+  'buyer.scenario.save': 'Save scenario',
+  'buyer.scenario.saved': 'Scenario saved — go to comparison',
+
+  'buyer.breakdown.title': 'Intermediate steps',
+  'buyer.breakdown.hint': 'Click a row to see its formula with the current values substituted.',
+  'buyer.breakdown.mint': 'Emission (mint)',
+  'buyer.breakdown.period': 'Period t:',
+  'buyer.breakdown.cashback': 'Cashback CB%(t):',
+  'buyer.breakdown.quality': 'Quality factor QF:',
+  'buyer.breakdown.dfFirst': 'DF (first purchase):',
+  'buyer.breakdown.dfLast': 'DF (last purchase):',
+  'buyer.breakdown.mintedPerPurchase': 'Minted / purchase:',
+  'buyer.breakdown.capUsage': 'User cap usage:',
+  'buyer.breakdown.mintCutOff': 'Not minted due to user_cap:',
+  'buyer.breakdown.burn': 'Burn',
+  'buyer.breakdown.discountPercent': 'Discount rate:',
+  'buyer.breakdown.discountRub': 'Discount (total):',
+  'buyer.breakdown.discountTokens': 'Burned for discount (tokens):',
+  'buyer.breakdown.burnRejected': 'Rejected due to burn_cap (tokens):',
+  'buyer.breakdown.accessFee': 'Access fee (tokens):',
+  'buyer.breakdown.totalBurned': 'Total burned (tokens):',
+  'buyer.breakdown.interpretation': 'Interpretation',
+  'buyer.breakdown.netValue': 'Net value:',
+  'buyer.breakdown.effectiveCashback': 'Effective cashback:',
+  'buyer.breakdown.effectiveDiscount': 'Effective "cost" of burn:',
+  'buyer.breakdown.assumptions': 'Assumptions',
+  'buyer.breakdown.initialMinted': 'Initial global emission:',
+  'buyer.breakdown.segmentUsers': 'Users in segments:',
+  'buyer.breakdown.assumedUsers': 'Assumed number of users:',
+  'buyer.breakdown.marketBurnShare': 'Market burn share:',
+  'buyer.breakdown.assumedBurnRate': 'Assumed burn rate:',
+  'buyer.breakdown.finalMinted': 'Global emission after:',
+  'buyer.breakdown.note':
+    'The intermediate factors show what drives emission and burn: cashback and quality increase mint, while a high token price on the bonding curve decreases mint and raises the token cost of burns.',
+
+  'formula.toggle': 'Show formula',
+  'formula.params': 'Parameters in the glossary:',
+
+  'buyer.charts.title': 'Charts',
+  'buyer.charts.curve': 'Bonding curve (token price)',
+  'buyer.charts.rangeFrom': 'Emission from',
+  'buyer.charts.rangeTo': 'to',
+  'buyer.charts.totalMinted': 'Total tokens minted',
+  'buyer.charts.tokenPrice': 'Token price ({currency})',
+  'buyer.charts.currentCurve': 'Token price ({curve})',
+  'buyer.charts.currentMinted': 'Current emission',
+  'buyer.charts.burnDistribution': 'Token burn distribution',
+  'buyer.charts.initialMinted': 'Emission before purchases',
+  'buyer.charts.priceImpact':
+    'The emission of the buyer and the market raises the token price from {before} to {after} ({change}).',
+  'buyer.charts.df': 'Diminishing factor DF',
+  'buyer.charts.userMinted': 'User emission (tokens)',
+  'buyer.charts.dfCurve': 'DF up to user_cap',
+  'buyer.charts.dfBuyer': 'Your purchases: DF {first} → {last}',
+  'buyer.charts.rates': 'Cashback and discount by period',
+  'buyer.charts.period': 'Period t',
+  'buyer.charts.cashback': 'Cashback CB%(t)',
+  'buyer.charts.discount': 'Discount discount%(t)',
+  'buyer.charts.currentPeriod': 'Current period',
+
+  'validation.number': 'Value must be a number',
+  'validation.nonNegative': 'Value must be a non-negative number',
+  'validation.greaterThan': 'Value must be greater than {min}',
+  'validation.atLeast': 'Value must be at least {min}',
+  'validation.range': 'Value must be from {min} to {max}',
+  'validation.share': 'Value must be a number from 0 to 1',
+  'validation.wholeAtLeastOne': 'Value must be a whole number of at least 1',
+  'validation.boolean': 'Value must be true or false',
+  'param.CB_base.label': 'Base cashback CB_base',
+  'param.CB_base.hint': 'Share of the purchase price (0-1)',
+  'param.CB_base.description':
+    'Share of the purchase price returned to the buyer in tokens at platform launch. It decreases over time at rate α.',
+  'param.alpha.label': 'Cashback degradation α',
+  'param.alpha.hint': 'Cashback decrease per period',
+  'param.alpha.description':
+    'How much the cashback decreases with every period after launch. With α = 0.01 the cashback loses 1% of its base value per period.',
+  'param.beta.label': 'Quality coefficient β',
+  'param.beta.hint': 'Weight of review quality in QF',
+  'param.beta.description':
+    'Maximum emission bonus for good reviews and no returns. With β = 0.3 an ideal buyer receives 30% more tokens.',
+  'param.gamma.label': 'Diminishing returns γ',
+  'param.gamma.hint': 'Decay rate of DF',
+  'param.gamma.description': 'How fast the emission for one user decays as it approaches user_cap.',
+  'param.P0.label': 'Initial token price P0',
+  'param.P0.hint': 'Token price at zero emission (₽)',
+  'param.P0.description':
+    'Token price in rubles at zero global emission, the lowest point of the bonding curve.',
+  'param.k.label': 'Bonding curve coefficient k',
+  'param.k.hint': 'Steepness of the price curve',
+  'param.k.description':
+    'Steepness of the bonding curve: the larger k, the faster the token price grows with the global emission S.',
+  'param.discount_base.label': 'Base discount discount_base',
+  'param.discount_base.hint': 'Share of the purchase price (0-1)',
+  'param.discount_base.description':
+    'Share of the purchase price that can be paid in tokens at zero yearly burn.',
+  'param.theta.label': 'Discount degradation θ',
+  'param.theta.hint': 'Discount decrease as burns grow',
+  'param.theta.description': 'How much the discount decreases as the yearly burn B approaches burn_cap.',
+  'param.burn_cap.label': 'Burn cap burn_cap',
+  'param.burn_cap.hint': 'Tokens per year',
+  'param.burn_cap.description':
+    'Reference yearly burn in tokens that the discount decrease is normalised to.',
+  'param.access_fee.label': 'Access fee access_fee',
+  'param.access_fee.hint': 'Fixed fee in tokens',
+  'param.access_fee.description':
+    'Fixed fee in tokens for access to the platform, charged regardless of the token price.',
+  'param.user_cap.label': 'User cap user_cap',
+  'param.user_cap.hint': 'Tokens per user',
+  'param.user_cap.description':
+    'Reference number of tokens per user that diminishing returns are normalised to.',
+  'param.t_launch.label': 'Launch time t_launch',
+  'param.t_launch.hint': 'Period the platform launches in',
+  'param.t_launch.description':
+    'Period in which the platform launches; the cashback decrease is counted from it.',
+  'param.burn_sellers.label': 'Burn share to sellers',
+  'param.burn_sellers.hint': 'Share of burns (0-1)',
+  'param.burn_sellers.description':
+    'Part of the tokens burned by buyers that is redistributed to sellers. Tokens that are not redistributed are destroyed.',
+  'param.burn_treasury.label': 'Burn share to treasury',
+  'param.burn_treasury.hint': 'Share of burns (0-1)',
+  'param.burn_treasury.description':
+    'Part of the burned tokens kept by the platform in its treasury; it needs no reserve backing.',
+  'param.burn_staking.label': 'Burn share to staking pool',
+  'param.burn_staking.hint': 'Share of burns (0-1)',
+  'param.burn_staking.description': 'Part of the burned tokens that funds the staking reward pool.',
+  'param.burn_referral.label': 'Burn share to referral pool',
+  'param.burn_referral.hint': 'Share of burns (0-1)',
+  'param.burn_referral.description': 'Part of the burned tokens that goes to referral rewards.',
+  'burnSplit.error.total': 'Redistribution shares may not add up to more than 1',
+
+  'curve.error.object': 'The curve must be an object',
+  'curve.error.slope': 'Slope must be a non-negative number',
+  'curve.error.rate': 'Growth rate must be a non-negative number',
+  'curve.error.maxPrice': 'Maximum price must be greater than 0',
+  'curve.error.maxPriceBelowP0': 'Maximum price may not be below P0: the price must grow with emission',
+  'curve.error.midpoint': 'Midpoint must be a non-negative number',
+  'curve.error.steepness': 'Steepness must be greater than 0',
+  'curve.error.points': 'At least two points are needed',
+  'curve.error.point': 'Point {index}: x must be non-negative and the price greater than 0',
+  'curve.error.pointOrder': 'Point {index}: x must increase',
+  'curve.error.pointPrice': 'Point {index}: the price must not decrease',
+  'curve.error.shape': 'Curve shape must be one of: {shapes}',
+
+  'input.purchasePrice': 'Purchase price',
+  'input.numberOfPurchases': 'Number of purchases',
+  'input.period': 'Period',
+  'input.reviewQuality': 'Review quality',
+  'input.returnProbability': 'Return probability',
+  'goal.metric.netTokens': 'Net balance (tokens)',
+  'goal.metric.netValueRub': 'Net value ({currency})',
+  'goal.metric.tokenPrice': 'Token price ({currency})',
+  'goal.metric.capUsage': 'User cap usage',
+  'staking.funding.burns': 'Burn share (burn_staking)',
+  'staking.funding.emission': 'Emission share',
+  'staking.error.termPeriods': 'The term must be a whole number of at least 1',
+  'distribution.error.uniform': 'Bounds must be non-negative with min ≤ max',
+  'distribution.error.normal': 'Mean and deviation must be non-negative',
+  'treasury.error.initialReserve': 'Initial reserve must be a non-negative number',
+  'seller.error.gmv': 'GMV must be a non-negative number',
+  'seller.error.orderCount': 'Number of orders must be a whole number of at least 1',
+  'seller.error.returnRate': 'Return rate must be a number from 0 to 1',
+  'seller.error.discountedShare': 'Share of discounted orders must be a number from 0 to 1',
+  'seller.error.periods': 'Number of periods must be a whole number of at least 1',
+  'population.error.count': 'Count must be a non-negative whole number',
+  'population.error.purchasesPerPeriod': 'Purchase frequency must be a whole number of at least 1',
+  'schedule.error.amount': 'Purchase amount must be a non-negative number',
+  'schedule.error.returnRate': 'Return rate must be a number from 0 to 1',
+  'schedule.error.returned': 'The return flag must be 1/0 or yes/no',
+  'schedule.error.ambiguousNumber': 'The number "{value}" is ambiguous: remove digit grouping or extra separators',
+  'schedule.error.line': 'Line {line}: {errors}',
+  'currency.error.rub': 'The ruble rate is always 1',
+  'currency.error.rate': 'The rate must be a positive number',
+  'currency.error.rateNumber': 'The rate must be a number',
+  'currency.error.json': 'Could not parse JSON: {message}',
+  'currency.error.object': 'The file must contain an object of rates',
+  'currency.error.unknown': '{currency}: unknown currency',
+  'monteCarlo.error.trials': 'Number of trials must be a whole number from 1 to 100000',
+  'monteCarlo.error.seed': 'Seed must be a whole number',
+  'monteCarlo.error.spread': 'Spread must be a number from 0 to 1',
+  'config.error.section': 'The section must be an object',
+  'config.error.unknownField': 'Unknown field',
+  'config.error.distribution': 'Distribution must be one of: {distributions}',
+  'config.error.version': 'Schema version must be a non-negative whole number',
+  'config.error.versionTooNew':
+    'The file was made for schema version {version}; versions up to {supported} are supported',
+  'config.error.parse': 'Could not parse {format}: {message}',
+  'config.error.object': 'The file must contain an object',
+  'config.error.name': 'The name must be a string',
+  'config.error.read': 'Could not read {file}: {message}',
+
+  'params.toggle': 'Advanced system parameters',
+  'params.preset': 'Parameter preset',
+  'params.presetPlaceholder': '— Choose a preset —',
+  'params.builtIn': '(built-in)',
+  'params.delete': 'Delete',
+  'params.presetName': 'Preset name',
+  'params.save': 'Save',
+  'params.reset': 'Reset to defaults',
+  'params.hardCaps': 'Hard caps: emission stops at user_cap, burns past burn_cap within a year are rejected',
+
+  'docs.title': 'System parameters',
+  'docs.description':
+    'Reference of the tokenomics parameters: what each parameter means, its default value, valid range and the formula it is used in.',
+  'docs.default': 'Default:',
+  'docs.range': 'Range:',
+  'docs.formula': 'Formula:',
+  'docs.notUsed': 'Not used by the curve "{curve}"',
+
+  'curveEditor.shape': 'Bonding curve shape:',
+  'curveEditor.quadraticHint': 'P = P0 · (1 + k·x²), k is set below',
+  'curveEditor.slope.label': 'Slope',
+  'curveEditor.slope.hint': 'P = P0 · (1 + slope·x)',
+  'curveEditor.rate.label': 'Growth rate',
+  'curveEditor.rate.hint': 'P = P0 · e^(rate·x)',
+  'curveEditor.maxPrice.label': 'Maximum price (₽)',
+  'curveEditor.maxPrice.hint': 'The price the curve approaches',
+  'curveEditor.midpoint.label': 'Midpoint',
+  'curveEditor.midpoint.hint': 'Emission at which the price is halfway',
+  'curveEditor.steepness.label': 'Steepness',
+  'curveEditor.steepness.hint': 'How sharp the transition is',
+  'curveEditor.pointX': 'Emission x',
+  'curveEditor.pointPrice': 'Price (₽)',
+  'curveEditor.pointXLabel': 'Point {index}: emission',
+  'curveEditor.pointPriceLabel': 'Point {index}: price',
+  'curveEditor.addPoint': 'Add point',
+
+  'cap.userReached': 'user_cap reached:',
+  'cap.mintCutOff': '{tokens} tokens not minted',
+  'cap.purchasesCutOff': '(purchases cut: {count})',
+  'cap.burnReached': 'burn_cap reached:',
+  'cap.burnRejected': '{tokens} tokens of burns rejected',
+  'cap.purchasesBurnRejected': '(purchases without a discount: {count})',
+  'compute.error': 'Calculation error: {error}',
+  'compute.running': 'Calculating… {progress}',
+  'compute.rerunning': 'Recalculating… {progress}',
+  'compute.workerFailed': 'the background calculation failed',
+
+  'config.toggle': 'File import and export',
+  'config.exportJson': 'Export JSON',
+  'config.exportYaml': 'Export YAML',
+  'config.dropzone': 'Drop a .json, .yaml or .yml file here or click to choose one',
+  'config.imported': 'Loaded from {file}',
+
+  'currency.toggle': 'Currency and rates ({currency})',
+  'currency.display': 'Display currency',
+  'currency.input': 'Purchase price currency',
+  'currency.reset': 'Reset rates',
+  'currency.rate': '1 {currency} = ₽',
+  'currency.file': 'Load rates from a .json file, for example {example}',
+  'currency.loaded': 'Rates loaded from {file}',
+  'currency.hint':
+    'Calculations run in rubles: the token price and ruble values are converted to the display currency, while the purchase price is entered in its own currency and converted to rubles at the rate.',
+
+  'staking.toggle': 'Staking',
+  'staking.lockShare.label': 'Share of the balance staked (0-1)',
+  'staking.lockShare.hint': 'Part of the net balance that is locked',
+  'staking.termPeriods.label': 'Lock-up term (periods)',
+  'staking.termPeriods.hint': 'Tokens are unavailable until the term ends',
+  'staking.periodsPerYear.label': 'Periods per year',
+  'staking.periodsPerYear.hint': 'How many payments the market\'s yearly burn is split into',
+  'staking.participation.label': 'Market participation (0-1)',
+  'staking.participation.hint': 'Share of the other users who stake too',
+  'staking.emissionShare.label': 'Emission share to the pool (0-1)',
+  'staking.emissionShare.hint': 'Used when the pool is funded by emission',
+  'staking.funding': 'Yield source',
+  'staking.noBurnShare': 'The burn share to the staking pool is 0; set it in the advanced parameters',
+  'staking.staked': 'Staked',
+  'staking.liquid': 'Unlocked: {tokens} tokens',
+  'staking.yield': 'Yield over the term',
+  'staking.yieldDescription': '{value} · {rate} of the staked amount',
+  'staking.tokenPrice': 'Token price',
+  'staking.tokenPriceDescription': 'Without {tokens} locked tokens (was {price})',
+  'staking.final': 'Balance after unlocking',
+  'staking.finalDescription': 'Net balance plus yield',
+  'staking.chart': 'Accumulated yield',
+  'staking.chartPeriod': 'Lock-up period',
+  'staking.chartYield': 'Yield (tokens)',
+  'staking.note':
+    'The pool is funded every period and split between all stakers in proportion to their locked tokens. Locked tokens leave circulation and do not affect the bonding curve price.',
+
+  'treasury.toggle': 'Treasury and reserves',
+  'treasury.initialReserve.label': 'Initial reserve ({currency})',
+  'treasury.initialReserve.hint': 'Money in the treasury at launch',
+  'treasury.fundingRate.label': 'Reserve funding (share)',
+  'treasury.fundingRate.hint': 'Share of purchase volume the platform pays into the treasury',
+  'treasury.minReserveRatio.label': 'Minimum coverage (0-1)',
+  'treasury.minReserveRatio.hint': 'Threshold below which the reserve is insufficient',
+  'treasury.insolvent': 'The platform is insolvent',
+  'treasury.insolventText':
+    'from period {period}: discount payouts exceed the reserve with the current system parameters.',
+  'treasury.undercollateralized': 'Reserve below threshold',
+  'treasury.undercollateralizedText':
+    'from period {period}: coverage falls to {ratio} against a threshold of {threshold}.',
+  'treasury.ok': 'The reserve covers the obligations over the whole simulation horizon.',
+  'treasury.finalReserve': 'Final reserve',
+  'treasury.finalReserveDescription': 'Initial reserve + funding − discounts',
+  'treasury.minCoverage': 'Minimum coverage',
+  'treasury.minCoverageDescription': 'Reserve against the buyback cost of circulating tokens',
+  'treasury.chart': 'Reserve and obligations',
+  'treasury.period': 'Period',
+  'treasury.reserve': 'Reserve',
+  'treasury.required': 'Buyback cost along the curve',
+  'treasury.coverageChart': 'Coverage ratio',
+  'treasury.coverage': 'Coverage',
+  'treasury.threshold': 'Threshold',
+
+  'goal.toggle': 'Goal seek',
+  'goal.metric': 'Target metric',
+  'goal.target': 'Target value',
+  'goal.capUsageHint': 'Share of the cap: 1 = 100%',
+  'goal.variable': 'Free variable',
+  'goal.current': 'Current value: {value}',
+  'goal.min': 'Lower bound',
+  'goal.max': 'Upper bound',
+  'goal.boundsError': 'The lower bound must be less than the upper bound',
+  'goal.method': 'Method',
+  'goal.method.bisection': 'Bisection',
+  'goal.method.newton': 'Newton\'s method',
+  'goal.methodHint': 'Newton\'s method starts from the current value of the variable',
+  'goal.solved': 'gives “{metric}” = {achieved} ({iterations} iterations)',
+  'goal.status.no-solution':
+    'No solution within the bounds: the metric does not reach the target. Closest value:',
+  'goal.status.no-convergence': 'The method did not converge within the bounds. Closest value found:',
+  'goal.closest': '{variable} = {value}, “{metric}” = {achieved}',
+  'goal.apply': 'Apply the value found',
+
+  'seller.title': 'Tokenomics calculator for sellers (B2B)',
+  'seller.description':
+    'This calculator shows how many tokens a seller receives from the redistributed buyer burn, how much they pay for access and what their net balance is over time.',
+  'seller.inputs.title': 'Sales parameters',
+  'seller.inputs.description': 'Enter your sales for one period:',
+  'seller.gmv.label': 'GMV per period ({currency})',
+  'seller.gmv.hint': 'Total sales volume for one period',
+  'seller.orderCount.label': 'Number of orders',
+  'seller.orderCount.hint': 'How many orders you receive per period',
+  'seller.returnRate.label': 'Return rate (0-1)',
+  'seller.returnRate.hint': 'Share of orders that buyers return',
+  'seller.discountedShare.label': 'Share of discounted orders (0-1)',
+  'seller.discountedShare.hint': 'Share of kept orders paid with a token discount',
+  'seller.periods.label': 'Horizon (periods)',
+  'seller.periods.hint': 'How many periods ahead to forecast',
+  'seller.periodsPerYear.label': 'Periods per year',
+  'seller.periodsPerYear.hint':
+    'After how many periods the yearly market burn that drives the discount resets and the access fee is charged again',
+  'seller.results.title': 'Results',
+  'seller.results.redistributed': 'Redistributed to the seller',
+  'seller.results.redistributedDescription': 'Tokens from the buyer burn over the whole horizon',
+  'seller.results.fee': 'Access fee',
+  'seller.results.feeDescription': 'Tokens charged to the seller over the whole horizon',
+  'seller.results.net': 'Net balance',
+  'seller.results.netDescription': 'Tokens left after the access fee',
+  'seller.results.netValue': 'Net value',
+  'seller.results.netValueDescription': 'Balance at the token price at the end of the horizon, {price}',
+  'seller.period.title': 'One period',
+  'seller.period.avgOrder': 'Average order:',
+  'seller.period.discountedOrders': 'Discounted orders:',
+  'seller.charts.title': 'Charts',
+  'seller.charts.position': 'Seller position over time',
+  'seller.charts.period': 'Period',
+  'seller.charts.tokens': 'Tokens',
+  'seller.charts.redistributed': 'Redistributed per period',
+  'seller.charts.cumulativeTokens': 'Cumulative balance (tokens)',
+  'seller.charts.cumulativeValue': 'Cumulative balance ({currency})',
+
+  'simulator.title': 'Global supply simulator',
+  'simulator.description':
+    'Multi-period simulation of minting, burning and the token price for the whole platform: global supply, yearly burn and user balances carry over from period to period.',
+  'simulator.settings': 'Simulation settings',
+  'simulator.periods.label': 'Number of periods',
+  'simulator.periods.hint': 'How many periods to simulate from t_launch',
+  'simulator.periodsPerYear.label': 'Periods per year',
+  'simulator.periodsPerYear.hint': 'After how many periods the yearly burn resets',
+  'simulator.users.label': 'Active buyers',
+  'simulator.users.hint': 'Number of buyers on the platform',
+  'simulator.purchasesPerPeriod.label': 'Purchases per period',
+  'simulator.purchasesPerPeriod.hint': 'Per buyer',
+  'simulator.purchasePrice.label': 'Purchase price ({currency})',
+  'simulator.purchasePrice.hint': 'Average price of one purchase',
+  'simulator.reviewQuality.label': 'Review quality (0-1)',
+  'simulator.reviewQuality.hint': 'Average across buyers',
+  'simulator.returnProbability.label': 'Return probability (0-1)',
+  'simulator.returnProbability.hint': 'Average across buyers',
+  'simulator.initialGlobalMinted.label': 'Initial supply',
+  'simulator.initialGlobalMinted.hint': 'Tokens in circulation before launch',
+  'simulator.results': 'Simulation summary',
+  'simulator.finalPrice': 'Final token price',
+  'simulator.finalPriceDescription': 'From the bonding curve at the circulating supply',
+  'simulator.circulating': 'Circulating supply',
+  'simulator.circulatingDescription': 'Minted tokens minus destroyed tokens',
+  'simulator.burned': 'Total burned',
+  'simulator.burnedDescription': 'Burn accumulated over all periods',
+  'simulator.inflation': 'Inflation',
+  'simulator.deflation': 'Deflation',
+  'simulator.supplyChangeDescription': 'Change in circulating supply over the simulation',
+  'simulator.charts': 'By period',
+  'simulator.period': 'Period',
+  'simulator.rates': 'Cashback and discount',
+  'simulator.tokenPrice': 'Token price',
+  'simulator.supply': 'Circulating supply and burn',
+  'simulator.circulatingSeries': 'Circulating',
+  'simulator.burnedSeries': 'Burned (cumulative)',
+  'simulator.pools': 'Redistributed tokens (cumulative)',
+  'simulator.poolsNote':
+    'Redistributed tokens stay in circulation and count towards the token price; only the destroyed share leaves circulation.',
+
+  'marketMode.clones': 'Buyer clones',
+  'marketMode.population': 'User segments',
+  'compare.summary.totalMintedUser': 'Tokens minted',
+  'compare.summary.tokenPrice': 'Token price ({currency})',
+  'compare.summary.totalBurned': 'Tokens burned',
+  'compare.summary.burnDestroyed': 'Destroyed',
+  'compare.summary.burnRedistributed': 'Redistributed',
+  'compare.summary.netTokens': 'Net balance',
+  'compare.breakdown.t': 'Period t',
+  'compare.breakdown.CB_percent': 'Cashback CB%(t)',
+  'compare.breakdown.QF': 'Quality factor QF',
+  'compare.breakdown.dfFirst': 'DF (first purchase)',
+  'compare.breakdown.dfLast': 'DF (last purchase)',
+  'compare.breakdown.mintedPerPurchaseAvg': 'Minted per purchase',
+  'compare.breakdown.capUsage': 'User cap usage',
+  'compare.breakdown.discount_percent': 'Discount percent',
+  'compare.breakdown.discountRubTotal': 'Total discount ({currency})',
+  'compare.breakdown.burnDiscountTokens': 'Discount burn (tokens)',
+  'compare.breakdown.accessFeeTokens': 'Access fee (tokens)',
+  'compare.breakdown.marketBurnedYear': 'Burned by the market this year',
+  'compare.breakdown.marketMinted': 'Minted by the market',
+  'compare.breakdown.mintCutOff': 'Not minted because of user_cap',
+  'compare.breakdown.purchasesCutOff': 'Purchases cut by user_cap',
+  'compare.breakdown.burnRejected': 'Burns rejected because of burn_cap',
+  'compare.breakdown.purchasesBurnRejected': 'Purchases without a discount because of burn_cap',
+  'compare.breakdown.netValueRub': 'Net value ({currency})',
+  'compare.breakdown.effectiveCashbackRub': 'Effective cashback ({currency})',
+  'compare.breakdown.effectiveDiscountRub': 'Effective "cost" of burning ({currency})',
+  'compare.breakdown.initialGlobalTotalMinted': 'Initial global supply',
+  'compare.breakdown.assumedUsers': 'Number of users',
+  'compare.breakdown.assumedBurnRate': 'Burn rate',
+  'compare.breakdown.newGlobalTotalMinted': 'Global supply after',
+  'compare.description':
+    'Save scenarios in the buyer calculator and compare up to {count} of them side by side. The first pinned scenario is the baseline; differences are relative to it.',
+  'compare.saved': 'Saved scenarios',
+  'compare.empty': 'No saved scenarios yet. Save one in the',
+  'compare.emptyLink': 'buyer calculator',
+  'compare.delete': 'Delete',
+  'compare.table': 'Comparison',
+  'compare.metric': 'Metric',
+  'compare.charts': 'Charts',
+  'compare.curve': 'Bonding curve (token price)',
+  'compare.priceOverTime': 'Token price over time',
+  'compare.supplyOverTime': 'Circulating supply over time',
+  'compare.period': 'Period',
+
+  'distribution.fixed': 'Fixed',
+  'distribution.uniform': 'Uniform',
+  'distribution.normal': 'Normal',
+  'population.title': 'Market model',
+  'population.clones': 'Clones of the current buyer',
+  'population.segments': 'User segments ({count} users)',
+  'population.hint':
+    'Segments make their period-t purchases in turn, and the buyer trades after them. The yearly market burn that drives the discount is approximated by the burn of this one period.',
+  'population.segment': 'Segment',
+  'population.count': 'Count',
+  'population.purchasePrice': 'Purchase price ({currency})',
+  'population.purchasesPerPeriod': 'Purchases / period',
+  'population.reviewQuality': 'Review quality',
+  'population.returnProbability': 'Return probability',
+  'population.name': 'Segment name',
+  'population.segment.active': 'Active',
+  'population.segment.regular': 'Regular',
+  'population.segment.occasional': 'Occasional',
+  'population.countLabel': '{segment}: count',
+  'population.distributionLabel': '{segment}: distribution',
+  'population.purchasesPerPeriodLabel': '{segment}: purchases per period',
+  'population.reviewQualityLabel': '{segment}: review quality',
+  'population.returnProbabilityLabel': '{segment}: return probability',
+  'population.newSegment': 'Segment {index}',
+  'population.add': 'Add segment',
+  'population.reset': 'Reset segments',
+  'monteCarlo.toggle': 'Monte Carlo mode',
+  'monteCarlo.metric.totalMintedUser': 'Tokens minted',
+  'monteCarlo.metric.totalBurned': 'Tokens burned',
+  'monteCarlo.metric.netTokens': 'Net balance (tokens)',
+  'monteCarlo.metric.netValueRub': 'Net value ({currency})',
+  'monteCarlo.trials': 'Number of trials',
+  'monteCarlo.seed': 'Random seed',
+  'monteCarlo.priceSpread': 'Purchase price spread (share)',
+  'monteCarlo.reviewQualityStdDev': 'Review quality deviation',
+  'monteCarlo.priceDistribution': 'Purchase price distribution',
+  'monteCarlo.returnsHint': 'Each purchase is returned at random with the return probability',
+  'monteCarlo.metric': 'Metric',
+  'monteCarlo.bands': 'Net balance by period (P5–P95)',
+  'monteCarlo.period': 'Period',
+  'monteCarlo.histogram': 'Net balance distribution (period {period})',
+  'monteCarlo.trialCount': 'Trials',
+
+  'sensitivity.toggle': 'Sensitivity analysis',
+  'sensitivity.metric.netTokens': 'Net balance (tokens)',
+  'sensitivity.metric.tokenPrice': 'Token price ({currency})',
+  'sensitivity.metric.netValueRub': 'Net value ({currency})',
+  'sensitivity.mode': 'Mode',
+  'sensitivity.metric': 'Metric',
+  'sensitivity.tornado': 'Tornado chart',
+  'sensitivity.heatmap': 'Heat map (2 parameters)',
+  'sensitivity.impact': 'Impact of ±{delta}% on “{metric}” (base {base})',
+  'ledger.toggle': 'Purchase ledger',
+  'ledger.exportCsv': 'Export CSV',
+  'ledger.exportJson': 'Export JSON',
+  'ledger.index': '#',
+  'ledger.priceBefore': 'Price before ({currency})',
+  'ledger.priceAfter': 'Price after ({currency})',
+  'ledger.minted': 'Minted',
+  'ledger.cutOff': 'Cut by user_cap',
+  'ledger.burned': 'Discount burn',
+  'ledger.burnRejected': 'Rejected by burn_cap',
+  'ledger.balance': 'Balance',
+  'ledger.accessFee': 'Access fee',
+  'ledger.note.spot': 'The discount burn uses the final token price; the access fee is charged once.',
+  'ledger.note.integral':
+    'Minting and burning use the area under the bonding curve; the access fee is charged once.',
+
+  'schedule.toggle': 'Purchase schedule',
+  'schedule.description':
+    'Each purchase mints tokens at the CB%(t) of its period and burns them at the discount%(t) of the same period.',
+  'schedule.monthlySpend': 'Monthly spend ({currency})',
+  'schedule.purchasesPerMonth': 'Purchases per month',
+  'schedule.months': 'Months',
+  'schedule.startPeriod': 'Start period',
+  'schedule.reviewQuality': 'Review quality',
+  'schedule.returnRate': 'Return rate',
+  'schedule.generateTitle': 'Generate from monthly spend',
+  'schedule.generate': 'Generate schedule',
+  'schedule.pasteTitle': 'Paste a list',
+  'schedule.pasteHeader': 'amount,period,returned (yes/no),review quality',
+  'schedule.pasteExample': '10000,0,no,0.8',
+  'schedule.paste': 'Load list',
+  'schedule.purchases': 'Purchases',
+  'schedule.amount': 'Amount ({currency})',
+  'schedule.period': 'Period',
+  'schedule.returned': 'Returned',
+  'schedule.amountLabel': 'Purchase {index}: amount',
+  'schedule.periodLabel': 'Purchase {index}: period',
+  'schedule.returnedLabel': 'Purchase {index}: returned',
+  'schedule.reviewQualityLabel': 'Purchase {index}: review quality',
+  'schedule.add': 'Add purchase',
+  'schedule.reset': 'Reset schedule',
+  'schedule.minted': 'Tokens minted',
+  'schedule.tokenPrice': 'Token price',
+  'schedule.burned': 'Tokens burned',
+  'schedule.net': 'Net balance',
+  'schedule.discount': 'Discount',
+  'schedule.price': 'Price ({currency})',
+  'schedule.burn': 'Burn',
+
+  'currency.error.read': 'Could not read {file}: {message}',
+
+  'formula.CB_percent':
+    'Share of the purchase price returned in tokens; it falls with every period after launch.',
+  'formula.QF': 'Bonus for good reviews, reduced by the return probability.',
+  'formula.dfFirst': 'Diminishing return for the first purchase, before the buyer has received anything.',
+  'formula.dfLast': 'Diminishing return for the last purchase, given the tokens already received.',
+  'formula.mintedPerPurchaseAvg':
+    'Each purchase mints tokens at its own DF and token price; below are the first purchase and the average over all of them.',
+  'formula.capUsage': 'How much of the user cap has been used.',
+  'formula.discount_percent': 'The discount falls as the market burns tokens during the year.',
+  'formula.discountRubTotal': 'Discount paid with tokens; purchases past burn_cap get none.',
+  'formula.burnDiscountTokens': 'Tokens burned in exchange for the discount.',
+  'formula.accessFeeTokens': 'Fixed access fee, charged once.',
+  'formula.totalBurned': 'Everything the buyer burns: the discount and the access fee.',
+  'formula.netValueRub': 'Remaining tokens at the current token price.',
+  'formula.effectiveCashbackRub': 'All tokens received, at the current token price.',
+  'formula.effectiveDiscountRub': 'All tokens burned, at the current token price.',
+  'formula.newGlobalTotalMinted': 'Supply before the purchases plus the market\'s mint for the period.',
+};
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = { ru, en };
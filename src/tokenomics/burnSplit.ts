@@ -0,0 +1,59 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import type { SystemParams } from './params';
+
+export type BurnDestination = 'destroyed' | 'sellers' | 'treasury' | 'staking' | 'referral';
+
+// Destinations that keep burned tokens in circulation
+export type RedistributionDestination = Exclude<BurnDestination, 'destroyed'>;
+
+export type BurnSplit = Record<BurnDestination, number>;
+
+export const BURN_DESTINATIONS: BurnDestination[] = ['destroyed', 'sellers', 'treasury', 'staking', 'referral'];
+
+export const REDISTRIBUTION_DESTINATIONS: RedistributionDestination[] = ['sellers', 'treasury', 'staking', 'referral'];
+
+type BurnShareParam = 'burn_sellers' | 'burn_treasury' | 'burn_staking' | 'burn_referral';
+
+// SystemParams field holding the share of each redistribution destination
+export const BURN_SHARE_PARAMS: Record<RedistributionDestination, BurnShareParam> = {
+  sellers: 'burn_sellers',
+  treasury: 'burn_treasury',
+  staking: 'burn_staking',
+  referral: 'burn_referral',
+};
+
+const BURN_SHARE_KEYS = Object.values(BURN_SHARE_PARAMS);
+
+export const isBurnShareParam = (key: keyof SystemParams): key is BurnShareParam =>
+  (BURN_SHARE_KEYS as (keyof SystemParams)[]).includes(key);
+
+// Shares of the burn per destination; whatever is not redistributed is destroyed
+export const calculateBurnShares = (params: SystemParams): BurnSplit => {
+  const redistributed = BURN_SHARE_KEYS.reduce((sum, key) => sum + params[key], 0);
+  return {
+    destroyed: Math.max(0, 1 - redistributed),
+    sellers: params.burn_sellers,
+    treasury: params.burn_treasury,
+    staking: params.burn_staking,
+    referral: params.burn_referral,
+  };
+};
+
+// Split burned tokens between destinations
+export const splitBurn = (burned: number, params: SystemParams): BurnSplit => {
+  const shares = calculateBurnShares(params);
+  return {
+    destroyed: burned * shares.destroyed,
+    sellers: burned * shares.sellers,
+    treasury: burned * shares.treasury,
+    staking: burned * shares.staking,
+    referral: burned * shares.referral,
+  };
+};
+
+// Redistribution shares may not exceed the whole burn
+export const validateBurnSplit = (params: SystemParams, locale: Locale = DEFAULT_LOCALE): string | null => {
+  const redistributed = BURN_SHARE_KEYS.reduce((sum, key) => sum + params[key], 0);
+  return redistributed > 1 + 1e-9 ? translate(locale, 'burnSplit.error.total') : null;
+};
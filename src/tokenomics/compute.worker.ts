@@ -0,0 +1,15 @@
+import { runComputeJob, type ComputeRequest, type ComputeResponse } from './computeJobs';
+
+// Worker entry: runs one job per request and reports progress along the way.
+// Cancellation is done by the page terminating the worker.
+const post = (response: ComputeResponse) => (self as unknown as Worker).postMessage(response);
+
+self.onmessage = (event: MessageEvent<ComputeRequest>) => {
+  const { id, job } = event.data;
+  try {
+    const result = runComputeJob(job, (progress) => post({ id, type: 'progress', progress }));
+    post({ id, type: 'result', result });
+  } catch (error) {
+    post({ id, type: 'error', message: (error as Error).message });
+  }
+};
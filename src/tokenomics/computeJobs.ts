@@ -0,0 +1,135 @@
+import type { SystemParams } from './params';
+import type { UserInputs } from './inputs';
+import type { PricingMode } from './engine';
+import { createMarketFactory, type MarketSpec } from './population';
+import {
+  runMonteCarlo,
+  runMonteCarloByPeriod,
+  type MonteCarloPeriodBand,
+  type MonteCarloResult,
+  type MonteCarloSettings,
+} from './monteCarlo';
+import {
+  runHeatmap,
+  runSensitivity,
+  type HeatmapResult,
+  type SensitivityKey,
+  type SensitivityMetric,
+  type SensitivityResult,
+} from './sensitivity';
+
+// Heavy computations that run off the main thread. Jobs are plain data, so the market
+// is passed as a MarketSpec rather than a factory function.
+export type ComputeJob =
+  | {
+      type: 'monteCarlo';
+      inputs: UserInputs;
+      params: SystemParams;
+      settings: MonteCarloSettings;
+      periods: number[]; // Periods of the band chart
+      market: MarketSpec;
+      pricing: PricingMode;
+    }
+  | {
+      type: 'sensitivity';
+      inputs: UserInputs;
+      params: SystemParams;
+      delta: number;
+      market: MarketSpec;
+      pricing: PricingMode;
+    }
+  | {
+      type: 'heatmap';
+      inputs: UserInputs;
+      params: SystemParams;
+      xKey: SensitivityKey;
+      yKey: SensitivityKey;
+      xRange: [number, number];
+      yRange: [number, number];
+      steps: number;
+      metric: SensitivityMetric;
+      market: MarketSpec;
+      pricing: PricingMode;
+    };
+
+export type ComputeJobType = ComputeJob['type'];
+
+export type ComputeJobOf<T extends ComputeJobType> = Extract<ComputeJob, { type: T }>;
+
+export interface ComputeResults {
+  monteCarlo: { result: MonteCarloResult; bands: MonteCarloPeriodBand[] };
+  sensitivity: SensitivityResult;
+  heatmap: HeatmapResult;
+}
+
+// Fraction of the job done, 0-1
+export type ProgressCallback = (progress: number) => void;
+
+const RUNNERS: { [T in ComputeJobType]: (job: ComputeJobOf<T>, onProgress: ProgressCallback) => ComputeResults[T] } = {
+  // The snapshot counts as one more step on top of the periods
+  monteCarlo: (job, onProgress) => {
+    const steps = job.periods.length + 1;
+    const createMarket = createMarketFactory(job.market, job.pricing);
+    const result = runMonteCarlo(
+      job.inputs,
+      job.params,
+      job.settings,
+      createMarket(Math.floor(job.inputs.period), job.params),
+      job.pricing
+    );
+    onProgress(1 / steps);
+    const bands = runMonteCarloByPeriod(
+      job.inputs,
+      job.params,
+      job.settings,
+      job.periods,
+      createMarket,
+      'netTokens',
+      job.pricing,
+      (done) => onProgress((done + 1) / steps)
+    );
+    return { result, bands };
+  },
+  sensitivity: (job, onProgress) =>
+    runSensitivity(
+      job.inputs,
+      job.params,
+      job.delta,
+      createMarketFactory(job.market, job.pricing),
+      job.pricing,
+      (done, total) => onProgress(done / total)
+    ),
+  heatmap: (job, onProgress) =>
+    runHeatmap(
+      job.inputs,
+      job.params,
+      job.xKey,
+      job.yKey,
+      job.xRange,
+      job.yRange,
+      job.steps,
+      job.metric,
+      createMarketFactory(job.market, job.pricing),
+      job.pricing,
+      (done, total) => onProgress(done / total)
+    ),
+};
+
+export const runComputeJob = <T extends ComputeJobType>(
+  job: ComputeJobOf<T>,
+  onProgress: ProgressCallback = () => {}
+): ComputeResults[T] => {
+  const run = RUNNERS[job.type as T];
+  return run(job, onProgress);
+};
+
+// Messages between the page and the compute worker; id ties responses to their request
+export interface ComputeRequest {
+  id: number;
+  job: ComputeJob;
+}
+
+export type ComputeResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; result: ComputeResults[ComputeJobType] }
+  | { id: number; type: 'error'; message: string };
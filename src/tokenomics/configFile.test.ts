@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG_SCHEMA_VERSION, parseConfigFile, serializeConfigFile } from './configFile';
+import { DEFAULT_SYSTEM_PARAMS } from './params';
+import { DEFAULT_USER_INPUTS } from './inputs';
+
+describe('parseConfigFile', () => {
+  it('round-trips JSON and YAML exports', () => {
+    const config = { name: 'База', systemParams: { ...DEFAULT_SYSTEM_PARAMS, k: 0.0002 }, userInputs: DEFAULT_USER_INPUTS };
+    for (const format of ['json', 'yaml'] as const) {
+      const result = parseConfigFile(serializeConfigFile(config, format), `config.${format}`);
+      expect(result.errors).toEqual([]);
+      expect(result.config).toEqual({ version: CONFIG_SCHEMA_VERSION, ...config, simulation: undefined, monteCarlo: undefined });
+    }
+  });
+
+  it('fills missing keys with defaults', () => {
+    const result = parseConfigFile('{"version": 1, "systemParams": {"k": 0.0003}}');
+    expect(result.config?.systemParams).toEqual({ ...DEFAULT_SYSTEM_PARAMS, k: 0.0003 });
+  });
+
+  it('migrates an unversioned preset', () => {
+    const result = parseConfigFile(JSON.stringify({ name: 'Пресет', params: { gamma: 1 } }));
+    expect(result.config?.name).toBe('Пресет');
+    expect(result.config?.systemParams?.gamma).toBe(1);
+  });
+
+  it('migrates a parameter dump that declares version 0', () => {
+    const result = parseConfigFile(JSON.stringify({ version: 0, name: 'Дамп', gamma: 1 }));
+    expect(result.errors).toEqual([]);
+    expect(result.config?.name).toBe('Дамп');
+    expect(result.config?.systemParams).toEqual({ ...DEFAULT_SYSTEM_PARAMS, gamma: 1 });
+  });
+
+  it('reports unknown keys and out-of-range values by path', () => {
+    const result = parseConfigFile('{"version": 1, "systemParams": {"CB_base": 2, "foo": 1}, "extra": true}');
+    expect(result.config).toBeNull();
+    expect(result.errors.map((error) => error.path).sort()).toEqual(['extra', 'systemParams.CB_base', 'systemParams.foo']);
+  });
+
+  it('rejects files from a newer schema', () => {
+    const result = parseConfigFile(`{"version": ${CONFIG_SCHEMA_VERSION + 1}}`);
+    expect(result.errors[0].path).toBe('version');
+  });
+
+  it('reports malformed syntax', () => {
+    expect(parseConfigFile('{', 'a.json').errors).toHaveLength(1);
+    expect(parseConfigFile('a: [', 'a.yaml').errors).toHaveLength(1);
+  });
+});
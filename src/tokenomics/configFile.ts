@@ -0,0 +1,255 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import { DEFAULT_SYSTEM_PARAMS, validateSystemParam, type SystemParams } from './params';
+import { validateCurve } from './curves';
+import { validateBurnSplit } from './burnSplit';
+import { DEFAULT_USER_INPUTS, validateInput, type UserInputs } from './inputs';
+import {
+  DEFAULT_SIMULATION_SETTINGS,
+  validateSimulationSetting,
+  type SimulationSettings,
+} from './simulation';
+import {
+  DEFAULT_MONTE_CARLO_SETTINGS,
+  validateMonteCarloSetting,
+  type MonteCarloSettings,
+} from './monteCarlo';
+
+// Config file schema (JSON or YAML), current version 1:
+//
+//   version: 1                  # required since v1
+//   name: "Базовый сценарий"    # optional
+//   systemParams: { ... }       # optional, keys of SystemParams (curve: { type, ... }, hard_caps: bool)
+//   userInputs: { ... }         # optional, keys of UserInputs
+//   simulation: { ... }         # optional, keys of SimulationSettings
+//   monteCarlo: { ... }         # optional, keys of MonteCarloSettings
+//
+// Keys missing inside a section take default values; unknown keys are errors.
+// Older files are upgraded through MIGRATIONS before validation.
+export interface ConfigFile {
+  version: number;
+  name?: string;
+  systemParams?: SystemParams;
+  userInputs?: UserInputs;
+  simulation?: SimulationSettings;
+  monteCarlo?: MonteCarloSettings;
+}
+
+export const CONFIG_SCHEMA_VERSION = 1;
+
+export type ConfigFormat = 'json' | 'yaml';
+
+// Validation error at a path such as "systemParams.k"
+export interface ConfigError {
+  path: string;
+  message: string;
+}
+
+export interface ConfigParseResult {
+  config: ConfigFile | null;
+  errors: ConfigError[];
+}
+
+type ConfigDocument = Record<string, unknown>;
+
+const isObject = (value: unknown): value is ConfigDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Upgrades a document from version N (the key) to version N + 1
+const MIGRATIONS: Record<number, (doc: ConfigDocument) => ConfigDocument> = {
+  // v0: unversioned dump of SystemParams, or of a saved preset { name, params }.
+  // A dump may declare version 0 and carry a name, neither of which is a parameter.
+  0: (doc) =>
+    isObject(doc.params)
+      ? { version: 1, name: doc.name, systemParams: doc.params }
+      : {
+          version: 1,
+          name: doc.name,
+          systemParams: Object.fromEntries(
+            Object.entries(doc).filter(([key]) => key !== 'version' && key !== 'name')
+          ),
+        },
+};
+
+// Validates one field of a section; messages are in the given locale
+type FieldValidator<K> = (field: K, value: unknown, locale: Locale) => string | null;
+
+// Read a section, validating each key and filling missing keys with defaults
+const readSection = <T extends object>(
+  doc: ConfigDocument,
+  section: string,
+  defaults: T,
+  validate: FieldValidator<keyof T>,
+  errors: ConfigError[],
+  locale: Locale
+): T | undefined => {
+  const raw = doc[section];
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!isObject(raw)) {
+    errors.push({ path: section, message: translate(locale, 'config.error.section') });
+    return undefined;
+  }
+
+  const result = { ...defaults };
+  for (const [key, value] of Object.entries(raw)) {
+    const path = `${section}.${key}`;
+    if (!(key in defaults)) {
+      errors.push({ path, message: translate(locale, 'config.error.unknownField') });
+      continue;
+    }
+    const error = validate(key as keyof T, value, locale);
+    if (error) {
+      errors.push({ path, message: error });
+      continue;
+    }
+    result[key as keyof T] = value as T[keyof T];
+  }
+  return result;
+};
+
+// Require a number before running a numeric field validator
+const numeric =
+  <K>(validate: (field: K, value: number, locale: Locale) => string | null): FieldValidator<K> =>
+  (field, value, locale) =>
+    typeof value === 'number' ? validate(field, value, locale) : translate(locale, 'validation.number');
+
+// The curve is an object and hard_caps a flag; every other system parameter is a number
+const validateSystemParamField: FieldValidator<keyof SystemParams> = (field, value, locale) => {
+  if (field === 'curve') {
+    return validateCurve(value, undefined, locale);
+  }
+  if (field === 'hard_caps') {
+    return typeof value === 'boolean' ? null : translate(locale, 'validation.boolean');
+  }
+  return numeric(validateSystemParam)(field, value, locale);
+};
+
+const MONTE_CARLO_DISTRIBUTIONS = ['fixed', 'uniform', 'normal'];
+
+const validateMonteCarloField: FieldValidator<keyof MonteCarloSettings> = (field, value, locale) => {
+  if (field === 'priceDistribution') {
+    return typeof value === 'string' && MONTE_CARLO_DISTRIBUTIONS.includes(value)
+      ? null
+      : translate(locale, 'config.error.distribution', { distributions: MONTE_CARLO_DISTRIBUTIONS.join(', ') });
+  }
+  return numeric(validateMonteCarloSetting)(field, value, locale);
+};
+
+const KNOWN_KEYS = ['version', 'name', 'systemParams', 'userInputs', 'simulation', 'monteCarlo'];
+
+// Bring a document to CONFIG_SCHEMA_VERSION
+const migrate = (doc: ConfigDocument, errors: ConfigError[], locale: Locale): ConfigDocument | null => {
+  const declared = doc.version === undefined ? 0 : doc.version;
+
+  if (typeof declared !== 'number' || !Number.isInteger(declared) || declared < 0) {
+    errors.push({ path: 'version', message: translate(locale, 'config.error.version') });
+    return null;
+  }
+  if (declared > CONFIG_SCHEMA_VERSION) {
+    errors.push({
+      path: 'version',
+      message: translate(locale, 'config.error.versionTooNew', {
+        version: declared,
+        supported: CONFIG_SCHEMA_VERSION,
+      }),
+    });
+    return null;
+  }
+
+  let current = doc;
+  let version = declared;
+  while (version < CONFIG_SCHEMA_VERSION) {
+    current = MIGRATIONS[version](current);
+    version = current.version as number;
+  }
+  return current;
+};
+
+// Parse and validate a config file; format is taken from the file extension
+export const parseConfigFile = (
+  text: string,
+  fileName = '',
+  locale: Locale = DEFAULT_LOCALE
+): ConfigParseResult => {
+  const format: ConfigFormat = /\.ya?ml$/i.test(fileName) ? 'yaml' : 'json';
+  const errors: ConfigError[] = [];
+
+  let raw: unknown;
+  try {
+    raw = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    return {
+      config: null,
+      errors: [
+        {
+          path: '',
+          message: translate(locale, 'config.error.parse', {
+            format: format.toUpperCase(),
+            message: (error as Error).message,
+          }),
+        },
+      ],
+    };
+  }
+  if (!isObject(raw)) {
+    return { config: null, errors: [{ path: '', message: translate(locale, 'config.error.object') }] };
+  }
+
+  const doc = migrate(raw, errors, locale);
+  if (!doc) {
+    return { config: null, errors };
+  }
+
+  for (const key of Object.keys(doc)) {
+    if (!KNOWN_KEYS.includes(key)) {
+      errors.push({ path: key, message: translate(locale, 'config.error.unknownField') });
+    }
+  }
+  if (doc.name !== undefined && typeof doc.name !== 'string') {
+    errors.push({ path: 'name', message: translate(locale, 'config.error.name') });
+  }
+
+  const config: ConfigFile = {
+    version: CONFIG_SCHEMA_VERSION,
+    name: typeof doc.name === 'string' ? doc.name : undefined,
+    systemParams: readSection(doc, 'systemParams', DEFAULT_SYSTEM_PARAMS, validateSystemParamField, errors, locale),
+    userInputs: readSection(doc, 'userInputs', DEFAULT_USER_INPUTS, numeric(validateInput), errors, locale),
+    simulation: readSection(
+      doc,
+      'simulation',
+      DEFAULT_SIMULATION_SETTINGS,
+      numeric(validateSimulationSetting),
+      errors,
+      locale
+    ),
+    monteCarlo: readSection(doc, 'monteCarlo', DEFAULT_MONTE_CARLO_SETTINGS, validateMonteCarloField, errors, locale),
+  };
+
+  // The curve is checked alone above; whether it rises from P0 depends on both keys
+  const curveError =
+    config.systemParams &&
+    !errors.some((error) => error.path === 'systemParams.curve') &&
+    validateCurve(config.systemParams.curve, config.systemParams.P0, locale);
+  if (curveError) {
+    errors.push({ path: 'systemParams.curve', message: curveError });
+  }
+
+  // Burn shares are valid one by one but may not exceed the whole burn together
+  const splitError = config.systemParams && validateBurnSplit(config.systemParams, locale);
+  if (splitError) {
+    errors.push({ path: 'systemParams', message: splitError });
+  }
+
+  return { config: errors.length > 0 ? null : config, errors };
+};
+
+// Serialize a config file, omitting empty sections
+export const serializeConfigFile = (config: Omit<ConfigFile, 'version'>, format: ConfigFormat): string => {
+  const doc = Object.fromEntries(
+    Object.entries({ version: CONFIG_SCHEMA_VERSION, ...config }).filter(([, value]) => value !== undefined)
+  );
+  return format === 'yaml' ? stringifyYaml(doc) : `${JSON.stringify(doc, null, 2)}\n`;
+};
@@ -0,0 +1,134 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+
+// Fiat currencies for display and purchase price entry.
+// The engine works in rubles (P0 is the token's ruble price); other currencies are
+// converted at display time and when a purchase price is entered.
+export type Currency = 'RUB' | 'USD' | 'EUR' | 'CNY' | 'KZT';
+
+export const CURRENCIES: Currency[] = ['RUB', 'USD', 'EUR', 'CNY', 'KZT'];
+
+// Rubles per one unit of each currency
+export type ExchangeRates = Record<Currency, number>;
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  RUB: 1,
+  USD: 90,
+  EUR: 98,
+  CNY: 12.5,
+  KZT: 0.18,
+};
+
+export interface CurrencySettings {
+  display: Currency; // Token price and ruble-derived values
+  input: Currency; // Currency the purchase price is entered in
+  rates: ExchangeRates;
+}
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  display: 'RUB',
+  input: 'RUB',
+  rates: DEFAULT_EXCHANGE_RATES,
+};
+
+const CURRENCY_STORAGE_KEY = 'tokenomics.currency';
+
+const isCurrency = (value: unknown): value is Currency => CURRENCIES.includes(value as Currency);
+
+// Validation function
+export const validateExchangeRate = (
+  currency: Currency,
+  value: number,
+  locale: Locale = DEFAULT_LOCALE
+): string | null => {
+  if (currency === 'RUB') {
+    return value === 1 ? null : translate(locale, 'currency.error.rub');
+  }
+  if (isNaN(value) || value <= 0) {
+    return translate(locale, 'currency.error.rate');
+  }
+  return null;
+};
+
+export const convertFromRub = (rub: number, currency: Currency, rates: ExchangeRates): number =>
+  rub / rates[currency];
+
+export const convertToRub = (amount: number, currency: Currency, rates: ExchangeRates): number =>
+  amount * rates[currency];
+
+export interface RatesParseResult {
+  rates: ExchangeRates | null;
+  errors: string[];
+}
+
+// Parse a rates file: a JSON object of rubles per unit, either flat
+// ({ "USD": 90.5 }) or under a "rates" key. Currencies left out keep their current rate.
+export const parseRatesFile = (
+  text: string,
+  current: ExchangeRates,
+  locale: Locale = DEFAULT_LOCALE
+): RatesParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { rates: null, errors: [translate(locale, 'currency.error.json', { message: (error as Error).message })] };
+  }
+  const doc = typeof raw === 'object' && raw !== null && 'rates' in raw ? raw.rates : raw;
+  if (typeof doc !== 'object' || doc === null || Array.isArray(doc)) {
+    return { rates: null, errors: [translate(locale, 'currency.error.object')] };
+  }
+
+  const rates = { ...current };
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(doc)) {
+    if (!isCurrency(key)) {
+      errors.push(translate(locale, 'currency.error.unknown', { currency: key }));
+      continue;
+    }
+    const error =
+      typeof value === 'number'
+        ? validateExchangeRate(key, value, locale)
+        : translate(locale, 'currency.error.rateNumber');
+    if (error) {
+      errors.push(`${key}: ${error}`);
+      continue;
+    }
+    rates[key] = value;
+  }
+  return { rates: errors.length > 0 ? null : rates, errors };
+};
+
+// Load saved currency settings, falling back to defaults for anything malformed
+export const loadCurrencySettings = (): CurrencySettings => {
+  try {
+    const raw = localStorage.getItem(CURRENCY_STORAGE_KEY);
+    if (!raw) {
+      return DEFAULT_CURRENCY_SETTINGS;
+    }
+    const parsed = JSON.parse(raw);
+    const rates = { ...DEFAULT_EXCHANGE_RATES };
+    for (const currency of CURRENCIES) {
+      const rate = parsed?.rates?.[currency];
+      if (typeof rate === 'number' && !validateExchangeRate(currency, rate)) {
+        rates[currency] = rate;
+      }
+    }
+    return {
+      display: isCurrency(parsed?.display) ? parsed.display : 'RUB',
+      input: isCurrency(parsed?.input) ? parsed.input : 'RUB',
+      rates,
+    };
+  } catch {
+    return DEFAULT_CURRENCY_SETTINGS;
+  }
+};
+
+// Persist currency settings
+export const saveCurrencySettings = (settings: CurrencySettings): void => {
+  try {
+    localStorage.setItem(CURRENCY_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage may be unavailable (private mode, quota) - settings stay in memory
+  }
+};
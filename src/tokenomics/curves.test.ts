@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { CURVE_SHAPES, DEFAULT_CURVES, curveArea, curvePrice, validateCurve } from './curves';
+import { DEFAULT_SYSTEM_PARAMS, SYSTEM_PARAM_FIELDS, parameterFormula } from './params';
+
+describe('validateCurve', () => {
+  it('accepts every default shape', () => {
+    for (const shape of CURVE_SHAPES) {
+      expect(validateCurve(DEFAULT_CURVES[shape], DEFAULT_SYSTEM_PARAMS.P0)).toBeNull();
+    }
+  });
+
+  it('rejects piecewise prices that fall', () => {
+    const points = [
+      { x: 0, price: 10 },
+      { x: 100, price: 5 },
+    ];
+    expect(validateCurve({ type: 'piecewise', points })).toMatch(/^Точка 2/);
+  });
+
+  it('rejects a sigmoid that tops out below P0', () => {
+    const curve = { ...DEFAULT_CURVES.sigmoid, maxPrice: 5 };
+    expect(validateCurve(curve, 10)).not.toBeNull();
+    expect(validateCurve(curve, 5)).toBeNull();
+  });
+
+  it('rejects unknown shapes and negative slopes', () => {
+    expect(validateCurve({ type: 'cubic' })).not.toBeNull();
+    expect(validateCurve({ type: 'linear', slope: -1 })).not.toBeNull();
+  });
+});
+
+describe('curveArea', () => {
+  // Midpoint rule over the price, to check each closed-form area
+  const numericArea = (from: number, to: number, curve: (typeof DEFAULT_CURVES)[keyof typeof DEFAULT_CURVES]) => {
+    const steps = 20000;
+    const width = (to - from) / steps;
+    let area = 0;
+    for (let i = 0; i < steps; i++) {
+      area += curvePrice(from + (i + 0.5) * width, { ...DEFAULT_SYSTEM_PARAMS, curve }) * width;
+    }
+    return area;
+  };
+
+  it.each(CURVE_SHAPES)('matches the integral of the %s price', (shape) => {
+    const curve = DEFAULT_CURVES[shape];
+    const exact = curveArea(5000, 30000, { ...DEFAULT_SYSTEM_PARAMS, curve });
+    expect(exact / numericArea(5000, 30000, curve)).toBeCloseTo(1, 6);
+  });
+
+  it('never decreases the price along a valid curve', () => {
+    for (const shape of CURVE_SHAPES) {
+      const params = { ...DEFAULT_SYSTEM_PARAMS, curve: DEFAULT_CURVES[shape] };
+      for (let x = 0; x < 150000; x += 5000) {
+        expect(curvePrice(x + 5000, params)).toBeGreaterThanOrEqual(curvePrice(x, params));
+      }
+    }
+  });
+});
+
+describe('parameterFormula', () => {
+  const field = (key: string) => SYSTEM_PARAM_FIELDS.find((f) => f.key === key)!;
+
+  it('shows the price formula of the selected curve', () => {
+    expect(parameterFormula(field('P0'), DEFAULT_CURVES.linear)).toContain('slope');
+    expect(parameterFormula(field('P0'), DEFAULT_CURVES.quadratic)).toContain('k·S²');
+    expect(parameterFormula(field('k'), DEFAULT_CURVES.quadratic)).toContain('k·S²');
+  });
+
+  it('has no formula for price parameters the curve does not use', () => {
+    expect(parameterFormula(field('k'), DEFAULT_CURVES.exponential)).toBeNull();
+    expect(parameterFormula(field('P0'), DEFAULT_CURVES.piecewise)).toBeNull();
+  });
+});
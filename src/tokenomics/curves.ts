@@ -0,0 +1,170 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import type { SystemParams } from './params';
+
+export type CurveShape = 'linear' | 'quadratic' | 'exponential' | 'sigmoid' | 'piecewise';
+
+export interface CurvePoint {
+  x: number; // Total minted
+  price: number; // Token price at x (₽)
+}
+
+// Bonding curve shape and its own parameters; all but piecewise start at P0
+export type BondingCurve =
+  | { type: 'linear'; slope: number } // P0 · (1 + slope·x)
+  | { type: 'quadratic' } // P0 · (1 + k·x²), k from SystemParams
+  | { type: 'exponential'; rate: number } // P0 · e^(rate·x)
+  | { type: 'sigmoid'; maxPrice: number; midpoint: number; steepness: number } // P0 → maxPrice around midpoint
+  | { type: 'piecewise'; points: CurvePoint[] }; // Linear between points, flat outside
+
+export const CURVE_SHAPES: CurveShape[] = ['linear', 'quadratic', 'exponential', 'sigmoid', 'piecewise'];
+
+// Default parameters of each shape
+export const DEFAULT_CURVES: { [S in CurveShape]: Extract<BondingCurve, { type: S }> } = {
+  linear: { type: 'linear', slope: 0.01 },
+  quadratic: { type: 'quadratic' },
+  exponential: { type: 'exponential', rate: 0.0001 },
+  sigmoid: { type: 'sigmoid', maxPrice: 1000, midpoint: 20000, steepness: 0.0003 },
+  piecewise: {
+    type: 'piecewise',
+    points: [
+      { x: 0, price: 1 },
+      { x: 10000, price: 50 },
+      { x: 50000, price: 500 },
+      { x: 100000, price: 2000 },
+    ],
+  },
+};
+
+export const DEFAULT_BONDING_CURVE: BondingCurve = DEFAULT_CURVES.quadratic;
+
+// Validate a curve, returning the first error.
+// Prices may not fall as supply grows: the integral pricing solver relies on it.
+// The sigmoid's lower end is P0, so its check needs P0 when one is given.
+export const validateCurve = (curve: unknown, P0?: number, locale: Locale = DEFAULT_LOCALE): string | null => {
+  if (!curve || typeof curve !== 'object') {
+    return translate(locale, 'curve.error.object');
+  }
+  const c = curve as Record<string, unknown>;
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+  switch (c.type) {
+    case 'quadratic':
+      return null;
+    case 'linear':
+      return isNumber(c.slope) && c.slope >= 0 ? null : translate(locale, 'curve.error.slope');
+    case 'exponential':
+      return isNumber(c.rate) && c.rate >= 0 ? null : translate(locale, 'curve.error.rate');
+    case 'sigmoid':
+      if (!isNumber(c.maxPrice) || c.maxPrice <= 0) {
+        return translate(locale, 'curve.error.maxPrice');
+      }
+      if (P0 !== undefined && c.maxPrice < P0) {
+        return translate(locale, 'curve.error.maxPriceBelowP0');
+      }
+      if (!isNumber(c.midpoint) || c.midpoint < 0) {
+        return translate(locale, 'curve.error.midpoint');
+      }
+      return isNumber(c.steepness) && c.steepness > 0 ? null : translate(locale, 'curve.error.steepness');
+    case 'piecewise': {
+      const points = c.points;
+      if (!Array.isArray(points) || points.length < 2) {
+        return translate(locale, 'curve.error.points');
+      }
+      for (let i = 0; i < points.length; i++) {
+        const point = points[i];
+        if (!point || !isNumber(point.x) || !isNumber(point.price) || point.x < 0 || point.price <= 0) {
+          return translate(locale, 'curve.error.point', { index: i + 1 });
+        }
+        if (i > 0 && point.x <= points[i - 1].x) {
+          return translate(locale, 'curve.error.pointOrder', { index: i + 1 });
+        }
+        if (i > 0 && point.price < points[i - 1].price) {
+          return translate(locale, 'curve.error.pointPrice', { index: i + 1 });
+        }
+      }
+      return null;
+    }
+    default:
+      return translate(locale, 'curve.error.shape', { shapes: CURVE_SHAPES.join(', ') });
+  }
+};
+
+const sigmoid = (z: number): number => 1 / (1 + Math.exp(-z));
+
+// ln(1 + e^z) without overflow
+const softplus = (z: number): number => (z > 30 ? z : Math.log1p(Math.exp(z)));
+
+// Piecewise price, flat before the first and after the last point
+const piecewisePrice = (points: CurvePoint[], x: number): number => {
+  if (x <= points[0].x) {
+    return points[0].price;
+  }
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (x <= b.x) {
+      return a.price + ((b.price - a.price) * (x - a.x)) / (b.x - a.x);
+    }
+  }
+  return points[points.length - 1].price;
+};
+
+// Area under the piecewise curve from 0 to x
+const piecewiseArea = (points: CurvePoint[], x: number): number => {
+  let area = Math.min(x, points[0].x) * points[0].price;
+  for (let i = 1; i < points.length && x > points[i - 1].x; i++) {
+    const a = points[i - 1];
+    const to = Math.min(x, points[i].x);
+    area += ((a.price + piecewisePrice(points, to)) / 2) * (to - a.x);
+  }
+  const last = points[points.length - 1];
+  if (x > last.x) {
+    area += (x - last.x) * last.price;
+  }
+  return area;
+};
+
+// Token price at total supply x
+export const curvePrice = (x: number, params: SystemParams): number => {
+  const { curve, P0 } = params;
+  switch (curve.type) {
+    case 'linear':
+      return P0 * (1 + curve.slope * x);
+    case 'quadratic':
+      return P0 * (1 + params.k * x ** 2);
+    case 'exponential':
+      return P0 * Math.exp(curve.rate * x);
+    case 'sigmoid': {
+      // Normalised so that the price is exactly P0 at x = 0
+      const start = sigmoid(-curve.steepness * curve.midpoint);
+      const share = (sigmoid(curve.steepness * (x - curve.midpoint)) - start) / (1 - start);
+      return P0 + (curve.maxPrice - P0) * share;
+    }
+    case 'piecewise':
+      return piecewisePrice(curve.points, x);
+  }
+};
+
+// Rubles under the curve between supplies `from` and `to`
+export const curveArea = (from: number, to: number, params: SystemParams): number => {
+  const { curve, P0 } = params;
+  const width = to - from;
+  switch (curve.type) {
+    case 'linear':
+      return P0 * (width + (curve.slope * (to ** 2 - from ** 2)) / 2);
+    case 'quadratic':
+      return P0 * (width + (params.k * (to ** 3 - from ** 3)) / 3);
+    case 'exponential':
+      return curve.rate === 0
+        ? P0 * width
+        : (P0 / curve.rate) * (Math.exp(curve.rate * to) - Math.exp(curve.rate * from));
+    case 'sigmoid': {
+      const start = sigmoid(-curve.steepness * curve.midpoint);
+      const { steepness: s, midpoint: m } = curve;
+      const sigmoidArea = (softplus(s * (to - m)) - softplus(s * (from - m))) / s;
+      return P0 * width + ((curve.maxPrice - P0) * (sigmoidArea - start * width)) / (1 - start);
+    }
+    case 'piecewise':
+      return piecewiseArea(curve.points, to) - piecewiseArea(curve.points, from);
+  }
+};
@@ -0,0 +1,103 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import type { Rng } from './random';
+
+// Value distributions for population and Monte Carlo models
+export type Distribution =
+  | { type: 'fixed'; value: number }
+  | { type: 'uniform'; min: number; max: number }
+  | { type: 'normal'; mean: number; stdDev: number }; // Truncated at 0
+
+export type DistributionType = Distribution['type'];
+
+// Create a distribution of the given type centred on value; spread is relative to value
+export const createDistribution = (
+  type: DistributionType,
+  value: number,
+  spread = 0.3
+): Distribution => {
+  switch (type) {
+    case 'fixed':
+      return { type, value };
+    case 'uniform':
+      return { type, min: Math.max(0, value * (1 - spread)), max: value * (1 + spread) };
+    case 'normal':
+      return { type, mean: value, stdDev: value * spread };
+  }
+};
+
+// Validate distribution parameters
+export const validateDistribution = (dist: Distribution, locale: Locale = DEFAULT_LOCALE): string | null => {
+  switch (dist.type) {
+    case 'fixed':
+      if (isNaN(dist.value) || dist.value < 0) {
+        return translate(locale, 'validation.nonNegative');
+      }
+      return null;
+    case 'uniform':
+      if (isNaN(dist.min) || isNaN(dist.max) || dist.min < 0 || dist.max < dist.min) {
+        return translate(locale, 'distribution.error.uniform');
+      }
+      return null;
+    case 'normal':
+      if (isNaN(dist.mean) || isNaN(dist.stdDev) || dist.mean < 0 || dist.stdDev < 0) {
+        return translate(locale, 'distribution.error.normal');
+      }
+      return null;
+  }
+};
+
+// Mean of the distribution (ignoring truncation of the normal tail)
+export const distributionMean = (dist: Distribution): number => {
+  switch (dist.type) {
+    case 'fixed':
+      return dist.value;
+    case 'uniform':
+      return (dist.min + dist.max) / 2;
+    case 'normal':
+      return dist.mean;
+  }
+};
+
+// Inverse of the standard normal CDF (Acklam's rational approximation)
+const inverseStandardNormal = (p: number): number => {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+// Value at cumulative probability p (0 < p < 1)
+export const distributionQuantile = (dist: Distribution, p: number): number => {
+  switch (dist.type) {
+    case 'fixed':
+      return dist.value;
+    case 'uniform':
+      return dist.min + (dist.max - dist.min) * p;
+    case 'normal':
+      return Math.max(0, dist.mean + dist.stdDev * inverseStandardNormal(p));
+  }
+};
+
+// Draw a value using inverse transform sampling
+export const sampleDistribution = (dist: Distribution, rng: Rng): number => {
+  // Keep u strictly inside (0, 1) so the normal quantile stays finite
+  const u = Math.min(Math.max(rng(), 1e-12), 1 - 1e-12);
+  return distributionQuantile(dist, u);
+};
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateBurnedTokens,
+  calculateCashbackPercent,
+  calculateCurveArea,
+  calculateDiminishingFactor,
+  calculateDiscountPercent,
+  calculateMintedTokens,
+  calculateQualityFactor,
+  calculateResults,
+  calculateTokenPrice,
+  calculateTokensForBurnValue,
+  calculateTokensForValue,
+} from './engine';
+import { DEFAULT_CURVES } from './curves';
+import { DEFAULT_SYSTEM_PARAMS, type SystemParams } from './params';
+import { DEFAULT_USER_INPUTS } from './inputs';
+
+const params = DEFAULT_SYSTEM_PARAMS;
+const withCurve = (curve: SystemParams['curve']): SystemParams => ({ ...params, curve });
+
+describe('rates', () => {
+  it('degrades cashback linearly from t_launch and floors it at zero', () => {
+    expect(calculateCashbackPercent(0, params)).toBeCloseTo(0.05, 12);
+    expect(calculateCashbackPercent(1, params)).toBeCloseTo(0.0495, 12);
+    expect(calculateCashbackPercent(200, params)).toBe(0);
+  });
+
+  it('rewards quality and penalises returns', () => {
+    expect(calculateQualityFactor(0.1, 0.8, params)).toBeCloseTo(1.216, 12);
+    expect(calculateQualityFactor(1, 1, params)).toBe(1);
+  });
+
+  it('decays DF to exp(−γ) at user_cap', () => {
+    expect(calculateDiminishingFactor(0, params)).toBe(1);
+    expect(calculateDiminishingFactor(params.user_cap, params)).toBeCloseTo(Math.exp(-0.5), 12);
+    expect(calculateDiminishingFactor(params.user_cap, params)).toBeCloseTo(0.6065306597, 10);
+  });
+
+  it('degrades the discount by θ at burn_cap', () => {
+    expect(calculateDiscountPercent(0, params)).toBeCloseTo(0.1, 12);
+    expect(calculateDiscountPercent(params.burn_cap, params)).toBeCloseTo(0.1 * (1 - 0.006), 12);
+  });
+});
+
+describe('bonding curve', () => {
+  it('prices the default quadratic curve at P0·(1 + k·S²)', () => {
+    expect(calculateTokenPrice(0, params)).toBe(1);
+    expect(calculateTokenPrice(1000, params)).toBeCloseTo(101, 9);
+    expect(calculateTokenPrice(5000, params)).toBeCloseTo(2501, 9);
+  });
+
+  it('starts every parametric shape at P0', () => {
+    for (const shape of ['linear', 'quadratic', 'exponential', 'sigmoid'] as const) {
+      expect(calculateTokenPrice(0, withCurve(DEFAULT_CURVES[shape]))).toBeCloseTo(params.P0, 9);
+    }
+    expect(calculateTokenPrice(100, withCurve(DEFAULT_CURVES.linear))).toBeCloseTo(2, 12);
+    expect(calculateTokenPrice(10000, withCurve(DEFAULT_CURVES.exponential))).toBeCloseTo(Math.E, 9);
+  });
+
+  it('interpolates piecewise points and stays flat past the last one', () => {
+    const curved = withCurve(DEFAULT_CURVES.piecewise);
+    expect(calculateTokenPrice(5000, curved)).toBeCloseTo(25.5, 9);
+    expect(calculateTokenPrice(200000, curved)).toBe(2000);
+  });
+
+  it('integrates the quadratic curve exactly', () => {
+    // ∫₀¹⁰⁰⁰ (1 + 0.0001·x²) dx = 1000 + 0.0001·10⁹ / 3
+    expect(calculateCurveArea(0, 1000, params)).toBeCloseTo(1000 + 1e5 / 3, 6);
+  });
+});
+
+describe('pricing', () => {
+  it('converts rubles at the spot price', () => {
+    expect(calculateTokensForValue(1010, 1000, params)).toBeCloseTo(10, 12);
+    expect(calculateTokensForBurnValue(1010, 1000, params)).toBeCloseTo(10, 12);
+  });
+
+  it('solves the area under the curve in integral mode', () => {
+    const minted = calculateTokensForValue(5000, 1000, params, 'integral');
+    expect(calculateCurveArea(1000, 1000 + minted, params)).toBeCloseTo(5000, 6);
+    expect(minted).toBeLessThan(calculateTokensForValue(5000, 1000, params));
+
+    const burned = calculateTokensForBurnValue(5000, 1000, params, 'integral');
+    expect(calculateCurveArea(1000 - burned, 1000, params)).toBeCloseTo(5000, 6);
+    expect(burned).toBeGreaterThan(calculateTokensForBurnValue(5000, 1000, params));
+  });
+
+  it('caps an integral burn at the whole supply', () => {
+    expect(calculateTokensForBurnValue(1e12, 1000, params, 'integral')).toBe(1000);
+  });
+});
+
+describe('hard caps', () => {
+  const capped: SystemParams = { ...params, hard_caps: true, user_cap: 20 };
+
+  it('stops minting at user_cap', () => {
+    const result = calculateMintedTokens(DEFAULT_USER_INPUTS, capped, 1000);
+    expect(result.totalMintedUser).toBeCloseTo(20, 12);
+    expect(result.mintCutOff).toBeGreaterThan(0);
+    expect(result.purchasesCutOff).toBeGreaterThan(0);
+  });
+
+  it('only shapes DF while hard caps are off', () => {
+    const result = calculateMintedTokens(DEFAULT_USER_INPUTS, { ...capped, hard_caps: false }, 1000);
+    expect(result.totalMintedUser).toBeGreaterThan(20);
+    expect(result.mintCutOff).toBe(0);
+  });
+
+  it('rejects discount burns past burn_cap but still charges the access fee', () => {
+    const result = calculateBurnedTokens(DEFAULT_USER_INPUTS, { ...params, hard_caps: true }, params.burn_cap, 1000);
+    expect(result.totalBurned).toBe(params.access_fee);
+    expect(result.purchasesBurnRejected).toBe(DEFAULT_USER_INPUTS.numberOfPurchases);
+  });
+
+  it('counts only the redeemed discounts in rubles', () => {
+    // burn_cap leaves room for three of the seven discount burns above the market's burn
+    const { breakdown } = calculateResults(DEFAULT_USER_INPUTS, { ...params, hard_caps: true, burn_cap: 1210 });
+    const { purchasePrice, numberOfPurchases } = DEFAULT_USER_INPUTS;
+    expect(breakdown.purchasesBurnRejected).toBe(4);
+    expect(breakdown.discountRubTotal).toBeCloseTo(
+      purchasePrice * (numberOfPurchases - 4) * breakdown.discount_percent,
+      9
+    );
+  });
+});
+
+describe('calculateResults', () => {
+  it('pins the default buyer scenario', () => {
+    const results = calculateResults(DEFAULT_USER_INPUTS, params);
+    expect(results.totalMintedUser).toBeCloseTo(40.28622, 5);
+    expect(results.tokenPrice).toBeCloseTo(2529.70385, 4);
+    expect(results.totalBurned).toBeCloseTo(12.76710, 5);
+    expect(results.netTokens).toBeCloseTo(27.51912, 5);
+    expect(results.breakdown.dfLast).toBeCloseTo(0.99798772, 8);
+    expect(results.breakdown.newGlobalTotalMinted).toBeCloseTo(5028.62193, 4);
+    expect(results.burnSplit.sellers).toBeCloseTo(results.totalBurned * 0.3, 12);
+  });
+
+  it('mints less and burns more with integral pricing', () => {
+    const spot = calculateResults(DEFAULT_USER_INPUTS, params);
+    const integral = calculateResults(DEFAULT_USER_INPUTS, params, undefined, 'integral');
+    expect(integral.totalMintedUser).toBeCloseTo(40.06995, 5);
+    expect(integral.totalMintedUser).toBeLessThan(spot.totalMintedUser);
+    expect(integral.totalBurned).toBeGreaterThan(spot.totalBurned);
+  });
+});
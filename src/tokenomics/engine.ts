@@ -0,0 +1,517 @@
+import type { SystemParams } from './params';
+import type { UserInputs } from './inputs';
+import { curveArea, curvePrice } from './curves';
+import { splitBurn, type BurnSplit } from './burnSplit';
+
+// Market simulation assumptions
+export interface MarketAssumptions {
+  assumedUsers: number; // Number of similar users for global supply estimation
+  assumedBurnRate: number; // Share of minted tokens that are burned
+  initialGlobalMinted: number; // Initial global token supply before user's purchases
+}
+
+export const DEFAULT_MARKET_ASSUMPTIONS: MarketAssumptions = {
+  assumedUsers: 100,
+  assumedBurnRate: 0.3, // 30% of minted tokens are burned
+  initialGlobalMinted: 1000,
+};
+
+// Calculate CB%(t) - Cashback percentage at time t
+export const calculateCashbackPercent = (t: number, params: SystemParams): number => {
+  return Math.max(0, params.CB_base * (1 - params.alpha * (t - params.t_launch)));
+};
+
+// Calculate QFi - Quality factor for purchase i
+export const calculateQualityFactor = (
+  returnProbability: number,
+  reviewQuality: number,
+  params: SystemParams
+): number => {
+  return 1 + params.beta * (1 - returnProbability) * reviewQuality;
+};
+
+// Calculate DF(t) - Diminishing factor at time t
+export const calculateDiminishingFactor = (
+  totalMintedUser: number,
+  params: SystemParams
+): number => {
+  return Math.exp(-params.gamma * (totalMintedUser / params.user_cap));
+};
+
+// Calculate Ptoken(t) - Token price at time t on the selected bonding curve
+export const calculateTokenPrice = (
+  totalMinted: number,
+  params: SystemParams
+): number => {
+  return curvePrice(totalMinted, params);
+};
+
+// How rubles are converted to tokens on the bonding curve:
+// 'spot' uses the price at the current supply, 'integral' the area under the curve
+export type PricingMode = 'spot' | 'integral';
+
+// Rubles under the bonding curve between supplies `from` and `to`
+export const calculateCurveArea = (from: number, to: number, params: SystemParams): number => {
+  return curveArea(from, to, params);
+};
+
+const NEWTON_ITERATIONS = 50;
+const NEWTON_TOLERANCE = 1e-12;
+
+// Tokens minted for `value` rubles on top of `supply`
+export const calculateTokensForValue = (
+  value: number,
+  supply: number,
+  params: SystemParams,
+  pricing: PricingMode = 'spot'
+): number => {
+  const spot = value / calculateTokenPrice(supply, params);
+  if (pricing === 'spot' || value <= 0) {
+    return spot;
+  }
+  // Solve area(supply, supply + q) = value; the spot amount overshoots,
+  // so Newton steps on the convex area converge from above
+  let q = spot;
+  for (let i = 0; i < NEWTON_ITERATIONS; i++) {
+    const step = (calculateCurveArea(supply, supply + q, params) - value) / calculateTokenPrice(supply + q, params);
+    q -= step;
+    if (Math.abs(step) <= NEWTON_TOLERANCE * Math.max(1, q)) {
+      break;
+    }
+  }
+  return q;
+};
+
+// Tokens burned to release `value` rubles from `supply` (capped at the supply)
+export const calculateTokensForBurnValue = (
+  value: number,
+  supply: number,
+  params: SystemParams,
+  pricing: PricingMode = 'spot'
+): number => {
+  const spot = value / calculateTokenPrice(supply, params);
+  if (pricing === 'spot' || value <= 0) {
+    return spot;
+  }
+  if (value >= calculateCurveArea(0, supply, params)) {
+    return supply;
+  }
+  // Solve area(supply - q, supply) = value; the spot amount undershoots,
+  // so Newton steps on the concave area converge from below
+  let q = spot;
+  for (let i = 0; i < NEWTON_ITERATIONS; i++) {
+    const step = (value - calculateCurveArea(supply - q, supply, params)) / calculateTokenPrice(supply - q, params);
+    q = Math.min(supply, q + step);
+    if (Math.abs(step) <= NEWTON_TOLERANCE * Math.max(1, q)) {
+      break;
+    }
+  }
+  return q;
+};
+
+// Calculate discount%(t) - Discount percentage at time t
+export const calculateDiscountPercent = (
+  burnedYear: number,
+  params: SystemParams
+): number => {
+  return Math.max(0, params.discount_base * (1 - params.theta * (burnedYear / params.burn_cap)));
+};
+
+// Tokens a user may still mint before user_cap (unlimited unless hard_caps is on)
+export const calculateMintHeadroom = (totalMintedUser: number, params: SystemParams): number => {
+  return params.hard_caps ? Math.max(0, params.user_cap - totalMintedUser) : Infinity;
+};
+
+// Tokens that may still be burned this year before burn_cap (unlimited unless hard_caps is on)
+export const calculateBurnHeadroom = (burnedYear: number, params: SystemParams): number => {
+  return params.hard_caps ? Math.max(0, params.burn_cap - burnedYear) : Infinity;
+};
+
+// Mint detail of a single purchase
+export interface PurchaseMint {
+  index: number; // 1-based purchase number
+  CB_percent: number;
+  QF: number;
+  DF: number;
+  priceBefore: number; // Ptoken before the purchase mints
+  priceAfter: number; // Ptoken after the purchase mints
+  minted: number;
+  cutOff: number; // Tokens not minted because the user hit user_cap
+}
+
+export interface MintResult {
+  totalMintedUser: number;
+  newGlobalTotalMinted: number;
+  dfFirst: number;
+  dfLast: number;
+  mintedPerPurchaseAvg: number;
+  purchases: PurchaseMint[];
+  mintCutOff: number; // Tokens not minted because of user_cap
+  purchasesCutOff: number; // Purchases minted partly or not at all
+}
+
+// Calculate minted tokens for user; userMintedBefore carries the user's earlier mint into DF
+export const calculateMintedTokens = (
+  inputs: UserInputs,
+  params: SystemParams,
+  globalTotalMinted: number,
+  userMintedBefore = 0,
+  pricing: PricingMode = 'spot'
+): MintResult => {
+  let currentGlobalTotalMinted = globalTotalMinted;
+  let totalMintedUser = 0;
+
+  // Use integer period for consistency across all calculations
+  const t = Math.floor(inputs.period);
+
+  // Calculate DF at the start (before this batch of purchases)
+  const dfFirst = calculateDiminishingFactor(userMintedBefore, params);
+  const purchases: PurchaseMint[] = [];
+
+  for (let i = 0; i < inputs.numberOfPurchases; i++) {
+    const CB_percent = calculateCashbackPercent(t, params);
+    const QFi = calculateQualityFactor(
+      inputs.returnProbability,
+      inputs.reviewQuality,
+      params
+    );
+    const DF = calculateDiminishingFactor(userMintedBefore + totalMintedUser, params);
+    const Ptoken = calculateTokenPrice(currentGlobalTotalMinted, params);
+
+    const uncappedMint = calculateTokensForValue(
+      inputs.purchasePrice * CB_percent * QFi * DF,
+      currentGlobalTotalMinted,
+      params,
+      pricing
+    );
+    // With hard caps, mint stops once the user reaches user_cap
+    const mintedForPurchase = Math.min(
+      uncappedMint,
+      calculateMintHeadroom(userMintedBefore + totalMintedUser, params)
+    );
+
+    currentGlobalTotalMinted += mintedForPurchase;
+    totalMintedUser += mintedForPurchase;
+
+    purchases.push({
+      index: i + 1,
+      CB_percent,
+      QF: QFi,
+      DF,
+      priceBefore: Ptoken,
+      priceAfter: calculateTokenPrice(currentGlobalTotalMinted, params),
+      minted: mintedForPurchase,
+      cutOff: uncappedMint - mintedForPurchase,
+    });
+  }
+
+  // Calculate DF at the end (after all purchases)
+  const dfLast = calculateDiminishingFactor(userMintedBefore + totalMintedUser, params);
+  const mintedPerPurchaseAvg = totalMintedUser / inputs.numberOfPurchases;
+
+  return {
+    totalMintedUser,
+    newGlobalTotalMinted: currentGlobalTotalMinted,
+    dfFirst,
+    dfLast,
+    mintedPerPurchaseAvg,
+    purchases,
+    mintCutOff: purchases.reduce((sum, p) => sum + p.cutOff, 0),
+    purchasesCutOff: purchases.filter((p) => p.cutOff > 0).length,
+  };
+};
+
+export interface BurnResult {
+  totalBurned: number; // Discount burns plus access fee
+  burnRejected: number; // Discount burns rejected because of burn_cap
+  purchasesBurnRejected: number; // Purchases left without a discount
+}
+
+// Calculate burned tokens for user; supply is the global supply the burns are taken from.
+// With hard caps, a discount burn that would take the year past burn_cap is rejected.
+export const calculateBurnedTokens = (
+  inputs: UserInputs,
+  params: SystemParams,
+  burnedYear: number,
+  supply: number,
+  pricing: PricingMode = 'spot'
+): BurnResult => {
+  const discount_percent = calculateDiscountPercent(burnedYear, params);
+  let headroom = calculateBurnHeadroom(burnedYear, params);
+  let totalBurned = 0;
+  let burnRejected = 0;
+  let purchasesBurnRejected = 0;
+
+  for (let i = 0; i < inputs.numberOfPurchases; i++) {
+    // Convert discount in rubles to tokens on the bonding curve
+    const discountInRubles = inputs.purchasePrice * discount_percent;
+    // In integral mode every burn lowers the supply the next one is priced at
+    const burnedForPurchase = calculateTokensForBurnValue(
+      discountInRubles,
+      pricing === 'integral' ? supply - totalBurned : supply,
+      params,
+      pricing
+    );
+    if (burnedForPurchase > headroom) {
+      burnRejected += burnedForPurchase;
+      purchasesBurnRejected++;
+      continue;
+    }
+    headroom -= burnedForPurchase;
+    totalBurned += burnedForPurchase;
+  }
+
+  // access_fee is a fixed fee in tokens (not dependent on token price), charged even past burn_cap
+  return { totalBurned: totalBurned + params.access_fee, burnRejected, purchasesBurnRejected };
+};
+
+export interface CalculationBreakdown {
+  // Mint breakdown
+  t: number;
+  CB_percent: number;
+  QF: number;
+  dfFirst: number;
+  dfLast: number;
+  mintedPerPurchaseAvg: number;
+  capUsage: number;
+  // Burn breakdown
+  discount_percent: number;
+  discountRubTotal: number;
+  burnDiscountTokens: number;
+  accessFeeTokens: number;
+  // Hard caps
+  marketBurnedYear: number;
+  marketBurnedPeriod: number | null;
+  marketMinted: number;
+  mintCutOff: number;
+  purchasesCutOff: number;
+  burnRejected: number;
+  purchasesBurnRejected: number;
+  // Interpretation
+  netValueRub: number;
+  effectiveCashbackRub: number;
+  effectiveDiscountRub: number;
+  // Assumptions
+  initialGlobalTotalMinted: number;
+  assumedUsers: number;
+  assumedBurnRate: number;
+  newGlobalTotalMinted: number;
+}
+
+export interface CalculationResults {
+  totalMintedUser: number;
+  tokenPrice: number;
+  totalBurned: number;
+  burnDestroyed: number;
+  burnRedistributed: number; // Everything not destroyed, see burnSplit
+  burnSplit: BurnSplit; // Burned tokens per destination
+  netTokens: number;
+  breakdown: CalculationBreakdown;
+}
+
+// Market state seen by the buyer once their own mint is known
+export interface MarketEstimate {
+  newGlobalTotalMinted: number; // Global supply after the buyer and the rest of the market mint
+  marketBurnedYear: number; // Market tokens burned this year (drives discount%)
+  marketBurnedPeriod: number | null; // Market tokens burned in one period, when the model works per period
+  marketMinted: number; // Tokens minted by the buyer and the rest of the market
+  users: number; // Users in the market
+  burnRate: number; // Market burned / market minted
+}
+
+// How the rest of the market is modelled around the buyer
+export interface MarketModel {
+  initialGlobalMinted: number; // Global supply the buyer's purchases mint against
+  estimate: (totalMintedUser: number) => MarketEstimate;
+}
+
+// Builds the market for a parameter set at period t
+export type MarketFactory = (t: number, params: SystemParams) => MarketModel;
+
+// Market of assumedUsers clones of the current buyer
+export const createClonedMarket = (
+  market: MarketAssumptions = DEFAULT_MARKET_ASSUMPTIONS
+): MarketModel => ({
+  initialGlobalMinted: market.initialGlobalMinted,
+  estimate: (totalMintedUser) => ({
+    // Formula: newGlobalTotalMinted = initialGlobalTotalMinted + (totalMintedUser * assumedUsers)
+    newGlobalTotalMinted: market.initialGlobalMinted + totalMintedUser * market.assumedUsers,
+    // Formula: assumedMarketBurnedYearTokens = totalMintedUser * assumedBurnRate * assumedUsers
+    marketBurnedYear: totalMintedUser * market.assumedBurnRate * market.assumedUsers,
+    marketBurnedPeriod: null,
+    marketMinted: totalMintedUser * market.assumedUsers,
+    users: market.assumedUsers,
+    burnRate: market.assumedBurnRate,
+  }),
+});
+
+// Calculate the full buyer snapshot at period Math.floor(inputs.period)
+export const calculateResults = (
+  inputs: UserInputs,
+  params: SystemParams,
+  market: MarketModel = createClonedMarket(),
+  pricing: PricingMode = 'spot'
+): CalculationResults => {
+  // Use initial global total minted (simplified - in real scenario this would be global state)
+  const initialGlobalTotalMinted = market.initialGlobalMinted;
+
+  // Use integer period for consistency
+  const t = Math.floor(inputs.period);
+
+  // Calculate minted tokens using global total minted
+  const mintResult = calculateMintedTokens(inputs, params, initialGlobalTotalMinted, 0, pricing);
+
+  const totalMintedUser = mintResult.totalMintedUser;
+
+  // Update global total and yearly burn considering the rest of the market
+  const marketEstimate = market.estimate(totalMintedUser);
+  const newGlobalTotalMinted = marketEstimate.newGlobalTotalMinted;
+
+  // Calculate token price based on the updated global total minted
+  const tokenPrice = calculateTokenPrice(newGlobalTotalMinted, params);
+
+  // Estimate market burned tokens for discount calculation
+  const assumedMarketBurnedYearTokens = marketEstimate.marketBurnedYear;
+  const burnResult = calculateBurnedTokens(
+    inputs,
+    params,
+    assumedMarketBurnedYearTokens,
+    newGlobalTotalMinted,
+    pricing
+  );
+  const totalBurned = burnResult.totalBurned;
+
+  const burnSplit = splitBurn(totalBurned, params);
+  const burnDestroyed = burnSplit.destroyed;
+  const burnRedistributed = totalBurned - burnDestroyed;
+
+  // Calculate intermediate values for breakdown
+  const CB_percent = calculateCashbackPercent(t, params);
+  const QF = calculateQualityFactor(inputs.returnProbability, inputs.reviewQuality, params);
+  const capUsage = totalMintedUser / params.user_cap;
+  const discount_percent = calculateDiscountPercent(assumedMarketBurnedYearTokens, params);
+  // Only purchases whose discount burn fit under burn_cap are redeemed
+  const discountRubTotal =
+    inputs.purchasePrice * (inputs.numberOfPurchases - burnResult.purchasesBurnRejected) * discount_percent;
+  const accessFeeTokens = params.access_fee;
+  const burnDiscountTokens = totalBurned - accessFeeTokens;
+  const netValueRub = (totalMintedUser - totalBurned) * tokenPrice;
+  const effectiveCashbackRub = totalMintedUser * tokenPrice;
+  const effectiveDiscountRub = totalBurned * tokenPrice;
+
+  return {
+    totalMintedUser,
+    tokenPrice,
+    totalBurned,
+    burnDestroyed,
+    burnRedistributed,
+    burnSplit,
+    netTokens: totalMintedUser - totalBurned,
+    breakdown: {
+      t,
+      CB_percent,
+      QF,
+      dfFirst: mintResult.dfFirst,
+      dfLast: mintResult.dfLast,
+      mintedPerPurchaseAvg: mintResult.mintedPerPurchaseAvg,
+      capUsage,
+      discount_percent,
+      discountRubTotal,
+      burnDiscountTokens,
+      accessFeeTokens,
+      marketBurnedYear: assumedMarketBurnedYearTokens,
+      marketBurnedPeriod: marketEstimate.marketBurnedPeriod,
+      marketMinted: marketEstimate.marketMinted,
+      mintCutOff: mintResult.mintCutOff,
+      purchasesCutOff: mintResult.purchasesCutOff,
+      burnRejected: burnResult.burnRejected,
+      purchasesBurnRejected: burnResult.purchasesBurnRejected,
+      netValueRub,
+      effectiveCashbackRub,
+      effectiveDiscountRub,
+      initialGlobalTotalMinted,
+      assumedUsers: marketEstimate.users,
+      assumedBurnRate: marketEstimate.burnRate,
+      newGlobalTotalMinted,
+    },
+  };
+};
+
+export interface BondingCurvePoint {
+  totalMinted: number;
+  price: number;
+}
+
+// Total-minted range the bonding curve is sampled over
+export interface CurveRange {
+  min: number;
+  max: number;
+}
+
+export const DEFAULT_CURVE_RANGE: CurveRange = { min: 0, max: 100000 };
+
+// Sample the bonding curve at `samples` equal steps across the range
+export const generateBondingCurveData = (
+  params: SystemParams,
+  range: CurveRange = DEFAULT_CURVE_RANGE,
+  samples = 100
+): BondingCurvePoint[] => {
+  const data: BondingCurvePoint[] = [];
+  const step = (range.max - range.min) / samples;
+  for (let i = 0; i <= samples; i++) {
+    const totalMinted = range.min + i * step;
+    data.push({
+      totalMinted,
+      price: calculateTokenPrice(totalMinted, params),
+    });
+  }
+  return data;
+};
+
+export interface DiminishingFactorPoint {
+  userMinted: number;
+  df: number;
+  buyer?: number; // DF on the buyer's own stretch, from dfFirst to dfLast
+}
+
+// Sample DF from zero to user_cap; the buyer's minted range is marked and its ends sampled exactly
+export const generateDiminishingFactorData = (
+  params: SystemParams,
+  userMinted: number,
+  samples = 100
+): DiminishingFactorPoint[] => {
+  const xs = Array.from({ length: samples + 1 }, (_, i) => (params.user_cap * i) / samples);
+  const end = Math.min(userMinted, params.user_cap);
+  if (!xs.includes(end)) {
+    xs.push(end);
+    xs.sort((a, b) => a - b);
+  }
+  return xs.map((x) => {
+    const df = calculateDiminishingFactor(x, params);
+    return { userMinted: x, df, buyer: x <= end ? df : undefined };
+  });
+};
+
+export interface PeriodRatesPoint {
+  period: number;
+  cashback: number; // CB%(t)
+  discount: number; // discount%(t) at the market's yearly burn for period t
+}
+
+// CB%(t) and discount%(t) over periods 0..periods for the buyer's inputs.
+// Discount% depends on the market burn, so the full calculation is run for each period.
+export const generatePeriodRatesData = (
+  inputs: UserInputs,
+  params: SystemParams,
+  createMarket: MarketFactory,
+  pricing: PricingMode = 'spot',
+  periods = 20
+): PeriodRatesPoint[] =>
+  Array.from({ length: periods + 1 }, (_, period) => {
+    const results = calculateResults({ ...inputs, period }, params, createMarket(period, params), pricing);
+    return {
+      period,
+      cashback: results.breakdown.CB_percent,
+      discount: results.breakdown.discount_percent,
+    };
+  });
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { calculateResults, createClonedMarket } from './engine';
+import { DEFAULT_SYSTEM_PARAMS } from './params';
+import { DEFAULT_USER_INPUTS } from './inputs';
+import { DEFAULT_CURRENCY_SETTINGS } from './currency';
+import { explainBreakdown } from './formulas';
+
+const params = DEFAULT_SYSTEM_PARAMS;
+const inputs = DEFAULT_USER_INPUTS;
+const results = calculateResults(inputs, params, createClonedMarket());
+
+describe('explainBreakdown', () => {
+  it('substitutes ruble amounts in the display currency', () => {
+    const usd = { ...DEFAULT_CURRENCY_SETTINGS, display: 'USD' as const };
+    const explanation = explainBreakdown(inputs, params, results, 'spot', usd, 'en').discountRubTotal;
+    const last = explanation.steps[explanation.steps.length - 1];
+    expect(last).not.toContain('₽');
+    expect(last).toContain('$');
+    const value = Number(last.replace(/[^\d.]/g, ''));
+    expect(value).toBeCloseTo(results.breakdown.discountRubTotal / usd.rates.USD, 3);
+  });
+
+  it('separates function arguments with a semicolon where the decimal separator is a comma', () => {
+    expect(explainBreakdown(inputs, params, results, 'spot', DEFAULT_CURRENCY_SETTINGS, 'ru').CB_percent.steps[0]).toMatch(
+      /^= max\(0; /
+    );
+    expect(explainBreakdown(inputs, params, results, 'spot', DEFAULT_CURRENCY_SETTINGS, 'en').CB_percent.steps[0]).toMatch(
+      /^= max\(0, /
+    );
+  });
+
+  it('writes numbers without digit grouping', () => {
+    const explanation = explainBreakdown(inputs, params, results, 'spot', DEFAULT_CURRENCY_SETTINGS, 'en');
+    expect(explanation.capUsage.steps[0]).toContain(String(params.user_cap));
+  });
+
+  it('derives the first purchase before averaging', () => {
+    const steps = explainBreakdown(inputs, params, results, 'spot', DEFAULT_CURRENCY_SETTINGS, 'en')
+      .mintedPerPurchaseAvg.steps;
+    expect(steps[0]).toMatch(/^minted_1 = /);
+    expect(steps.some((step) => step.startsWith('minted_avg = '))).toBe(true);
+  });
+
+  it('describes each value in the locale', () => {
+    const ru = explainBreakdown(inputs, params, results, 'spot', DEFAULT_CURRENCY_SETTINGS, 'ru');
+    const en = explainBreakdown(inputs, params, results, 'spot', DEFAULT_CURRENCY_SETTINGS, 'en');
+    expect(ru.QF.description).not.toBe(en.QF.description);
+  });
+});
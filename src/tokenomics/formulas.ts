@@ -0,0 +1,195 @@
+import { DEFAULT_LOCALE, currencySymbol, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import type { NumericSystemParam, SystemParams } from './params';
+import type { UserInputs } from './inputs';
+import { calculateMintedTokens, type CalculationResults, type PricingMode } from './engine';
+import { DEFAULT_CURRENCY_SETTINGS, convertFromRub, type CurrencySettings } from './currency';
+
+// Formula behind one breakdown value, with the current values substituted step by step
+export interface FormulaExplanation {
+  formula: string; // Symbolic form, e.g. "QF = 1 + β·(1 − p_return)·q_review"
+  description: string; // What the value means, in the locale
+  steps: string[]; // Substituted forms, the last one ending in the result
+  params: NumericSystemParam[]; // SystemParams fields the formula uses, for the glossary
+}
+
+// Breakdown values that have an explanation
+export type ExplainedValue =
+  | 'CB_percent'
+  | 'QF'
+  | 'dfFirst'
+  | 'dfLast'
+  | 'mintedPerPurchaseAvg'
+  | 'capUsage'
+  | 'discount_percent'
+  | 'discountRubTotal'
+  | 'burnDiscountTokens'
+  | 'accessFeeTokens'
+  | 'totalBurned'
+  | 'netValueRub'
+  | 'effectiveCashbackRub'
+  | 'effectiveDiscountRub'
+  | 'newGlobalTotalMinted';
+
+// Explain the breakdown of `results`, computed from `inputs` and `params`.
+// Values are substituted as the engine uses them - tokens and shares (0-1) - except ruble
+// amounts, which are converted to the display currency. Numbers are written without digit
+// grouping, and function arguments are separated by "; " where the locale has a decimal comma.
+export const explainBreakdown = (
+  inputs: UserInputs,
+  params: SystemParams,
+  results: CalculationResults,
+  pricing: PricingMode = 'spot',
+  currency: CurrencySettings = DEFAULT_CURRENCY_SETTINGS,
+  locale: Locale = DEFAULT_LOCALE
+): Record<ExplainedValue, FormulaExplanation> => {
+  const { breakdown } = results;
+  const format = (value: number) =>
+    value.toLocaleString(locale, { maximumSignificantDigits: 6, useGrouping: false });
+  const n = (value: number) => (value < 0 ? `(${format(value)})` : format(value));
+  // Ruble amount in the display currency
+  const money = (rub: number) => n(convertFromRub(rub, currency.display, currency.rates));
+  const symbol = currencySymbol(locale, currency.display);
+  const sep = format(0.5).includes(',') ? '; ' : ', ';
+  const describe = (value: ExplainedValue) => translate(locale, `formula.${value}`);
+
+  const minted = results.totalMintedUser;
+  const burned = results.totalBurned;
+  const price = results.tokenPrice;
+  // Glossary parameters behind P_token: P0 except for piecewise curves, k for the quadratic one
+  const priceParams: NumericSystemParam[] =
+    params.curve.type === 'piecewise' ? [] : params.curve.type === 'quadratic' ? ['P0', 'k'] : ['P0'];
+
+  // Tokens for a ruble amount: at the spot price, or by solving for the area under the curve
+  const mintRule =
+    pricing === 'spot'
+      ? 'minted_i = P·CB%·QF·DF_i / P_token(S_i)'
+      : 'area(S_i, S_i + minted_i) = P·CB%·QF·DF_i';
+  const burnRule =
+    pricing === 'spot'
+      ? 'burn_i = P·discount% / P_token(S)'
+      : 'area(S − burn_i, S) = P·discount%';
+
+  // The first purchase, minted from the supply before the buyer, as in buildPurchaseLedger
+  const [first] = calculateMintedTokens(inputs, params, breakdown.initialGlobalTotalMinted, 0, pricing).purchases;
+  const firstValue = `${money(inputs.purchasePrice)}·${n(first.CB_percent)}·${n(first.QF)}·${n(first.DF)}`;
+  const firstMint =
+    pricing === 'spot'
+      ? [`minted_1 = ${firstValue} / ${money(first.priceBefore)}`, `= ${n(first.minted)}`]
+      : [
+          `area(${n(breakdown.initialGlobalTotalMinted)}${sep}${n(breakdown.initialGlobalTotalMinted)} + minted_1) = ${firstValue}`,
+          `minted_1 = ${n(first.minted)}`,
+        ];
+
+  return {
+    CB_percent: {
+      formula: `CB%(t) = max(0${sep}CB_base·(1 − α·(t − t_launch)))`,
+      description: describe('CB_percent'),
+      steps: [
+        `= max(0${sep}${n(params.CB_base)}·(1 − ${n(params.alpha)}·(${n(breakdown.t)} − ${n(params.t_launch)})))`,
+        `= ${n(breakdown.CB_percent)}`,
+      ],
+      params: ['CB_base', 'alpha', 't_launch'],
+    },
+    QF: {
+      formula: 'QF = 1 + β·(1 − p_return)·q_review',
+      description: describe('QF'),
+      steps: [
+        `= 1 + ${n(params.beta)}·(1 − ${n(inputs.returnProbability)})·${n(inputs.reviewQuality)}`,
+        `= ${n(breakdown.QF)}`,
+      ],
+      params: ['beta'],
+    },
+    dfFirst: {
+      formula: `DF = exp(−γ·minted_user / user_cap)${sep}minted_user = 0`,
+      description: describe('dfFirst'),
+      steps: [`= exp(−${n(params.gamma)}·0 / ${n(params.user_cap)})`, `= ${n(breakdown.dfFirst)}`],
+      params: ['gamma', 'user_cap'],
+    },
+    dfLast: {
+      formula: 'DF = exp(−γ·minted_user / user_cap)',
+      description: describe('dfLast'),
+      steps: [`= exp(−${n(params.gamma)}·${n(minted)} / ${n(params.user_cap)})`, `= ${n(breakdown.dfLast)}`],
+      params: ['gamma', 'user_cap'],
+    },
+    mintedPerPurchaseAvg: {
+      formula: `minted_avg = Σ minted_i / n${sep}${mintRule}`,
+      description: describe('mintedPerPurchaseAvg'),
+      steps: [
+        ...firstMint,
+        `minted_avg = ${n(minted)} / ${n(inputs.numberOfPurchases)}`,
+        `= ${n(breakdown.mintedPerPurchaseAvg)}`,
+      ],
+      params: ['CB_base', 'beta', 'gamma', 'user_cap', ...priceParams],
+    },
+    capUsage: {
+      formula: 'cap_usage = minted_user / user_cap',
+      description: describe('capUsage'),
+      steps: [`= ${n(minted)} / ${n(params.user_cap)}`, `= ${n(breakdown.capUsage)}`],
+      params: ['user_cap'],
+    },
+    discount_percent: {
+      formula: `discount%(B) = max(0${sep}discount_base·(1 − θ·B / burn_cap))`,
+      description: describe('discount_percent'),
+      steps: [
+        `= max(0${sep}${n(params.discount_base)}·(1 − ${n(params.theta)}·${n(breakdown.marketBurnedYear)} / ${n(params.burn_cap)}))`,
+        `= ${n(breakdown.discount_percent)}`,
+      ],
+      params: ['discount_base', 'theta', 'burn_cap'],
+    },
+    discountRubTotal: {
+      formula: 'discount_total = P·(n − n_rejected)·discount%',
+      description: describe('discountRubTotal'),
+      steps: [
+        `= ${money(inputs.purchasePrice)}·(${n(inputs.numberOfPurchases)} − ${n(breakdown.purchasesBurnRejected)})·${n(breakdown.discount_percent)}`,
+        `= ${money(breakdown.discountRubTotal)} ${symbol}`,
+      ],
+      params: ['discount_base', 'burn_cap'],
+    },
+    burnDiscountTokens: {
+      formula: `burn_discount = Σ burn_i = burn_total − access_fee${sep}${burnRule}`,
+      description: describe('burnDiscountTokens'),
+      steps: [`= ${n(burned)} − ${n(breakdown.accessFeeTokens)}`, `= ${n(breakdown.burnDiscountTokens)}`],
+      params: ['discount_base', 'access_fee', ...priceParams],
+    },
+    accessFeeTokens: {
+      formula: 'fee = access_fee',
+      description: describe('accessFeeTokens'),
+      steps: [`= ${n(breakdown.accessFeeTokens)}`],
+      params: ['access_fee'],
+    },
+    totalBurned: {
+      formula: 'burn_total = burn_discount + access_fee',
+      description: describe('totalBurned'),
+      steps: [`= ${n(breakdown.burnDiscountTokens)} + ${n(breakdown.accessFeeTokens)}`, `= ${n(burned)}`],
+      params: ['access_fee'],
+    },
+    netValueRub: {
+      formula: 'value_net = (minted_user − burn_total)·P_token(S)',
+      description: describe('netValueRub'),
+      steps: [`= (${n(minted)} − ${n(burned)})·${money(price)}`, `= ${money(breakdown.netValueRub)} ${symbol}`],
+      params: priceParams,
+    },
+    effectiveCashbackRub: {
+      formula: 'cashback_eff = minted_user·P_token(S)',
+      description: describe('effectiveCashbackRub'),
+      steps: [`= ${n(minted)}·${money(price)}`, `= ${money(breakdown.effectiveCashbackRub)} ${symbol}`],
+      params: priceParams,
+    },
+    effectiveDiscountRub: {
+      formula: 'discount_eff = burn_total·P_token(S)',
+      description: describe('effectiveDiscountRub'),
+      steps: [`= ${n(burned)}·${money(price)}`, `= ${money(breakdown.effectiveDiscountRub)} ${symbol}`],
+      params: priceParams,
+    },
+    newGlobalTotalMinted: {
+      formula: 'S = S₀ + minted_market',
+      description: describe('newGlobalTotalMinted'),
+      steps: [
+        `= ${n(breakdown.initialGlobalTotalMinted)} + ${n(breakdown.newGlobalTotalMinted - breakdown.initialGlobalTotalMinted)}`,
+        `= ${n(breakdown.newGlobalTotalMinted)}`,
+      ],
+      params: [],
+    },
+  };
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MARKET_ASSUMPTIONS, createClonedMarket, type MarketFactory } from './engine';
+import { DEFAULT_SYSTEM_PARAMS } from './params';
+import { DEFAULT_USER_INPUTS } from './inputs';
+import { defaultGoalBounds, evaluateGoal, runGoalSeek, type GoalSeekSettings } from './goalSeek';
+
+const params = DEFAULT_SYSTEM_PARAMS;
+const inputs = DEFAULT_USER_INPUTS;
+const createMarket = () => createClonedMarket();
+
+const priceForNetTokens = (target: number, method: GoalSeekSettings['method']): GoalSeekSettings => ({
+  metric: 'netTokens',
+  target,
+  variable: 'purchasePrice',
+  min: 0,
+  max: 100000,
+  method,
+});
+
+describe('defaultGoalBounds', () => {
+  it('keeps probabilities in [0, 1] and strictly positive fields above zero', () => {
+    expect(defaultGoalBounds('returnProbability', 0.1)).toEqual([0, 1]);
+    expect(defaultGoalBounds('numberOfPurchases', 7)).toEqual([1, 100]);
+    expect(defaultGoalBounds('P0', params.P0)[0]).toBeGreaterThan(0);
+  });
+});
+
+describe('runGoalSeek', () => {
+  it.each(['bisection', 'newton'] as const)('reaches the target with %s', (method) => {
+    const settings = priceForNetTokens(30, method);
+    const result = runGoalSeek(inputs, params, settings, createMarket);
+    expect(result.status).toBe('solved');
+    expect(result.achieved).toBeCloseTo(30, 4);
+    expect(evaluateGoal(inputs, params, settings, result.value, createMarket)).toBeCloseTo(30, 4);
+  });
+
+  it('reports the first whole value at or above the target', () => {
+    const settings: GoalSeekSettings = {
+      ...priceForNetTokens(100, 'bisection'),
+      variable: 'numberOfPurchases',
+      min: 1,
+      max: 100,
+    };
+    const result = runGoalSeek(inputs, params, settings, createMarket);
+    expect(result.status).toBe('solved');
+    expect(Number.isInteger(result.value)).toBe(true);
+    expect(result.achieved).toBeGreaterThanOrEqual(100);
+    expect(evaluateGoal(inputs, params, settings, result.value - 1, createMarket)).toBeLessThan(100);
+  });
+
+  it('reports no solution when the target is out of reach within the bounds', () => {
+    const settings = { ...priceForNetTokens(1e9, 'bisection'), max: 20000 };
+    const result = runGoalSeek(inputs, params, settings, createMarket);
+    expect(result.status).toBe('no-solution');
+    expect(result.value).toBeLessThanOrEqual(20000);
+  });
+
+  it('passes the pricing mode to the engine', () => {
+    const settings = priceForNetTokens(30, 'bisection');
+    const spot = runGoalSeek(inputs, params, settings, createMarket, 'spot');
+    const integral = runGoalSeek(inputs, params, settings, createMarket, 'integral');
+    expect(integral.status).toBe('solved');
+    expect(integral.value).not.toBeCloseTo(spot.value, 6);
+  });
+
+  it('searches the period in whole values, as the engine floors it', () => {
+    const settings: GoalSeekSettings = {
+      ...priceForNetTokens(27.4, 'bisection'),
+      variable: 'period',
+      min: 0,
+      max: 20,
+    };
+    const result = runGoalSeek(inputs, params, settings, createMarket);
+    // netTokens falls with the period, so the answer is the last period still at or above the target
+    expect(result.status).toBe('solved');
+    expect(Number.isInteger(result.value)).toBe(true);
+    expect(result.achieved).toBeGreaterThanOrEqual(27.4);
+    expect(evaluateGoal(inputs, params, settings, result.value + 1, createMarket)).toBeLessThan(27.4);
+  });
+
+  it('reports no solution when the bracket closes on a jump of the metric', () => {
+    // The market doubles once k passes its default, so netTokens jumps over the target there
+    const steppedMarket: MarketFactory = (_t, p) =>
+      createClonedMarket({
+        ...DEFAULT_MARKET_ASSUMPTIONS,
+        assumedUsers: DEFAULT_MARKET_ASSUMPTIONS.assumedUsers * (p.k > params.k ? 2 : 1),
+      });
+    const onK: GoalSeekSettings = {
+      ...priceForNetTokens(0, 'bisection'),
+      variable: 'k',
+      min: 0.5 * params.k,
+      max: 2 * params.k,
+    };
+    const below = evaluateGoal(inputs, params, onK, params.k, steppedMarket);
+    const above = evaluateGoal(inputs, params, onK, params.k * (1 + 1e-12), steppedMarket);
+    const settings = { ...onK, target: (below + above) / 2 };
+    const result = runGoalSeek(inputs, params, settings, steppedMarket);
+    expect(result.status).toBe('no-solution');
+    expect(Math.abs(result.achieved - settings.target)).toBeGreaterThan(1e-6 * Math.abs(settings.target));
+  });
+});
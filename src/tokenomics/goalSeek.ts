@@ -0,0 +1,197 @@
+import { SYSTEM_PARAM_FIELDS, type SystemParams } from './params';
+import type { UserInputs } from './inputs';
+import { calculateResults, type MarketFactory, type PricingMode } from './engine';
+import { getVariable, setVariable, type SensitivityKey } from './sensitivity';
+
+export type GoalMetric = 'netTokens' | 'netValueRub' | 'tokenPrice' | 'capUsage';
+
+export const GOAL_METRICS: GoalMetric[] = ['netTokens', 'netValueRub', 'tokenPrice', 'capUsage'];
+
+export type GoalSeekMethod = 'bisection' | 'newton';
+
+export interface GoalSeekSettings {
+  metric: GoalMetric;
+  target: number;
+  variable: SensitivityKey; // Free variable from UserInputs or SystemParams
+  min: number; // Search bounds for the variable
+  max: number;
+  method: GoalSeekMethod;
+}
+
+export type GoalSeekStatus = 'solved' | 'no-solution' | 'no-convergence';
+
+export interface GoalSeekResult {
+  status: GoalSeekStatus;
+  value: number; // Found value, or the closest one tried when not solved
+  achieved: number; // Metric at `value`
+  iterations: number;
+}
+
+const MAX_ITERATIONS = 100;
+const TARGET_TOLERANCE = 1e-6; // Relative to the target
+const STEP_TOLERANCE = 1e-9; // Relative to the variable
+const BRACKET_SAMPLES = 20; // Grid scanned for a sign change before bisecting
+
+// Variables that only take whole values; the engine floors the period
+const INTEGER_VARIABLES: SensitivityKey[] = ['numberOfPurchases', 'period'];
+
+// Default search bounds: the field's own range, or up to ten times the current value
+export const defaultGoalBounds = (key: SensitivityKey, baseValue: number): [number, number] => {
+  switch (key) {
+    case 'reviewQuality':
+    case 'returnProbability':
+      return [0, 1];
+    case 'numberOfPurchases':
+      return [1, Math.max(100, baseValue * 10)];
+    case 'purchasePrice':
+    case 'period':
+      return [0, Math.max(100, baseValue * 10)];
+  }
+  const field = SYSTEM_PARAM_FIELDS.find((f) => f.key === key);
+  if (!field) {
+    return [0, Math.max(1, baseValue * 10)];
+  }
+  const min = field.minExclusive ? field.min + field.step : field.min;
+  return [min, field.max ?? Math.max(field.step * 100, baseValue * 10)];
+};
+
+// Metric for one value of the free variable
+export const evaluateGoal = (
+  inputs: UserInputs,
+  params: SystemParams,
+  settings: GoalSeekSettings,
+  value: number,
+  createMarket: MarketFactory,
+  pricing: PricingMode = 'spot'
+): number => {
+  const state = setVariable(inputs, params, settings.variable, value);
+  const results = calculateResults(
+    state.inputs,
+    state.params,
+    createMarket(Math.floor(state.inputs.period), state.params),
+    pricing
+  );
+  switch (settings.metric) {
+    case 'netTokens':
+      return results.netTokens;
+    case 'netValueRub':
+      return results.breakdown.netValueRub;
+    case 'tokenPrice':
+      return results.tokenPrice;
+    case 'capUsage':
+      return results.breakdown.capUsage;
+  }
+};
+
+// Find the variable value at which the metric reaches the target.
+// Bisection needs a sign change of (metric - target): a coarse grid over the bounds is
+// scanned for the first one, so metrics that are not monotonic still get a bracket.
+// Newton's method starts from the current value and uses a numeric derivative.
+// Whole-valued variables report the bracket end where the metric is at or above the target.
+// A bracket that shrinks onto a jump of the metric without reaching the target has no solution.
+export const runGoalSeek = (
+  inputs: UserInputs,
+  params: SystemParams,
+  settings: GoalSeekSettings,
+  createMarket: MarketFactory,
+  pricing: PricingMode = 'spot'
+): GoalSeekResult => {
+  const isInteger = INTEGER_VARIABLES.includes(settings.variable);
+  const clampToBounds = (x: number) => Math.min(settings.max, Math.max(settings.min, x));
+  // Value actually used by the engine after rounding and clamping
+  const effective = (x: number) => {
+    const state = setVariable(inputs, params, settings.variable, clampToBounds(x));
+    return getVariable(state.inputs, state.params, settings.variable);
+  };
+  const f = (x: number) => evaluateGoal(inputs, params, settings, x, createMarket, pricing) - settings.target;
+  const tolerance = TARGET_TOLERANCE * Math.max(1, Math.abs(settings.target));
+
+  // Track the closest value tried, reported when there is no solution
+  let closest = { value: settings.min, error: Infinity };
+  const sample = (x: number) => {
+    const error = f(x);
+    if (Math.abs(error) < Math.abs(closest.error)) {
+      closest = { value: effective(x), error };
+    }
+    return error;
+  };
+  const result = (status: GoalSeekStatus, value: number, iterations: number): GoalSeekResult => ({
+    status,
+    value,
+    achieved: f(value) + settings.target,
+    iterations,
+  });
+
+  if (settings.method === 'newton') {
+    let x = clampToBounds(getVariable(inputs, params, settings.variable));
+    let iterations = 0;
+    while (iterations < MAX_ITERATIONS) {
+      iterations++;
+      const error = sample(x);
+      if (Math.abs(error) <= tolerance) {
+        return result('solved', effective(x), iterations);
+      }
+      // Whole-valued variables step by one, others by a relative epsilon
+      const h = isInteger ? 1 : Math.max(Math.abs(x), 1) * 1e-6;
+      const derivative = (f(x + h) - f(x - h)) / (2 * h);
+      if (!isFinite(derivative) || derivative === 0) {
+        break;
+      }
+      const raw = clampToBounds(x - error / derivative);
+      const next = isInteger ? Math.round(raw) : raw;
+      if (Math.abs(next - x) <= STEP_TOLERANCE * Math.max(1, Math.abs(x))) {
+        // Stalled on a bound or a flat stretch without reaching the target
+        break;
+      }
+      x = next;
+    }
+    return result('no-convergence', closest.value, iterations);
+  }
+
+  // Find a bracket [lo, hi] with a sign change
+  const grid = Array.from({ length: BRACKET_SAMPLES + 1 }, (_, i) =>
+    effective(settings.min + ((settings.max - settings.min) * i) / BRACKET_SAMPLES)
+  );
+  let lo = NaN;
+  let hi = NaN;
+  let fLo = sample(grid[0]);
+  if (Math.abs(fLo) <= tolerance) {
+    return result('solved', effective(grid[0]), 1);
+  }
+  for (let i = 1; i < grid.length; i++) {
+    const fx = sample(grid[i]);
+    if (Math.abs(fx) <= tolerance) {
+      return result('solved', effective(grid[i]), i + 1);
+    }
+    if (Math.sign(fx) !== Math.sign(fLo)) {
+      lo = grid[i - 1];
+      hi = grid[i];
+      break;
+    }
+    fLo = fx;
+  }
+  if (isNaN(lo)) {
+    return result('no-solution', closest.value, grid.length);
+  }
+
+  for (let i = 1; i <= MAX_ITERATIONS; i++) {
+    if (isInteger && hi - lo <= 1) {
+      return result('solved', fLo >= 0 ? lo : hi, i);
+    }
+    const mid = isInteger ? Math.floor((lo + hi) / 2) : (lo + hi) / 2;
+    const fMid = sample(mid);
+    if (Math.abs(fMid) <= tolerance) {
+      return result('solved', effective(mid), i);
+    }
+    if (hi - lo <= STEP_TOLERANCE * Math.max(1, Math.abs(mid))) {
+      return result('no-solution', closest.value, i);
+    }
+    if (Math.sign(fMid) === Math.sign(fLo)) {
+      lo = mid;
+      fLo = fMid;
+    } else {
+      hi = mid;
+    }
+  }
+  return result('no-convergence', closest.value, MAX_ITERATIONS);
+};
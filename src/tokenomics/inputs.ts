@@ -0,0 +1,73 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+
+// User input parameters
+export interface UserInputs {
+  purchasePrice: number; // Pi - purchase price
+  numberOfPurchases: number; // Number of purchases
+  period: number; // t - time period
+  reviewQuality: number; // review_quality (0-1)
+  returnProbability: number; // return_probability (0-1)
+}
+
+// Default buyer scenario
+export const DEFAULT_USER_INPUTS: UserInputs = {
+  purchasePrice: 10000,
+  numberOfPurchases: 7,
+  period: 1,
+  reviewQuality: 0.8,
+  returnProbability: 0.1,
+};
+
+// Validation function; messages come from the locale's catalog
+export const validateInput = (
+  field: keyof UserInputs,
+  value: number,
+  locale: Locale = DEFAULT_LOCALE
+): string | null => {
+  switch (field) {
+    case 'purchasePrice':
+      if (isNaN(value) || value < 0) {
+        return translate(locale, 'inputs.error.purchasePrice');
+      }
+      return null;
+    case 'numberOfPurchases':
+      if (isNaN(value) || value < 1 || !Number.isInteger(value)) {
+        return translate(locale, 'inputs.error.numberOfPurchases');
+      }
+      return null;
+    case 'period':
+      if (isNaN(value) || value < 0) {
+        return translate(locale, 'inputs.error.period');
+      }
+      return null;
+    case 'reviewQuality':
+      if (isNaN(value) || value < 0 || value > 1) {
+        return translate(locale, 'inputs.error.reviewQuality');
+      }
+      return null;
+    case 'returnProbability':
+      if (isNaN(value) || value < 0 || value > 1) {
+        return translate(locale, 'inputs.error.returnProbability');
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+// Correct an invalid value to the nearest valid one
+export const correctInput = (field: keyof UserInputs, value: number): number => {
+  switch (field) {
+    case 'reviewQuality':
+    case 'returnProbability':
+      return Math.max(0, Math.min(1, value));
+    case 'numberOfPurchases':
+      return Math.max(1, Math.floor(value));
+    case 'purchasePrice':
+    case 'period':
+      return Math.max(0, value);
+    default:
+      return value;
+  }
+};
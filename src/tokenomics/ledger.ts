@@ -0,0 +1,89 @@
+import type { SystemParams } from './params';
+import type { UserInputs } from './inputs';
+import {
+  calculateBurnHeadroom,
+  calculateMintedTokens,
+  calculateTokensForBurnValue,
+  type CalculationResults,
+  type PricingMode,
+  type PurchaseMint,
+} from './engine';
+
+// One purchase of the buyer with its mint, discount burn and running balance
+export interface LedgerRow extends PurchaseMint {
+  burnedForDiscount: number; // Tokens burned for this purchase's discount
+  burnRejected: number; // Discount burn rejected because of burn_cap
+  balance: number; // Running balance after this purchase
+}
+
+export interface PurchaseLedger {
+  rows: LedgerRow[];
+  accessFeeTokens: number; // Charged once, on top of the per-purchase burns
+  netTokens: number; // Final balance after the access fee
+}
+
+// Columns in export order
+export const LEDGER_COLUMNS: (keyof LedgerRow)[] = [
+  'index',
+  'CB_percent',
+  'QF',
+  'DF',
+  'priceBefore',
+  'priceAfter',
+  'minted',
+  'cutOff',
+  'burnedForDiscount',
+  'burnRejected',
+  'balance',
+];
+
+// Rebuild the per-purchase detail behind a calculateResults snapshot
+export const buildPurchaseLedger = (
+  inputs: UserInputs,
+  params: SystemParams,
+  results: CalculationResults,
+  pricing: PricingMode = 'spot'
+): PurchaseLedger => {
+  const { purchases } = calculateMintedTokens(
+    inputs,
+    params,
+    results.breakdown.initialGlobalTotalMinted,
+    0,
+    pricing
+  );
+
+  // Discount burns are taken from the supply after the market mint, as in calculateBurnedTokens
+  const discountInRubles = inputs.purchasePrice * results.breakdown.discount_percent;
+  let supply = results.breakdown.newGlobalTotalMinted;
+  let headroom = calculateBurnHeadroom(results.breakdown.marketBurnedYear, params);
+
+  let balance = 0;
+  const rows = purchases.map((purchase) => {
+    const burn = calculateTokensForBurnValue(discountInRubles, supply, params, pricing);
+    // A burn past burn_cap is rejected whole, as in calculateBurnedTokens
+    const burnRejected = burn > headroom ? burn : 0;
+    const burnedForDiscount = burn - burnRejected;
+    headroom -= burnedForDiscount;
+    if (pricing === 'integral') {
+      supply -= burnedForDiscount;
+    }
+    balance += purchase.minted - burnedForDiscount;
+    return { ...purchase, burnedForDiscount, burnRejected, balance };
+  });
+
+  return {
+    rows,
+    accessFeeTokens: results.breakdown.accessFeeTokens,
+    netTokens: balance - results.breakdown.accessFeeTokens,
+  };
+};
+
+// Serialize ledger rows as CSV with a header line
+export const ledgerToCsv = (ledger: PurchaseLedger): string =>
+  [
+    LEDGER_COLUMNS.join(','),
+    ...ledger.rows.map((row) => LEDGER_COLUMNS.map((column) => row[column]).join(',')),
+  ].join('\n');
+
+// Serialize the full ledger as pretty-printed JSON
+export const ledgerToJson = (ledger: PurchaseLedger): string => JSON.stringify(ledger, null, 2);
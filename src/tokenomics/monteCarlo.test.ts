@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { calculateResults, type PricingMode } from './engine';
+import { DEFAULT_SYSTEM_PARAMS, type SystemParams } from './params';
+import { DEFAULT_USER_INPUTS, type UserInputs } from './inputs';
+import { DEFAULT_MONTE_CARLO_SETTINGS, runMonteCarlo, type MonteCarloSettings } from './monteCarlo';
+
+const params = DEFAULT_SYSTEM_PARAMS;
+const inputs: UserInputs = { ...DEFAULT_USER_INPUTS, returnProbability: 0 };
+
+// No spread and no returns: every trial is the deterministic snapshot
+const fixed: MonteCarloSettings = {
+  ...DEFAULT_MONTE_CARLO_SETTINGS,
+  trials: 5,
+  priceDistribution: 'fixed',
+  priceSpread: 0,
+  reviewQualityStdDev: 0,
+};
+
+const expectSnapshot = (systemParams: SystemParams, pricing: PricingMode) => {
+  const expected = calculateResults(inputs, systemParams, undefined, pricing);
+  const { trials } = runMonteCarlo(inputs, systemParams, fixed, undefined, pricing);
+  for (const trial of trials) {
+    expect(trial.totalMintedUser).toBeCloseTo(expected.totalMintedUser, 9);
+    expect(trial.totalBurned).toBeCloseTo(expected.totalBurned, 9);
+    expect(trial.netValueRub).toBeCloseTo(expected.breakdown.netValueRub, 6);
+  }
+};
+
+describe('runMonteCarlo', () => {
+  it('matches calculateResults without randomness', () => {
+    expectSnapshot(params, 'spot');
+  });
+
+  it('matches calculateResults with integral pricing', () => {
+    expectSnapshot(params, 'integral');
+  });
+
+  it('respects user_cap and burn_cap with hard caps', () => {
+    const capped: SystemParams = { ...params, hard_caps: true, user_cap: 20, burn_cap: 100 };
+    expectSnapshot(capped, 'spot');
+    const { trials } = runMonteCarlo(inputs, capped, { ...DEFAULT_MONTE_CARLO_SETTINGS, trials: 50 });
+    for (const trial of trials) {
+      expect(trial.totalMintedUser).toBeLessThanOrEqual(capped.user_cap + 1e-9);
+    }
+  });
+
+  it('is reproducible for a seed', () => {
+    const settings = { ...DEFAULT_MONTE_CARLO_SETTINGS, trials: 20 };
+    expect(runMonteCarlo(DEFAULT_USER_INPUTS, params, settings).bands).toEqual(
+      runMonteCarlo(DEFAULT_USER_INPUTS, params, settings).bands
+    );
+  });
+});
@@ -0,0 +1,250 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import type { SystemParams } from './params';
+import type { UserInputs } from './inputs';
+import {
+  calculateBurnHeadroom,
+  calculateDiscountPercent,
+  calculateMintedTokens,
+  calculateTokenPrice,
+  calculateTokensForBurnValue,
+  createClonedMarket,
+  type MarketFactory,
+  type MarketModel,
+  type PricingMode,
+} from './engine';
+import { createDistribution, sampleDistribution, type DistributionType } from './distributions';
+import { createRng, type Rng } from './random';
+
+// Monte Carlo settings; distributions are centred on the buyer's inputs
+export interface MonteCarloSettings {
+  trials: number;
+  seed: number;
+  priceDistribution: DistributionType;
+  priceSpread: number; // Relative spread of the purchase price
+  reviewQualityStdDev: number; // Absolute std. deviation of review quality
+}
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+  trials: 2000,
+  seed: 42,
+  priceDistribution: 'normal',
+  priceSpread: 0.3,
+  reviewQualityStdDev: 0.1,
+};
+
+// Validation function
+export const validateMonteCarloSetting = (
+  field: keyof MonteCarloSettings,
+  value: number,
+  locale: Locale = DEFAULT_LOCALE
+): string | null => {
+  switch (field) {
+    case 'trials':
+      if (isNaN(value) || value < 1 || value > 100000 || !Number.isInteger(value)) {
+        return translate(locale, 'monteCarlo.error.trials');
+      }
+      return null;
+    case 'seed':
+      if (isNaN(value) || !Number.isInteger(value)) {
+        return translate(locale, 'monteCarlo.error.seed');
+      }
+      return null;
+    case 'priceSpread':
+    case 'reviewQualityStdDev':
+      if (isNaN(value) || value < 0 || value > 1) {
+        return translate(locale, 'monteCarlo.error.spread');
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+export type MonteCarloMetric = 'totalMintedUser' | 'totalBurned' | 'netTokens' | 'netValueRub';
+
+export const MONTE_CARLO_METRICS: MonteCarloMetric[] = [
+  'totalMintedUser',
+  'totalBurned',
+  'netTokens',
+  'netValueRub',
+];
+
+export interface TrialResult {
+  totalMintedUser: number;
+  totalBurned: number;
+  netTokens: number;
+  netValueRub: number;
+  returnedPurchases: number;
+}
+
+export interface PercentileBand {
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  trials: TrialResult[];
+  bands: Record<MonteCarloMetric, PercentileBand>;
+}
+
+// Percentile of an ascending sorted array (linear interpolation)
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+// Run one trial: each purchase samples its price and whether it is returned.
+// Returned purchases neither mint cashback nor burn tokens for a discount.
+// Kept purchases go through the engine one at a time, so user_cap, burn_cap and
+// integral pricing apply as in calculateResults.
+const runTrial = (
+  inputs: UserInputs,
+  params: SystemParams,
+  settings: MonteCarloSettings,
+  market: MarketModel,
+  pricing: PricingMode,
+  rng: Rng
+): TrialResult => {
+  const t = Math.floor(inputs.period);
+  const priceDist = createDistribution(settings.priceDistribution, inputs.purchasePrice, settings.priceSpread);
+  const reviewQuality = Math.min(
+    1,
+    Math.max(0, sampleDistribution({ type: 'normal', mean: inputs.reviewQuality, stdDev: settings.reviewQualityStdDev }, rng))
+  );
+
+  let globalTotalMinted = market.initialGlobalMinted;
+  let totalMintedUser = 0;
+  const keptPrices: number[] = [];
+  let returnedPurchases = 0;
+
+  for (let i = 0; i < inputs.numberOfPurchases; i++) {
+    const price = sampleDistribution(priceDist, rng);
+    if (rng() < inputs.returnProbability) {
+      returnedPurchases++;
+      continue;
+    }
+    // QF keeps the expected returnProbability, as in the deterministic snapshot
+    const mint = calculateMintedTokens(
+      { ...inputs, purchasePrice: price, numberOfPurchases: 1, period: t, reviewQuality },
+      params,
+      globalTotalMinted,
+      totalMintedUser,
+      pricing
+    );
+    globalTotalMinted = mint.newGlobalTotalMinted;
+    totalMintedUser += mint.totalMintedUser;
+    keptPrices.push(price);
+  }
+
+  const estimate = market.estimate(totalMintedUser);
+  const tokenPrice = calculateTokenPrice(estimate.newGlobalTotalMinted, params);
+  const discountPercent = calculateDiscountPercent(estimate.marketBurnedYear, params);
+
+  // Discount burns as in calculateBurnedTokens, but at each purchase's own price
+  let supply = estimate.newGlobalTotalMinted;
+  let headroom = calculateBurnHeadroom(estimate.marketBurnedYear, params);
+  let totalBurned = 0;
+  for (const price of keptPrices) {
+    const burn = calculateTokensForBurnValue(price * discountPercent, supply, params, pricing);
+    if (burn > headroom) {
+      continue;
+    }
+    headroom -= burn;
+    totalBurned += burn;
+    if (pricing === 'integral') {
+      supply -= burn;
+    }
+  }
+  totalBurned += params.access_fee;
+  const netTokens = totalMintedUser - totalBurned;
+
+  return {
+    totalMintedUser,
+    totalBurned,
+    netTokens,
+    netValueRub: netTokens * tokenPrice,
+    returnedPurchases,
+  };
+};
+
+// Run settings.trials reproducible trials and summarise them as P5/P50/P95 bands
+export const runMonteCarlo = (
+  inputs: UserInputs,
+  params: SystemParams,
+  settings: MonteCarloSettings,
+  market: MarketModel = createClonedMarket(),
+  pricing: PricingMode = 'spot'
+): MonteCarloResult => {
+  const rng = createRng(settings.seed);
+  const trials: TrialResult[] = [];
+  for (let i = 0; i < settings.trials; i++) {
+    trials.push(runTrial(inputs, params, settings, market, pricing, rng));
+  }
+
+  const bands = {} as Record<MonteCarloMetric, PercentileBand>;
+  for (const metric of MONTE_CARLO_METRICS) {
+    const sorted = trials.map((trial) => trial[metric]).sort((a, b) => a - b);
+    bands[metric] = {
+      p5: percentile(sorted, 0.05),
+      p50: percentile(sorted, 0.5),
+      p95: percentile(sorted, 0.95),
+    };
+  }
+
+  return { trials, bands };
+};
+
+export interface MonteCarloPeriodBand extends PercentileBand {
+  period: number;
+}
+
+// Percentile bands of one metric across periods, using the same seed for every period.
+// onProgress is called after each period.
+export const runMonteCarloByPeriod = (
+  inputs: UserInputs,
+  params: SystemParams,
+  settings: MonteCarloSettings,
+  periods: number[],
+  createMarket: MarketFactory,
+  metric: MonteCarloMetric = 'netTokens',
+  pricing: PricingMode = 'spot',
+  onProgress?: (done: number, total: number) => void
+): MonteCarloPeriodBand[] =>
+  periods.map((period, index) => {
+    const { bands } = runMonteCarlo({ ...inputs, period }, params, settings, createMarket(period, params), pricing);
+    onProgress?.(index + 1, periods.length);
+    return { period, ...bands[metric] };
+  });
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+// Bucket values into equal-width bins
+export const buildHistogram = (values: number[], bins = 30): HistogramBin[] => {
+  if (values.length === 0) {
+    return [];
+  }
+  const min = values.reduce((acc, v) => Math.min(acc, v), Infinity);
+  const max = values.reduce((acc, v) => Math.max(acc, v), -Infinity);
+  const width = (max - min) / bins || 1;
+  const histogram: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const value of values) {
+    const index = Math.min(bins - 1, Math.floor((value - min) / width));
+    histogram[index].count++;
+  }
+  return histogram;
+};
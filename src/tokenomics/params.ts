@@ -0,0 +1,238 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import { DEFAULT_BONDING_CURVE, validateCurve, type BondingCurve, type CurveShape } from './curves';
+import { isBurnShareParam, validateBurnSplit } from './burnSplit';
+
+// System parameters (constants)
+export interface SystemParams {
+  CB_base: number; // Base cashback percentage
+  alpha: number; // Cashback degradation coefficient
+  beta: number; // Quality factor coefficient
+  gamma: number; // Diminishing returns coefficient
+  P0: number; // Initial token price
+  k: number; // Bonding curve coefficient (quadratic curve)
+  curve: BondingCurve; // Bonding curve shape
+  discount_base: number; // Base discount percentage
+  theta: number; // Discount degradation coefficient
+  burn_cap: number; // Burn cap per year
+  access_fee: number; // Access fee
+  user_cap: number; // User token cap
+  t_launch: number; // Launch time
+  burn_sellers: number; // Share of burns redistributed to sellers
+  burn_treasury: number; // Share of burns passed to the treasury
+  burn_staking: number; // Share of burns passed to the staking pool
+  burn_referral: number; // Share of burns passed to the referral pool
+  hard_caps: boolean; // Enforce user_cap and burn_cap as hard limits
+}
+
+// Numeric parameters, edited and validated field by field
+export type NumericSystemParam = Exclude<keyof SystemParams, 'curve' | 'hard_caps'>;
+
+// Default system parameters
+export const DEFAULT_SYSTEM_PARAMS: SystemParams = {
+  CB_base: 0.05, // 5% base cashback
+  alpha: 0.01, // 1% degradation per period
+  beta: 0.3, // Quality factor coefficient
+  gamma: 0.5, // Diminishing returns coefficient
+  P0: 1.0, // Initial token price = 1
+  k: 0.0001, // Bonding curve coefficient
+  curve: DEFAULT_BONDING_CURVE, // Quadratic P0 · (1 + k·x²)
+  discount_base: 0.1, // 10% base discount
+  theta: 0.006, // 0.6% discount degradation
+  burn_cap: 1000000, // 1M tokens burn cap per year
+  access_fee: 10, // 10 tokens access fee
+  user_cap: 10000, // 10K tokens user cap
+  t_launch: 0, // Launch time = 0
+  burn_sellers: 0.3, // 30% to sellers, the remaining 70% destroyed
+  burn_treasury: 0,
+  burn_staking: 0,
+  burn_referral: 0,
+  hard_caps: false, // Caps only shape DF and discount%
+};
+
+// Field metadata used by the advanced parameters panel.
+// Label, hint and description live in the catalog under param.<key>.*
+export interface SystemParamField {
+  key: NumericSystemParam;
+  // Formula the parameter appears in; price parameters depend on the curve and are
+  // null when the curve does not use them
+  usedIn: string | ((curve: BondingCurve) => string | null);
+  min: number;
+  max?: number; // Inclusive upper bound, if any
+  minExclusive?: boolean; // Value must be strictly greater than min
+  step: number;
+}
+
+// Token price formula of each curve shape
+const PRICE_FORMULAS: Record<CurveShape, string> = {
+  linear: 'P(S) = P0 · (1 + slope·S)',
+  quadratic: 'P(S) = P0 · (1 + k·S²)',
+  exponential: 'P(S) = P0 · e^(rate·S)',
+  sigmoid: 'P(S) = P0 + (maxPrice − P0) · σ(steepness·(S − midpoint))',
+  piecewise: 'P(S) = P_i + (P_{i+1} − P_i)·(S − S_i) / (S_{i+1} − S_i)',
+};
+
+export const SYSTEM_PARAM_FIELDS: SystemParamField[] = [
+  {
+    key: 'CB_base',
+    usedIn: 'CB%(t) = CB_base · (1 − α·(t − t_launch))',
+    min: 0,
+    max: 1,
+    step: 0.01,
+  },
+  {
+    key: 'alpha',
+    usedIn: 'CB%(t) = CB_base · (1 − α·(t − t_launch))',
+    min: 0,
+    step: 0.001,
+  },
+  {
+    key: 'beta',
+    usedIn: 'QF = 1 + β·(1 − p_return)·q_review',
+    min: 0,
+    step: 0.05,
+  },
+  {
+    key: 'gamma',
+    usedIn: 'DF = exp(−γ · minted_user / user_cap)',
+    min: 0,
+    step: 0.05,
+  },
+  {
+    key: 'P0',
+    // Piecewise curves set their prices by points
+    usedIn: (curve) => (curve.type === 'piecewise' ? null : PRICE_FORMULAS[curve.type]),
+    min: 0,
+    minExclusive: true,
+    step: 0.1,
+  },
+  {
+    key: 'k',
+    usedIn: (curve) => (curve.type === 'quadratic' ? PRICE_FORMULAS.quadratic : null),
+    min: 0,
+    step: 0.00001,
+  },
+  {
+    key: 'discount_base',
+    usedIn: 'discount%(B) = discount_base · (1 − θ·B / burn_cap)',
+    min: 0,
+    max: 1,
+    step: 0.01,
+  },
+  {
+    key: 'theta',
+    usedIn: 'discount%(B) = discount_base · (1 − θ·B / burn_cap)',
+    min: 0,
+    step: 0.001,
+  },
+  {
+    key: 'burn_cap',
+    usedIn: 'discount%(B) = discount_base · (1 − θ·B / burn_cap)',
+    min: 0,
+    minExclusive: true,
+    step: 1000,
+  },
+  {
+    key: 'access_fee',
+    usedIn: 'burn = Σ discount_rub / P + access_fee',
+    min: 0,
+    step: 1,
+  },
+  {
+    key: 'user_cap',
+    usedIn: 'DF = exp(−γ · minted_user / user_cap)',
+    min: 0,
+    minExclusive: true,
+    step: 100,
+  },
+  {
+    key: 't_launch',
+    usedIn: 'CB%(t) = CB_base · (1 − α·(t − t_launch))',
+    min: 0,
+    step: 1,
+  },
+  {
+    key: 'burn_sellers',
+    usedIn: 'destroyed = 1 − (sellers + treasury + staking + referral)',
+    min: 0,
+    max: 1,
+    step: 0.05,
+  },
+  {
+    key: 'burn_treasury',
+    usedIn: 'destroyed = 1 − (sellers + treasury + staking + referral)',
+    min: 0,
+    max: 1,
+    step: 0.05,
+  },
+  {
+    key: 'burn_staking',
+    usedIn: 'destroyed = 1 − (sellers + treasury + staking + referral)',
+    min: 0,
+    max: 1,
+    step: 0.05,
+  },
+  {
+    key: 'burn_referral',
+    usedIn: 'destroyed = 1 − (sellers + treasury + staking + referral)',
+    min: 0,
+    max: 1,
+    step: 0.05,
+  },
+];
+
+// Formula a parameter appears in under the given curve, or null when the curve does not use it
+export const parameterFormula = (field: SystemParamField, curve: BondingCurve): string | null =>
+  typeof field.usedIn === 'string' ? field.usedIn : field.usedIn(curve);
+
+// Validate a single system parameter against its field range
+export const validateSystemParam = (
+  field: NumericSystemParam,
+  value: number,
+  locale: Locale = DEFAULT_LOCALE
+): string | null => {
+  const meta = SYSTEM_PARAM_FIELDS.find((f) => f.key === field);
+  if (!meta) {
+    return null;
+  }
+  if (isNaN(value) || !isFinite(value)) {
+    return translate(locale, 'validation.number');
+  }
+  if (meta.minExclusive ? value <= meta.min : value < meta.min) {
+    return translate(locale, meta.minExclusive ? 'validation.greaterThan' : 'validation.atLeast', { min: meta.min });
+  }
+  if (meta.max !== undefined && value > meta.max) {
+    return translate(locale, 'validation.range', { min: meta.min, max: meta.max });
+  }
+  return null;
+};
+
+// Validate a full parameter set, returning errors per field
+export const validateSystemParams = (
+  params: SystemParams,
+  locale: Locale = DEFAULT_LOCALE
+): Partial<Record<keyof SystemParams, string>> => {
+  const errors: Partial<Record<keyof SystemParams, string>> = {};
+  for (const { key } of SYSTEM_PARAM_FIELDS) {
+    const error = validateSystemParam(key, params[key], locale);
+    if (error) {
+      errors[key] = error;
+    }
+  }
+  const splitError = validateBurnSplit(params, locale);
+  if (splitError) {
+    for (const { key } of SYSTEM_PARAM_FIELDS) {
+      if (isBurnShareParam(key)) {
+        errors[key] = splitError;
+      }
+    }
+  }
+  const curveError = validateCurve(params.curve, params.P0, locale);
+  if (curveError) {
+    errors.curve = curveError;
+  }
+  if (typeof params.hard_caps !== 'boolean') {
+    errors.hard_caps = translate(locale, 'validation.boolean');
+  }
+  return errors;
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_POPULATION,
+  aggregatePopulation,
+  createDefaultPopulation,
+  createMarketFactory,
+  createPopulationMarket,
+  type UserSegment,
+} from './population';
+import { DEFAULT_SYSTEM_PARAMS } from './params';
+import { calculateResults } from './engine';
+import { DEFAULT_USER_INPUTS } from './inputs';
+
+const params = DEFAULT_SYSTEM_PARAMS;
+const segment: UserSegment = {
+  id: 'a',
+  name: 'A',
+  count: 10,
+  purchasePrice: { type: 'fixed', value: 10000 },
+  purchasesPerPeriod: 2,
+  reviewQuality: 0.5,
+  returnProbability: 0.1,
+};
+
+describe('createDefaultPopulation', () => {
+  it('names the segments in the locale', () => {
+    const en = createDefaultPopulation('en');
+    expect(en.map((s) => s.name)).not.toEqual(DEFAULT_POPULATION.map((s) => s.name));
+    expect(en.map((s) => s.id)).toEqual(DEFAULT_POPULATION.map((s) => s.id));
+  });
+});
+
+describe('aggregatePopulation', () => {
+  it('mints later segments at the supply earlier ones left', () => {
+    const { segments, minted } = aggregatePopulation([segment, { ...segment, id: 'b' }], params, 1, 1000);
+    expect(segments[1].minted).toBeLessThan(segments[0].minted);
+    expect(minted).toBeCloseTo(segments[0].minted + segments[1].minted, 9);
+  });
+
+  it('degrades the discount of later segments with the burn before them', () => {
+    const single = aggregatePopulation([segment], params, 1, 1000);
+    const { segments } = aggregatePopulation([segment, { ...segment, id: 'b' }], params, 1, 1000);
+    // Without hard caps every burn is capped by the mint, so compare per minted token
+    expect(segments[1].burned / segments[1].minted).toBeLessThanOrEqual(single.burned / single.minted + 1e-12);
+  });
+
+  it('mints and burns under the pricing mode and hard caps of the buyer engine', () => {
+    const population = [segment, { ...segment, id: 'b' }];
+    const spot = aggregatePopulation(population, params, 1, 1000, 'spot');
+    const integral = aggregatePopulation(population, params, 1, 1000, 'integral');
+    // Integral pricing charges the whole curve stretch, so it mints less than the spot price
+    expect(integral.minted).toBeLessThan(spot.minted);
+
+    // Without the access fee everything burned is a discount burn that burn_cap limits
+    const noFee = { ...params, access_fee: 0 };
+    const burnCap = aggregatePopulation(population, noFee, 1, 1000, 'integral').burned / 4;
+    const uncapped = aggregatePopulation(population, { ...noFee, burn_cap: burnCap }, 1, 1000, 'integral');
+    const capped = aggregatePopulation(population, { ...noFee, burn_cap: burnCap, hard_caps: true }, 1, 1000, 'integral');
+    expect(uncapped.burned).toBeGreaterThan(burnCap);
+    expect(capped.burned).toBeGreaterThan(0);
+    expect(capped.burned).toBeLessThanOrEqual(burnCap * (1 + 1e-9));
+  });
+});
+
+describe('createPopulationMarket', () => {
+  it('lets the buyer mint on top of the population', () => {
+    const market = createPopulationMarket(DEFAULT_POPULATION, params, 1);
+    const aggregate = aggregatePopulation(DEFAULT_POPULATION, params, 1, 1000);
+    expect(market.initialGlobalMinted).toBeCloseTo(1000 + aggregate.minted, 9);
+
+    const results = calculateResults(DEFAULT_USER_INPUTS, params, market);
+    expect(results.breakdown.newGlobalTotalMinted).toBeCloseTo(market.initialGlobalMinted + results.totalMintedUser, 9);
+    expect(results.breakdown.marketBurnedYear).toBeCloseTo(aggregate.burned, 9);
+  });
+  it('trades the population under the pricing mode of the factory', () => {
+    const spec = { mode: 'population' as const, population: DEFAULT_POPULATION };
+    const market = createMarketFactory(spec, 'integral')(1, params);
+    const aggregate = aggregatePopulation(DEFAULT_POPULATION, params, 1, 1000, 'integral');
+    expect(market.initialGlobalMinted).toBeCloseTo(1000 + aggregate.minted, 9);
+  });
+});
@@ -0,0 +1,216 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import type { SystemParams } from './params';
+import {
+  DEFAULT_MARKET_ASSUMPTIONS,
+  calculateBurnHeadroom,
+  calculateBurnedTokens,
+  calculateMintedTokens,
+  calculateTokenPrice,
+  createClonedMarket,
+  type MarketFactory,
+  type MarketModel,
+  type PricingMode,
+} from './engine';
+import {
+  distributionQuantile,
+  validateDistribution,
+  type Distribution,
+} from './distributions';
+
+// Group of similar buyers in the market
+export interface UserSegment {
+  id: string;
+  name: string;
+  count: number; // Number of buyers in the segment
+  purchasePrice: Distribution; // Purchase price distribution (₽)
+  purchasesPerPeriod: number; // Purchase frequency
+  reviewQuality: number; // review_quality (0-1)
+  returnProbability: number; // return_probability (0-1)
+}
+
+// Default segments, named in the given locale
+export const createDefaultPopulation = (locale: Locale = DEFAULT_LOCALE): UserSegment[] => [
+  {
+    id: 'active',
+    name: translate(locale, 'population.segment.active'),
+    count: 20,
+    purchasePrice: { type: 'uniform', min: 5000, max: 20000 },
+    purchasesPerPeriod: 10,
+    reviewQuality: 0.9,
+    returnProbability: 0.05,
+  },
+  {
+    id: 'regular',
+    name: translate(locale, 'population.segment.regular'),
+    count: 60,
+    purchasePrice: { type: 'normal', mean: 5000, stdDev: 2000 },
+    purchasesPerPeriod: 4,
+    reviewQuality: 0.6,
+    returnProbability: 0.1,
+  },
+  {
+    id: 'occasional',
+    name: translate(locale, 'population.segment.occasional'),
+    count: 20,
+    purchasePrice: { type: 'fixed', value: 3000 },
+    purchasesPerPeriod: 1,
+    reviewQuality: 0.3,
+    returnProbability: 0.25,
+  },
+];
+
+export const DEFAULT_POPULATION: UserSegment[] = createDefaultPopulation();
+
+// Price buckets per segment used to integrate over the price distribution
+const PRICE_BUCKETS = 5;
+
+// Validate a segment, returning errors per field
+export const validateSegment = (
+  segment: UserSegment,
+  locale: Locale = DEFAULT_LOCALE
+): Partial<Record<keyof UserSegment, string>> => {
+  const errors: Partial<Record<keyof UserSegment, string>> = {};
+  if (isNaN(segment.count) || segment.count < 0 || !Number.isInteger(segment.count)) {
+    errors.count = translate(locale, 'population.error.count');
+  }
+  if (
+    isNaN(segment.purchasesPerPeriod) ||
+    segment.purchasesPerPeriod < 1 ||
+    !Number.isInteger(segment.purchasesPerPeriod)
+  ) {
+    errors.purchasesPerPeriod = translate(locale, 'population.error.purchasesPerPeriod');
+  }
+  if (isNaN(segment.reviewQuality) || segment.reviewQuality < 0 || segment.reviewQuality > 1) {
+    errors.reviewQuality = translate(locale, 'inputs.error.reviewQuality');
+  }
+  if (isNaN(segment.returnProbability) || segment.returnProbability < 0 || segment.returnProbability > 1) {
+    errors.returnProbability = translate(locale, 'inputs.error.returnProbability');
+  }
+  const priceError = validateDistribution(segment.purchasePrice, locale);
+  if (priceError) {
+    errors.purchasePrice = priceError;
+  }
+  return errors;
+};
+
+export interface SegmentAggregate {
+  id: string;
+  users: number;
+  minted: number;
+  burned: number;
+}
+
+export interface PopulationAggregate {
+  users: number;
+  minted: number; // Tokens minted by the whole population at period t
+  burned: number; // Tokens the population burns for discounts and access at period t
+  tokenPrice: number; // Price after the population's mint
+  segments: SegmentAggregate[];
+}
+
+// Aggregate mint and burn of the population over one period t.
+// Each segment's price distribution is split into equal-probability buckets that trade in turn:
+// every bucket mints at the supply the earlier buckets left, and its discount degrades with
+// what the earlier buckets burned. Mints and burns follow the buyer engine, so the pricing
+// mode and hard caps apply: with hard caps, a bucket's discount burns only fill what is left
+// of burn_cap. Burns are capped by what each buyer minted.
+export const aggregatePopulation = (
+  population: UserSegment[],
+  params: SystemParams,
+  t: number,
+  initialGlobalMinted: number,
+  pricing: PricingMode = 'spot'
+): PopulationAggregate => {
+  let supply = initialGlobalMinted;
+  const buckets = population.flatMap((segment) =>
+    Array.from({ length: PRICE_BUCKETS }, (_, j) => {
+      const purchasePrice = distributionQuantile(segment.purchasePrice, (j + 0.5) / PRICE_BUCKETS);
+      const users = segment.count / PRICE_BUCKETS;
+      const inputs = {
+        purchasePrice,
+        numberOfPurchases: segment.purchasesPerPeriod,
+        period: t,
+        reviewQuality: segment.reviewQuality,
+        returnProbability: segment.returnProbability,
+      };
+      const minted = calculateMintedTokens(inputs, params, supply, 0, pricing).totalMintedUser;
+      supply += minted * users;
+      return { segment, inputs, users, minted };
+    })
+  );
+
+  const minted = supply - initialGlobalMinted;
+  const tokenPrice = calculateTokenPrice(supply, params);
+
+  let burned = 0;
+  const segments = new Map<string, SegmentAggregate>();
+  for (const b of buckets) {
+    // In integral mode earlier burns lower the supply later ones are priced at
+    const discountTokens =
+      calculateBurnedTokens(b.inputs, params, burned, pricing === 'integral' ? supply - burned : supply, pricing)
+        .totalBurned - params.access_fee;
+    const acceptedDiscount = Math.min(discountTokens * b.users, calculateBurnHeadroom(burned, params));
+    const bucketBurned = Math.min(b.minted * b.users, acceptedDiscount + params.access_fee * b.users);
+    burned += bucketBurned;
+    const aggregate = segments.get(b.segment.id) ?? {
+      id: b.segment.id,
+      users: b.segment.count,
+      minted: 0,
+      burned: 0,
+    };
+    aggregate.minted += b.minted * b.users;
+    aggregate.burned += bucketBurned;
+    segments.set(b.segment.id, aggregate);
+  }
+
+  return {
+    users: population.reduce((sum, s) => sum + s.count, 0),
+    minted,
+    burned,
+    tokenPrice,
+    segments: [...segments.values()],
+  };
+};
+
+// Market made of the given population; the buyer trades on top of it, minting at the
+// supply the population leaves. The population's burn in period t stands in for the
+// market's yearly burn that sets discount%.
+export const createPopulationMarket = (
+  population: UserSegment[],
+  params: SystemParams,
+  t: number,
+  initialGlobalMinted = DEFAULT_MARKET_ASSUMPTIONS.initialGlobalMinted,
+  pricing: PricingMode = 'spot'
+): MarketModel => {
+  const aggregate = aggregatePopulation(population, params, t, initialGlobalMinted, pricing);
+  const supply = initialGlobalMinted + aggregate.minted;
+  return {
+    initialGlobalMinted: supply,
+    estimate: (totalMintedUser) => ({
+      newGlobalTotalMinted: supply + totalMintedUser,
+      marketBurnedYear: aggregate.burned,
+      marketBurnedPeriod: aggregate.burned,
+      marketMinted: aggregate.minted + totalMintedUser,
+      users: aggregate.users,
+      burnRate: aggregate.minted > 0 ? aggregate.burned / aggregate.minted : 0,
+    }),
+  };
+};
+
+// Market model: clones of the buyer or a population of segments
+export type MarketMode = 'clones' | 'population';
+
+// Plain-data description of the market, so it can be sent to a worker
+export interface MarketSpec {
+  mode: MarketMode;
+  population: UserSegment[];
+}
+
+// The population trades under the same pricing mode as the buyer
+export const createMarketFactory =
+  (spec: MarketSpec, pricing: PricingMode = 'spot'): MarketFactory =>
+  (t, params) =>
+    spec.mode === 'population'
+      ? createPopulationMarket(spec.population, params, t, undefined, pricing)
+      : createClonedMarket();
@@ -0,0 +1,80 @@
+import { DEFAULT_SYSTEM_PARAMS, validateSystemParams, type SystemParams } from './params';
+
+export interface SystemParamsPreset {
+  name: string;
+  params: SystemParams;
+  builtIn?: boolean;
+}
+
+const PRESETS_STORAGE_KEY = 'tokenomics.systemParamsPresets';
+
+// Presets shipped with the calculator (cannot be overwritten or deleted)
+export const BUILT_IN_PRESETS: SystemParamsPreset[] = [
+  {
+    name: 'conservative',
+    builtIn: true,
+    params: {
+      ...DEFAULT_SYSTEM_PARAMS,
+      CB_base: 0.03, // Lower cashback
+      alpha: 0.02, // Faster cashback degradation
+      gamma: 0.8, // Stronger diminishing returns
+      k: 0.0002, // Steeper bonding curve
+      discount_base: 0.07,
+      theta: 0.01,
+      user_cap: 5000,
+    },
+  },
+  {
+    name: 'aggressive',
+    builtIn: true,
+    params: {
+      ...DEFAULT_SYSTEM_PARAMS,
+      CB_base: 0.1, // Higher cashback
+      alpha: 0.005, // Slower cashback degradation
+      gamma: 0.3, // Weaker diminishing returns
+      k: 0.00005, // Flatter bonding curve
+      discount_base: 0.15,
+      theta: 0.003,
+      user_cap: 20000,
+    },
+  },
+];
+
+// Load user presets from localStorage, skipping malformed entries
+export const loadSavedPresets = (): SystemParamsPreset[] => {
+  try {
+    const raw = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (!raw) {
+      return [];
+    }
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.flatMap((entry): SystemParamsPreset[] => {
+      if (!entry || typeof entry.name !== 'string' || typeof entry.params !== 'object') {
+        return [];
+      }
+      // Fill fields added after the preset was saved with defaults
+      const params: SystemParams = { ...DEFAULT_SYSTEM_PARAMS, ...entry.params };
+      if (Object.keys(validateSystemParams(params)).length > 0) {
+        return [];
+      }
+      return [{ name: entry.name, params }];
+    });
+  } catch {
+    return [];
+  }
+};
+
+// Persist user presets to localStorage
+export const savePresets = (presets: SystemParamsPreset[]): void => {
+  try {
+    const userPresets = presets
+      .filter((preset) => !preset.builtIn)
+      .map(({ name, params }) => ({ name, params }));
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(userPresets));
+  } catch {
+    // Storage may be unavailable (private mode, quota) - presets stay in memory
+  }
+};
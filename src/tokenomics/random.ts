@@ -0,0 +1,14 @@
+// Seeded pseudo-random number generator returning values in [0, 1)
+export type Rng = () => number;
+
+// Mulberry32: small, fast and good enough for reproducible simulations
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
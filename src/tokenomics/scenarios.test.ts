@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { mergeSeriesBy } from './scenarios';
+
+describe('mergeSeriesBy', () => {
+  it('aligns series by key value rather than by index', () => {
+    const rows = mergeSeriesBy('period', [
+      [{ period: 0, a: 1 }, { period: 1, a: 2 }],
+      [{ period: 1, b: 10 }, { period: 2, b: 20 }],
+    ]);
+    expect(rows).toEqual([
+      { period: 0, a: 1 },
+      { period: 1, a: 2, b: 10 },
+      { period: 2, b: 20 },
+    ]);
+  });
+});
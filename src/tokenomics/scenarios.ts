@@ -0,0 +1,114 @@
+import { DEFAULT_SYSTEM_PARAMS, type SystemParams } from './params';
+import { DEFAULT_USER_INPUTS, type UserInputs } from './inputs';
+import type { CalculationResults, PricingMode } from './engine';
+import { DEFAULT_POPULATION, type MarketSpec } from './population';
+
+// Saved calculator state for side-by-side comparison
+export interface Scenario {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  userInputs: UserInputs;
+  systemParams: SystemParams;
+  pricing: PricingMode; // Pricing the results were calculated with
+  market: MarketSpec; // Market model the results were calculated with
+  results: CalculationResults;
+  pinned: boolean;
+}
+
+// At most this many scenarios can be compared at once
+export const MAX_PINNED_SCENARIOS = 4;
+
+const SCENARIOS_STORAGE_KEY = 'tokenomics.scenarios';
+
+// Create a scenario; it is pinned if there is room among pinned scenarios
+export const createScenario = (
+  name: string,
+  userInputs: UserInputs,
+  systemParams: SystemParams,
+  pricing: PricingMode,
+  market: MarketSpec,
+  results: CalculationResults,
+  existing: Scenario[]
+): Scenario => ({
+  id: `scenario-${Date.now()}`,
+  name,
+  createdAt: new Date().toISOString(),
+  userInputs: { ...userInputs },
+  systemParams: { ...systemParams },
+  pricing,
+  market: { mode: market.mode, population: market.population.map((segment) => ({ ...segment })) },
+  results,
+  pinned: existing.filter((s) => s.pinned).length < MAX_PINNED_SCENARIOS,
+});
+
+// Toggle pinning, refusing to pin more than MAX_PINNED_SCENARIOS
+export const togglePinned = (scenarios: Scenario[], id: string): Scenario[] => {
+  const target = scenarios.find((s) => s.id === id);
+  if (!target) {
+    return scenarios;
+  }
+  if (!target.pinned && scenarios.filter((s) => s.pinned).length >= MAX_PINNED_SCENARIOS) {
+    return scenarios;
+  }
+  return scenarios.map((s) => (s.id === id ? { ...s, pinned: !s.pinned } : s));
+};
+
+// Load scenarios from localStorage, skipping malformed entries
+export const loadScenarios = (): Scenario[] => {
+  try {
+    const raw = localStorage.getItem(SCENARIOS_STORAGE_KEY);
+    if (!raw) {
+      return [];
+    }
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.flatMap((entry): Scenario[] => {
+      if (!entry || typeof entry.id !== 'string' || typeof entry.name !== 'string' || !entry.results?.breakdown) {
+        return [];
+      }
+      return [
+        {
+          ...entry,
+          // Fill fields added after the scenario was saved with defaults
+          userInputs: { ...DEFAULT_USER_INPUTS, ...entry.userInputs },
+          systemParams: { ...DEFAULT_SYSTEM_PARAMS, ...entry.systemParams },
+          pricing: entry.pricing === 'integral' ? 'integral' : 'spot',
+          market: {
+            mode: entry.market?.mode === 'population' ? 'population' : 'clones',
+            population: Array.isArray(entry.market?.population) ? entry.market.population : DEFAULT_POPULATION,
+          },
+          pinned: Boolean(entry.pinned),
+        },
+      ];
+    });
+  } catch {
+    return [];
+  }
+};
+
+// Merge per-scenario series into chart rows by the value of `key`, so series sampled
+// at different points (e.g. runs starting at different t_launch) line up
+export const mergeSeriesBy = <K extends string>(
+  key: K,
+  series: (Record<K, number> & Record<string, number>)[][]
+): Record<string, number>[] => {
+  const rows = new Map<number, Record<string, number>>();
+  for (const points of series) {
+    for (const point of points) {
+      rows.set(point[key], { ...rows.get(point[key]), ...point });
+    }
+  }
+  return [...rows.values()].sort((a, b) => a[key] - b[key]);
+};
+
+// Persist scenarios to localStorage
+export const saveScenarios = (scenarios: Scenario[]): void => {
+  try {
+    localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(scenarios));
+  } catch {
+    // Storage may be unavailable (private mode, quota) - scenarios stay in memory
+  }
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { calculateScheduleResults, parseSchedule, type ScheduledPurchase } from './schedule';
+import { DEFAULT_SYSTEM_PARAMS } from './params';
+import { createClonedMarket } from './engine';
+
+describe('parseSchedule', () => {
+  it('reads grouped thousands and decimal commas', () => {
+    const { schedule, errors } = parseSchedule('сумма;период;возврат;качество\n10 000;1;нет;0,5\n2 500;2;да;1');
+    expect(errors).toEqual([]);
+    expect(schedule).toEqual([
+      { amount: 10000, period: 1, returned: false, reviewQuality: 0.5 },
+      { amount: 2500, period: 2, returned: true, reviewQuality: 1 },
+    ]);
+  });
+
+  it('reports cells with trailing garbage instead of truncating them', () => {
+    const { schedule, errors } = parseSchedule('100;0;0;0.5\n100abc;1;0;0.5\n100;1x;0;0.5\n100;1;0;Infinity');
+    expect(schedule).toHaveLength(1);
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatch(/^Строка 2:/);
+  });
+
+  it('reports a missing period', () => {
+    expect(parseSchedule('100').errors).toHaveLength(1);
+  });
+
+  it('reports comma grouping and repeated separators instead of reading a decimal comma', () => {
+    const { schedule, errors } = parseSchedule('10,000;1;0;0,5\n1,234,5;1;0;0,5\n1.234,5;1;0;0,5\n12,5;1;0;0,5');
+    expect(schedule).toEqual([{ amount: 12.5, period: 1, returned: false, reviewQuality: 0.5 }]);
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toContain('10,000');
+  });
+});
+
+describe('calculateScheduleResults', () => {
+  const kept: ScheduledPurchase = { amount: 10000, period: 1, returned: false, reviewQuality: 0.8 };
+
+  it('neither mints nor burns for returned purchases', () => {
+    const results = calculateScheduleResults([kept, { ...kept, returned: true }], DEFAULT_SYSTEM_PARAMS, () => createClonedMarket());
+    const [keptRow, returnedRow] = results.rows;
+    expect(keptRow.minted).toBeGreaterThan(0);
+    expect(keptRow.burned).toBeGreaterThan(0);
+    expect(returnedRow.minted).toBe(0);
+    expect(returnedRow.burned).toBe(0);
+    expect(returnedRow.balance).toBe(keptRow.balance);
+  });
+
+  it('leaves the result unchanged when a returned purchase is added', () => {
+    const market = () => createClonedMarket();
+    const alone = calculateScheduleResults([kept], DEFAULT_SYSTEM_PARAMS, market);
+    const withReturn = calculateScheduleResults([kept, { ...kept, amount: 50000, returned: true }], DEFAULT_SYSTEM_PARAMS, market);
+    expect(withReturn.totalMintedUser).toBe(alone.totalMintedUser);
+    expect(withReturn.totalBurned).toBe(alone.totalBurned);
+  });
+
+  it('charges the access fee once for every year with a purchase', () => {
+    const market = () => createClonedMarket();
+    const firstYear = calculateScheduleResults([kept, { ...kept, period: 11 }], DEFAULT_SYSTEM_PARAMS, market);
+    const twoYears = calculateScheduleResults([kept, { ...kept, period: 13 }], DEFAULT_SYSTEM_PARAMS, market);
+    const discountBurns = (results: typeof firstYear) => results.rows.reduce((sum, row) => sum + row.burned, 0);
+    expect(firstYear.totalBurned - discountBurns(firstYear)).toBeCloseTo(DEFAULT_SYSTEM_PARAMS.access_fee, 12);
+    expect(twoYears.totalBurned - discountBurns(twoYears)).toBeCloseTo(2 * DEFAULT_SYSTEM_PARAMS.access_fee, 12);
+  });
+});
@@ -0,0 +1,338 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import type { SystemParams } from './params';
+import { splitBurn } from './burnSplit';
+import { DEFAULT_SIMULATION_SETTINGS } from './simulation';
+import {
+  calculateBurnHeadroom,
+  calculateCashbackPercent,
+  calculateDiminishingFactor,
+  calculateDiscountPercent,
+  calculateMintedTokens,
+  calculateQualityFactor,
+  calculateTokenPrice,
+  calculateTokensForBurnValue,
+  type MarketFactory,
+  type PricingMode,
+  type PurchaseMint,
+} from './engine';
+
+// One purchase of a buyer's schedule
+export interface ScheduledPurchase {
+  amount: number; // Purchase price (₽)
+  period: number; // t of the purchase
+  returned: boolean; // Returned purchases neither mint cashback nor burn tokens
+  reviewQuality: number; // review_quality (0-1)
+}
+
+// Monthly spend pattern used to generate a schedule
+export interface SpendPattern {
+  monthlySpend: number; // ₽ per month (one period per month)
+  purchasesPerMonth: number;
+  months: number;
+  startPeriod: number;
+  reviewQuality: number;
+  returnRate: number; // Share of purchases that are returned
+}
+
+export const DEFAULT_SPEND_PATTERN: SpendPattern = {
+  monthlySpend: 20000,
+  purchasesPerMonth: 2,
+  months: 12,
+  startPeriod: 0,
+  reviewQuality: 0.8,
+  returnRate: 0.1,
+};
+
+export const DEFAULT_SCHEDULE: ScheduledPurchase[] = [
+  { amount: 10000, period: 0, returned: false, reviewQuality: 0.8 },
+  { amount: 3000, period: 1, returned: false, reviewQuality: 0.5 },
+  { amount: 25000, period: 3, returned: true, reviewQuality: 0.2 },
+  { amount: 7000, period: 6, returned: false, reviewQuality: 0.9 },
+];
+
+type NumericPurchaseField = Exclude<keyof ScheduledPurchase, 'returned'>;
+
+// Validate a purchase field
+export const validateScheduledPurchase = (
+  field: NumericPurchaseField,
+  value: number,
+  locale: Locale = DEFAULT_LOCALE
+): string | null => {
+  switch (field) {
+    case 'amount':
+      if (!Number.isFinite(value) || value < 0) {
+        return translate(locale, 'schedule.error.amount');
+      }
+      return null;
+    case 'period':
+      if (!Number.isFinite(value) || value < 0) {
+        return translate(locale, 'inputs.error.period');
+      }
+      return null;
+    case 'reviewQuality':
+      if (!Number.isFinite(value) || value < 0 || value > 1) {
+        return translate(locale, 'inputs.error.reviewQuality');
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+// Validate a spend pattern field
+export const validateSpendPattern = (
+  field: keyof SpendPattern,
+  value: number,
+  locale: Locale = DEFAULT_LOCALE
+): string | null => {
+  switch (field) {
+    case 'purchasesPerMonth':
+    case 'months':
+      if (isNaN(value) || value < 1 || !Number.isInteger(value)) {
+        return translate(locale, 'validation.wholeAtLeastOne');
+      }
+      return null;
+    case 'returnRate':
+      if (isNaN(value) || value < 0 || value > 1) {
+        return translate(locale, 'schedule.error.returnRate');
+      }
+      return null;
+    case 'monthlySpend':
+      return validateScheduledPurchase('amount', value, locale);
+    case 'startPeriod':
+      return validateScheduledPurchase('period', value, locale);
+    case 'reviewQuality':
+      return validateScheduledPurchase('reviewQuality', value, locale);
+    default:
+      return null;
+  }
+};
+
+// Spread monthly spend evenly; returns are placed deterministically to match returnRate
+export const generateSchedule = (pattern: SpendPattern): ScheduledPurchase[] => {
+  const schedule: ScheduledPurchase[] = [];
+  const amount = pattern.monthlySpend / pattern.purchasesPerMonth;
+  for (let month = 0; month < pattern.months; month++) {
+    for (let j = 0; j < pattern.purchasesPerMonth; j++) {
+      const i = schedule.length;
+      schedule.push({
+        amount,
+        period: pattern.startPeriod + month,
+        returned: Math.floor((i + 1) * pattern.returnRate) > Math.floor(i * pattern.returnRate),
+        reviewQuality: pattern.reviewQuality,
+      });
+    }
+  }
+  return schedule;
+};
+
+const RETURNED_VALUES = ['1', 'true', 'yes', 'да', 'д', 'y', '+'];
+const NOT_RETURNED_VALUES = ['', '0', 'false', 'no', 'нет', 'н', 'n', '-'];
+
+// "10,000" or "1,234,5" in a row that allows a decimal comma: comma grouping or several
+// separators, which cannot be told apart from a decimal
+const AMBIGUOUS_NUMBER = /[.,].*[.,]|^[+-]?[1-9]\d{0,2},\d{3}$/;
+
+// Number in a pasted cell; spaces and no-break spaces group thousands ("10 000").
+// Unlike parseFloat, trailing garbage makes the cell NaN instead of being dropped.
+const parseCell = (cell: string): number => {
+  const compact = cell.replace(/\s/g, '');
+  return compact === '' ? NaN : Number(compact);
+};
+
+export interface ParsedSchedule {
+  schedule: ScheduledPurchase[];
+  errors: string[];
+}
+
+// Parse pasted rows "amount, period, returned, reviewQuality".
+// Tab or semicolon separated rows may use a decimal comma; a header row is skipped.
+export const parseSchedule = (text: string, locale: Locale = DEFAULT_LOCALE): ParsedSchedule => {
+  const schedule: ScheduledPurchase[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, lineIndex) => {
+    if (!line.trim()) {
+      return;
+    }
+    const decimalComma = /[\t;]/.test(line);
+    const cells = (decimalComma ? line.split(/[\t;]/) : line.split(',')).map((cell) => cell.trim());
+    const [amountCell, periodCell = '', returnedCell = '', qualityCell = '1'] = cells;
+    const toNumber = (cell: string) => parseCell(decimalComma ? cell.replace(',', '.') : cell);
+
+    if (lineIndex === 0 && isNaN(toNumber(amountCell))) {
+      return;
+    }
+
+    const lineErrors: string[] = [];
+    const amount = toNumber(amountCell);
+    const period = toNumber(periodCell);
+    const reviewQuality = toNumber(qualityCell);
+    const returnedValue = returnedCell.toLowerCase();
+
+    for (const [field, cell, value] of [
+      ['amount', amountCell, amount],
+      ['period', periodCell, period],
+      ['reviewQuality', qualityCell, reviewQuality],
+    ] as [NumericPurchaseField, string, number][]) {
+      const error =
+        decimalComma && AMBIGUOUS_NUMBER.test(cell.replace(/\s/g, ''))
+          ? translate(locale, 'schedule.error.ambiguousNumber', { value: cell })
+          : validateScheduledPurchase(field, value, locale);
+      if (error) {
+        lineErrors.push(error);
+      }
+    }
+    if (!RETURNED_VALUES.includes(returnedValue) && !NOT_RETURNED_VALUES.includes(returnedValue)) {
+      lineErrors.push(translate(locale, 'schedule.error.returned'));
+    }
+
+    if (lineErrors.length > 0) {
+      errors.push(translate(locale, 'schedule.error.line', { line: lineIndex + 1, errors: lineErrors.join('; ') }));
+      return;
+    }
+    schedule.push({ amount, period, returned: RETURNED_VALUES.includes(returnedValue), reviewQuality });
+  });
+
+  return { schedule, errors };
+};
+
+// Result of one scheduled purchase
+export interface ScheduleRow extends ScheduledPurchase {
+  t: number;
+  CB_percent: number;
+  QF: number;
+  DF: number;
+  minted: number;
+  cutOff: number; // Tokens not minted because of user_cap
+  discount_percent: number;
+  tokenPrice: number; // Price the discount burn is converted at
+  burned: number;
+  burnRejected: number; // Discount burn rejected because of burn_cap
+  balance: number; // Running balance after this purchase
+}
+
+export interface ScheduleResults {
+  rows: ScheduleRow[]; // In period order
+  totalMintedUser: number;
+  totalBurned: number; // Discount burns plus access fee
+  burnDestroyed: number;
+  burnRedistributed: number;
+  netTokens: number;
+  tokenPrice: number; // Price after the last period
+  mintCutOff: number; // Tokens not minted because of user_cap
+  burnRejected: number; // Discount burns rejected because of burn_cap
+}
+
+// Mint and burn every purchase at its own period.
+// Purchases of one period form a batch, as in calculateResults: they mint in order,
+// then burn at discount%(t) and the token price after the market has minted.
+// As in the simulation, access_fee is charged once for every year (periodsPerYear periods
+// counted from t_launch) in which the schedule has a purchase.
+export const calculateScheduleResults = (
+  schedule: ScheduledPurchase[],
+  params: SystemParams,
+  createMarket: MarketFactory,
+  pricing: PricingMode = 'spot',
+  periodsPerYear = DEFAULT_SIMULATION_SETTINGS.periodsPerYear
+): ScheduleResults => {
+  const sorted = [...schedule].sort((a, b) => Math.floor(a.period) - Math.floor(b.period));
+  const periods = [...new Set(sorted.map((p) => Math.floor(p.period)))];
+
+  const rows: ScheduleRow[] = [];
+  let totalMintedUser = 0;
+  let totalBurned = 0;
+  let balance = 0;
+  let tokenPrice = calculateTokenPrice(createMarket(params.t_launch, params).initialGlobalMinted, params);
+
+  for (const t of periods) {
+    const market = createMarket(t, params);
+    let globalTotalMinted = market.estimate(totalMintedUser).newGlobalTotalMinted;
+    const batch = sorted.filter((p) => Math.floor(p.period) === t);
+
+    const batchRows = batch.map((purchase) => {
+      // A returned purchase keeps no cashback, so it mints nothing and leaves DF as it was
+      if (purchase.returned) {
+        const mint: PurchaseMint = {
+          index: 1,
+          CB_percent: calculateCashbackPercent(t, params),
+          QF: calculateQualityFactor(1, purchase.reviewQuality, params),
+          DF: calculateDiminishingFactor(totalMintedUser, params),
+          priceBefore: calculateTokenPrice(globalTotalMinted, params),
+          priceAfter: calculateTokenPrice(globalTotalMinted, params),
+          minted: 0,
+          cutOff: 0,
+        };
+        return { purchase, mint };
+      }
+      const mint = calculateMintedTokens(
+        {
+          purchasePrice: purchase.amount,
+          numberOfPurchases: 1,
+          period: t,
+          reviewQuality: purchase.reviewQuality,
+          returnProbability: 0,
+        },
+        params,
+        globalTotalMinted,
+        totalMintedUser,
+        pricing
+      );
+      globalTotalMinted = mint.newGlobalTotalMinted;
+      totalMintedUser += mint.totalMintedUser;
+      return { purchase, mint: mint.purchases[0] };
+    });
+
+    const estimate = market.estimate(totalMintedUser);
+    tokenPrice = calculateTokenPrice(estimate.newGlobalTotalMinted, params);
+    const discount_percent = calculateDiscountPercent(estimate.marketBurnedYear, params);
+    let supply = estimate.newGlobalTotalMinted;
+    let headroom = calculateBurnHeadroom(estimate.marketBurnedYear, params);
+
+    for (const { purchase, mint } of batchRows) {
+      // Returned purchases lose their discount, so nothing is burned for them
+      const burn = purchase.returned
+        ? 0
+        : calculateTokensForBurnValue(purchase.amount * discount_percent, supply, params, pricing);
+      const burnRejected = burn > headroom ? burn : 0;
+      const burned = burn - burnRejected;
+      headroom -= burned;
+      if (pricing === 'integral') {
+        supply -= burned;
+      }
+      totalBurned += burned;
+      balance += mint.minted - burned;
+      rows.push({
+        ...purchase,
+        t,
+        CB_percent: mint.CB_percent,
+        QF: mint.QF,
+        DF: mint.DF,
+        minted: mint.minted,
+        cutOff: mint.cutOff,
+        discount_percent,
+        tokenPrice,
+        burned,
+        burnRejected,
+        balance,
+      });
+    }
+  }
+
+  const years = new Set(periods.map((t) => Math.floor((t - params.t_launch) / periodsPerYear)));
+  totalBurned += params.access_fee * years.size;
+  const burnSplit = splitBurn(totalBurned, params);
+
+  return {
+    rows,
+    totalMintedUser,
+    totalBurned,
+    burnDestroyed: burnSplit.destroyed,
+    burnRedistributed: totalBurned - burnSplit.destroyed,
+    netTokens: totalMintedUser - totalBurned,
+    tokenPrice,
+    mintCutOff: rows.reduce((sum, row) => sum + row.cutOff, 0),
+    burnRejected: rows.reduce((sum, row) => sum + row.burnRejected, 0),
+  };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SELLER_INPUTS, calculateSellerResults } from './seller';
+import { DEFAULT_SYSTEM_PARAMS } from './params';
+import { calculateDiscountPercent } from './engine';
+
+describe('calculateSellerResults', () => {
+  const inputs = { ...DEFAULT_SELLER_INPUTS, gmv: 10000, orderCount: 10, periods: 6, periodsPerYear: 3 };
+  const { timeline, tokenPrice, totalFeeTokens } = calculateSellerResults(inputs, DEFAULT_SYSTEM_PARAMS);
+
+  it('prices burns at the supply after the market mints', () => {
+    expect(timeline[0].tokenPrice).toBeGreaterThan(DEFAULT_SYSTEM_PARAMS.P0);
+    for (let i = 1; i < timeline.length; i++) {
+      expect(timeline[i].tokenPrice).toBeGreaterThan(timeline[i - 1].tokenPrice);
+    }
+    expect(tokenPrice).toBe(timeline[timeline.length - 1].tokenPrice);
+  });
+
+  it('degrades the discount with the market burn and resets it every year', () => {
+    expect(timeline[0].marketBurnedYear).toBe(0);
+    expect(timeline[1].marketBurnedYear).toBeCloseTo(timeline[0].buyerBurnedTokens * 100, 9);
+    expect(timeline[3].marketBurnedYear).toBe(0);
+    for (const row of timeline) {
+      expect(row.discountPercent).toBeCloseTo(calculateDiscountPercent(row.marketBurnedYear, DEFAULT_SYSTEM_PARAMS), 12);
+    }
+  });
+
+  it('charges the access fee once a year', () => {
+    const fee = DEFAULT_SYSTEM_PARAMS.access_fee;
+    expect(timeline.map((row) => row.feeTokens)).toEqual([fee, 0, 0, fee, 0, 0]);
+    expect(totalFeeTokens).toBe(2 * fee);
+  });
+});
@@ -0,0 +1,171 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import type { SystemParams } from './params';
+import {
+  DEFAULT_MARKET_ASSUMPTIONS,
+  calculateCashbackPercent,
+  calculateDiscountPercent,
+  calculateTokenPrice,
+  type MarketAssumptions,
+} from './engine';
+
+// Seller (B2B) input parameters
+export interface SellerInputs {
+  gmv: number; // Gross merchandise value per period (₽)
+  orderCount: number; // Orders per period
+  returnRate: number; // Share of returned orders (0-1)
+  discountedShare: number; // Share of kept orders paid partly with tokens (0-1)
+  periods: number; // Number of periods to project
+  periodsPerYear: number; // Periods after which the market's yearly burn resets
+}
+
+export const DEFAULT_SELLER_INPUTS: SellerInputs = {
+  gmv: 1000000,
+  orderCount: 100,
+  returnRate: 0.05,
+  discountedShare: 0.5,
+  periods: 12,
+  periodsPerYear: 12,
+};
+
+// Validation function
+export const validateSellerInput = (
+  field: keyof SellerInputs,
+  value: number,
+  locale: Locale = DEFAULT_LOCALE
+): string | null => {
+  switch (field) {
+    case 'gmv':
+      if (isNaN(value) || value < 0) {
+        return translate(locale, 'seller.error.gmv');
+      }
+      return null;
+    case 'orderCount':
+      if (isNaN(value) || value < 1 || !Number.isInteger(value)) {
+        return translate(locale, 'seller.error.orderCount');
+      }
+      return null;
+    case 'returnRate':
+      if (isNaN(value) || value < 0 || value > 1) {
+        return translate(locale, 'seller.error.returnRate');
+      }
+      return null;
+    case 'discountedShare':
+      if (isNaN(value) || value < 0 || value > 1) {
+        return translate(locale, 'seller.error.discountedShare');
+      }
+      return null;
+    case 'periods':
+    case 'periodsPerYear':
+      if (isNaN(value) || value < 1 || !Number.isInteger(value)) {
+        return translate(locale, 'seller.error.periods');
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+export interface SellerPeriodResult {
+  period: number;
+  tokenPrice: number; // Price after the market's mint for the period
+  marketBurnedYear: number; // Market burn since the start of the year, before this period (drives discount%)
+  discountPercent: number;
+  discountRub: number; // Discount granted to buyers on the seller's orders
+  buyerBurnedTokens: number; // Tokens burned by buyers for those discounts
+  redistributedTokens: number; // Seller's share of the buyer burns
+  feeTokens: number; // Seller-side access fee
+  netTokens: number; // redistributed - fee for the period
+  cumulativeNetTokens: number;
+  cumulativeNetRub: number;
+}
+
+export interface SellerResults {
+  tokenPrice: number; // Price at the end of the horizon
+  avgOrderValue: number;
+  discountedOrdersPerPeriod: number;
+  totalRedistributedTokens: number;
+  totalFeeTokens: number;
+  netTokens: number;
+  netValueRub: number;
+  timeline: SellerPeriodResult[];
+}
+
+// Project the seller's token position period by period from t_launch.
+// As in the buyer engine, the market is assumedUsers copies of the current participant:
+// assumedUsers sellers like this one, whose kept orders mint cashback (at neutral QF and DF)
+// and whose discounted orders burn. Supply and the yearly market burn carry over between
+// periods; the burn counter resets every periodsPerYear periods, when the seller also pays
+// the yearly access_fee, as buyers do in the simulation.
+export const calculateSellerResults = (
+  inputs: SellerInputs,
+  params: SystemParams,
+  market: MarketAssumptions = DEFAULT_MARKET_ASSUMPTIONS
+): SellerResults => {
+  const avgOrderValue = inputs.gmv / inputs.orderCount;
+
+  // Returned orders neither keep their discount nor mint cashback
+  const keptOrders = inputs.orderCount * (1 - inputs.returnRate);
+  const discountedOrdersPerPeriod = keptOrders * inputs.discountedShare;
+
+  const timeline: SellerPeriodResult[] = [];
+  let supply = market.initialGlobalMinted;
+  let marketBurnedYear = 0;
+  let cumulativeNetTokens = 0;
+  let totalRedistributedTokens = 0;
+  let totalFeeTokens = 0;
+
+  for (let i = 0; i < inputs.periods; i++) {
+    const period = params.t_launch + i;
+    const isYearStart = i % inputs.periodsPerYear === 0;
+    if (isYearStart) {
+      marketBurnedYear = 0;
+    }
+
+    // The market mints first, then burns are priced at the updated supply
+    const cashbackRub = keptOrders * avgOrderValue * calculateCashbackPercent(period, params);
+    supply += (cashbackRub / calculateTokenPrice(supply, params)) * market.assumedUsers;
+    const tokenPrice = calculateTokenPrice(supply, params);
+
+    // Discount degrades with the market's burn this year
+    const discountPercent = calculateDiscountPercent(marketBurnedYear, params);
+    const discountRub = discountedOrdersPerPeriod * avgOrderValue * discountPercent;
+    const buyerBurnedTokens = discountRub / tokenPrice;
+    const redistributedTokens = buyerBurnedTokens * params.burn_sellers;
+    const feeTokens = isYearStart ? params.access_fee : 0;
+    const netTokens = redistributedTokens - feeTokens;
+
+    cumulativeNetTokens += netTokens;
+    totalRedistributedTokens += redistributedTokens;
+    totalFeeTokens += feeTokens;
+
+    timeline.push({
+      period,
+      tokenPrice,
+      marketBurnedYear,
+      discountPercent,
+      discountRub,
+      buyerBurnedTokens,
+      redistributedTokens,
+      feeTokens,
+      netTokens,
+      cumulativeNetTokens,
+      cumulativeNetRub: cumulativeNetTokens * tokenPrice,
+    });
+
+    marketBurnedYear += buyerBurnedTokens * market.assumedUsers;
+  }
+
+  const tokenPrice = calculateTokenPrice(supply, params);
+
+  return {
+    tokenPrice,
+    avgOrderValue,
+    discountedOrdersPerPeriod,
+    totalRedistributedTokens,
+    totalFeeTokens,
+    netTokens: cumulativeNetTokens,
+    netValueRub: cumulativeNetTokens * tokenPrice,
+    timeline,
+  };
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { calculateResults, createClonedMarket } from './engine';
+import { DEFAULT_SYSTEM_PARAMS, type SystemParams } from './params';
+import { DEFAULT_USER_INPUTS } from './inputs';
+import { evaluateMetrics, runSensitivity } from './sensitivity';
+
+const createMarket = () => createClonedMarket();
+
+describe('evaluateMetrics', () => {
+  it('uses the pricing mode and hard caps of the page', () => {
+    const capped: SystemParams = { ...DEFAULT_SYSTEM_PARAMS, hard_caps: true, user_cap: 20 };
+    const expected = calculateResults(DEFAULT_USER_INPUTS, capped, createClonedMarket(), 'integral');
+    expect(evaluateMetrics(DEFAULT_USER_INPUTS, capped, createMarket, 'integral')).toEqual({
+      netTokens: expected.netTokens,
+      tokenPrice: expected.tokenPrice,
+      netValueRub: expected.breakdown.netValueRub,
+    });
+  });
+});
+
+describe('runSensitivity', () => {
+  it('starts every row from the base metrics', () => {
+    const { base, rows } = runSensitivity(DEFAULT_USER_INPUTS, DEFAULT_SYSTEM_PARAMS, 0, createMarket, 'integral');
+    expect(base).toEqual(evaluateMetrics(DEFAULT_USER_INPUTS, DEFAULT_SYSTEM_PARAMS, createMarket, 'integral'));
+    for (const row of rows) {
+      expect(row.low.netTokens).toBeCloseTo(base.netTokens, 9);
+    }
+  });
+});
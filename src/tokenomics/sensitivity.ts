@@ -0,0 +1,178 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import {
+  SYSTEM_PARAM_FIELDS,
+  type NumericSystemParam,
+  type SystemParams,
+} from './params';
+import { DEFAULT_USER_INPUTS, correctInput, type UserInputs } from './inputs';
+import {
+  calculateResults,
+  createClonedMarket,
+  type MarketFactory,
+  type PricingMode,
+} from './engine';
+
+// Any numeric SystemParams or UserInputs field (their keys do not overlap)
+export type SensitivityKey = NumericSystemParam | keyof UserInputs;
+
+export type SensitivityMetric = 'netTokens' | 'tokenPrice' | 'netValueRub';
+
+export const SENSITIVITY_METRICS: SensitivityMetric[] = ['netTokens', 'tokenPrice', 'netValueRub'];
+
+const defaultMarketFactory: MarketFactory = () => createClonedMarket();
+
+const USER_INPUT_KEYS = Object.keys(DEFAULT_USER_INPUTS) as (keyof UserInputs)[];
+
+export const SENSITIVITY_KEYS: SensitivityKey[] = [
+  ...SYSTEM_PARAM_FIELDS.map((field) => field.key),
+  ...USER_INPUT_KEYS,
+];
+
+const isUserInputKey = (key: SensitivityKey): key is keyof UserInputs =>
+  (USER_INPUT_KEYS as string[]).includes(key);
+
+// Short label of a variable from the catalog
+export const sensitivityLabel = (key: SensitivityKey, locale: Locale = DEFAULT_LOCALE): string =>
+  translate(locale, isUserInputKey(key) ? `input.${key}` : `param.${key}.label`);
+
+export const getVariable = (inputs: UserInputs, params: SystemParams, key: SensitivityKey): number =>
+  isUserInputKey(key) ? inputs[key] : params[key];
+
+// Set one variable, clamping it into its valid range
+export const setVariable = (
+  inputs: UserInputs,
+  params: SystemParams,
+  key: SensitivityKey,
+  value: number
+): { inputs: UserInputs; params: SystemParams } => {
+  if (isUserInputKey(key)) {
+    const rounded = key === 'numberOfPurchases' ? Math.round(value) : value;
+    return { inputs: { ...inputs, [key]: correctInput(key, rounded) }, params };
+  }
+  const field = SYSTEM_PARAM_FIELDS.find((f) => f.key === key);
+  let clamped = value;
+  if (field) {
+    if (field.minExclusive ? clamped <= field.min : clamped < field.min) {
+      // Strictly positive fields fall back to their smallest step
+      clamped = field.minExclusive ? field.min + field.step : field.min;
+    }
+    if (field.max !== undefined) {
+      clamped = Math.min(field.max, clamped);
+    }
+  }
+  return { inputs, params: { ...params, [key]: clamped } };
+};
+
+// Metrics of the buyer snapshot; calculateResults applies hard_caps from params
+export const evaluateMetrics = (
+  inputs: UserInputs,
+  params: SystemParams,
+  createMarket: MarketFactory = defaultMarketFactory,
+  pricing: PricingMode = 'spot'
+): Record<SensitivityMetric, number> => {
+  const results = calculateResults(inputs, params, createMarket(Math.floor(inputs.period), params), pricing);
+  return {
+    netTokens: results.netTokens,
+    tokenPrice: results.tokenPrice,
+    netValueRub: results.breakdown.netValueRub,
+  };
+};
+
+export interface SensitivityRow {
+  key: SensitivityKey;
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  low: Record<SensitivityMetric, number>;
+  high: Record<SensitivityMetric, number>;
+}
+
+export interface SensitivityResult {
+  base: Record<SensitivityMetric, number>;
+  rows: SensitivityRow[];
+}
+
+// Perturb every variable by ±delta (relative) and recompute the metrics.
+// onProgress is called after each variable.
+export const runSensitivity = (
+  inputs: UserInputs,
+  params: SystemParams,
+  delta: number,
+  createMarket: MarketFactory = defaultMarketFactory,
+  pricing: PricingMode = 'spot',
+  onProgress?: (done: number, total: number) => void
+): SensitivityResult => {
+  const base = evaluateMetrics(inputs, params, createMarket, pricing);
+  const rows = SENSITIVITY_KEYS.map((key, index) => {
+    const baseValue = getVariable(inputs, params, key);
+    const lowState = setVariable(inputs, params, key, baseValue * (1 - delta));
+    const highState = setVariable(inputs, params, key, baseValue * (1 + delta));
+    const row = {
+      key,
+      baseValue,
+      lowValue: getVariable(lowState.inputs, lowState.params, key),
+      highValue: getVariable(highState.inputs, highState.params, key),
+      low: evaluateMetrics(lowState.inputs, lowState.params, createMarket, pricing),
+      high: evaluateMetrics(highState.inputs, highState.params, createMarket, pricing),
+    };
+    onProgress?.(index + 1, SENSITIVITY_KEYS.length);
+    return row;
+  });
+  return { base, rows };
+};
+
+// Rows ordered by the spread they cause in the given metric
+export const rankByImpact = (rows: SensitivityRow[], metric: SensitivityMetric): SensitivityRow[] =>
+  [...rows].sort(
+    (a, b) => Math.abs(b.high[metric] - b.low[metric]) - Math.abs(a.high[metric] - a.low[metric])
+  );
+
+export interface HeatmapResult {
+  xValues: number[];
+  yValues: number[];
+  cells: number[][]; // cells[yIndex][xIndex]
+  min: number;
+  max: number;
+}
+
+// Range of a variable for the heatmap: base ± span, or [0, 1] when the base is zero
+export const heatmapRange = (baseValue: number, span: number): [number, number] =>
+  baseValue === 0 ? [0, 1] : [baseValue * (1 - span), baseValue * (1 + span)];
+
+// Evaluate a metric over a grid of two variables; onProgress is called after each row
+export const runHeatmap = (
+  inputs: UserInputs,
+  params: SystemParams,
+  xKey: SensitivityKey,
+  yKey: SensitivityKey,
+  xRange: [number, number],
+  yRange: [number, number],
+  steps: number,
+  metric: SensitivityMetric,
+  createMarket: MarketFactory = defaultMarketFactory,
+  pricing: PricingMode = 'spot',
+  onProgress?: (done: number, total: number) => void
+): HeatmapResult => {
+  const axis = ([from, to]: [number, number]) =>
+    Array.from({ length: steps }, (_, i) => (steps > 1 ? from + ((to - from) * i) / (steps - 1) : from));
+  const xValues = axis(xRange);
+  const yValues = axis(yRange);
+
+  let min = Infinity;
+  let max = -Infinity;
+  const cells = yValues.map((y, yIndex) => {
+    const row = xValues.map((x) => {
+      const withX = setVariable(inputs, params, xKey, x);
+      const withXY = setVariable(withX.inputs, withX.params, yKey, y);
+      const value = evaluateMetrics(withXY.inputs, withXY.params, createMarket, pricing)[metric];
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+      return value;
+    });
+    onProgress?.(yIndex + 1, yValues.length);
+    return row;
+  });
+
+  return { xValues, yValues, cells, min, max };
+};
@@ -0,0 +1,209 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import type { SystemParams } from './params';
+import { REDISTRIBUTION_DESTINATIONS, splitBurn, type RedistributionDestination } from './burnSplit';
+import {
+  DEFAULT_MARKET_ASSUMPTIONS,
+  calculateBurnHeadroom,
+  calculateCashbackPercent,
+  calculateDiscountPercent,
+  calculateMintedTokens,
+  calculateTokenPrice,
+} from './engine';
+
+// Multi-period simulation settings
+export interface SimulationSettings {
+  periods: number; // Number of periods to simulate from t_launch
+  periodsPerYear: number; // Periods after which the yearly burn counter resets
+  users: number; // Number of active buyers
+  purchasesPerPeriod: number; // Purchases per buyer per period
+  purchasePrice: number; // Average purchase price (₽)
+  reviewQuality: number; // review_quality (0-1)
+  returnProbability: number; // return_probability (0-1)
+  initialGlobalMinted: number; // Global token supply before t_launch
+}
+
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  periods: 24,
+  periodsPerYear: 12,
+  users: DEFAULT_MARKET_ASSUMPTIONS.assumedUsers,
+  purchasesPerPeriod: 1,
+  purchasePrice: 10000,
+  reviewQuality: 0.8,
+  returnProbability: 0.1,
+  initialGlobalMinted: DEFAULT_MARKET_ASSUMPTIONS.initialGlobalMinted,
+};
+
+// Validation function
+export const validateSimulationSetting = (
+  field: keyof SimulationSettings,
+  value: number,
+  locale: Locale = DEFAULT_LOCALE
+): string | null => {
+  switch (field) {
+    case 'periods':
+    case 'periodsPerYear':
+    case 'users':
+    case 'purchasesPerPeriod':
+      if (isNaN(value) || value < 1 || !Number.isInteger(value)) {
+        return translate(locale, 'validation.wholeAtLeastOne');
+      }
+      return null;
+    case 'purchasePrice':
+    case 'initialGlobalMinted':
+      if (isNaN(value) || value < 0) {
+        return translate(locale, 'validation.nonNegative');
+      }
+      return null;
+    case 'reviewQuality':
+    case 'returnProbability':
+      if (isNaN(value) || value < 0 || value > 1) {
+        return translate(locale, 'validation.share');
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+export interface SimulationPeriod {
+  period: number;
+  CB_percent: number;
+  discount_percent: number;
+  tokenPrice: number; // Price at the start of the period
+  minted: number; // Tokens minted by all users in the period
+  burned: number; // Tokens burned by all users in the period
+  discountBurned: number; // Part of the burn redeemed for discounts
+  feeBurned: number; // Part of the burn paid as access fees
+  mintCutOff: number; // Tokens not minted because users hit user_cap
+  burnRejected: number; // Discount burns rejected because of burn_cap
+  destroyed: number; // Part of the burn removed from supply
+  redistributed: number; // Part of the burn passed to sellers and pools
+  pools: Record<RedistributionDestination, number>; // Cumulative tokens redistributed to each destination
+  globalTotalMinted: number; // Cumulative gross mint incl. initial supply
+  circulatingSupply: number; // globalTotalMinted - cumulative destroyed
+  burnedYear: number; // Burned since the start of the current year
+  cumulativeBurned: number;
+  userMinted: number; // Cumulative mint of one user (drives DF)
+  userBalance: number; // Tokens one user still holds
+}
+
+export interface SimulationResult {
+  timeline: SimulationPeriod[];
+  finalPrice: number;
+  finalCirculatingSupply: number;
+  cumulativeBurned: number;
+  mintCutOff: number; // Tokens not minted because of user_cap over the run
+  burnRejected: number; // Discount burns rejected because of burn_cap over the run
+  supplyChange: number; // Relative change of circulating supply over the run
+}
+
+// Step the economy from t_launch through settings.periods, carrying state between periods.
+// Price follows the bonding curve over circulating supply, so destroyed tokens lower it.
+export const runSimulation = (
+  settings: SimulationSettings,
+  params: SystemParams
+): SimulationResult => {
+  const timeline: SimulationPeriod[] = [];
+
+  let globalTotalMinted = settings.initialGlobalMinted;
+  let cumulativeDestroyed = 0;
+  let cumulativeBurned = 0;
+  let burnedYear = 0;
+  let userMinted = 0;
+  let userBalance = 0;
+  const pools: Record<RedistributionDestination, number> = { sellers: 0, treasury: 0, staking: 0, referral: 0 };
+
+  for (let i = 0; i < settings.periods; i++) {
+    const t = params.t_launch + i;
+
+    // Reset the yearly burn counter at the start of each year
+    const isYearStart = i % settings.periodsPerYear === 0;
+    if (isYearStart) {
+      burnedYear = 0;
+    }
+
+    const circulatingBefore = globalTotalMinted - cumulativeDestroyed;
+    const tokenPrice = calculateTokenPrice(circulatingBefore, params);
+    const CB_percent = calculateCashbackPercent(t, params);
+    const discount_percent = calculateDiscountPercent(burnedYear, params);
+
+    // Mint for one representative user, continuing their DF decay from earlier periods
+    const mintResult = calculateMintedTokens(
+      {
+        purchasePrice: settings.purchasePrice,
+        numberOfPurchases: settings.purchasesPerPeriod,
+        period: t,
+        reviewQuality: settings.reviewQuality,
+        returnProbability: settings.returnProbability,
+      },
+      params,
+      circulatingBefore,
+      userMinted
+    );
+    userMinted += mintResult.totalMintedUser;
+    userBalance += mintResult.totalMintedUser;
+
+    // Users pay the yearly access fee, then burn for discounts, but never more than they hold
+    const discountTokens =
+      (settings.purchasePrice * settings.purchasesPerPeriod * discount_percent) / tokenPrice;
+    const userFee = Math.min(userBalance, isYearStart ? params.access_fee : 0);
+    const wantedDiscount = Math.min(userBalance - userFee, discountTokens);
+    // With hard caps, discount burns past burn_cap are rejected for the rest of the year
+    const discountHeadroom = Math.max(0, calculateBurnHeadroom(burnedYear, params) - userFee * settings.users);
+    const userDiscount = Math.min(wantedDiscount, discountHeadroom / settings.users);
+    const userBurned = userFee + userDiscount;
+    userBalance -= userBurned;
+
+    const minted = mintResult.totalMintedUser * settings.users;
+    const burned = userBurned * settings.users;
+    // Only the destroyed share leaves supply; redistributed tokens return to circulation
+    const split = splitBurn(burned, params);
+    const destroyed = split.destroyed;
+    const redistributed = burned - destroyed;
+    for (const destination of REDISTRIBUTION_DESTINATIONS) {
+      pools[destination] += split[destination];
+    }
+
+    globalTotalMinted += minted;
+    cumulativeDestroyed += destroyed;
+    cumulativeBurned += burned;
+    burnedYear += burned;
+
+    timeline.push({
+      period: t,
+      CB_percent,
+      discount_percent,
+      tokenPrice,
+      minted,
+      burned,
+      discountBurned: userDiscount * settings.users,
+      feeBurned: userFee * settings.users,
+      mintCutOff: mintResult.mintCutOff * settings.users,
+      burnRejected: (wantedDiscount - userDiscount) * settings.users,
+      destroyed,
+      redistributed,
+      pools: { ...pools },
+      globalTotalMinted,
+      circulatingSupply: globalTotalMinted - cumulativeDestroyed,
+      burnedYear,
+      cumulativeBurned,
+      userMinted,
+      userBalance,
+    });
+  }
+
+  const finalCirculatingSupply = globalTotalMinted - cumulativeDestroyed;
+
+  return {
+    timeline,
+    finalPrice: calculateTokenPrice(finalCirculatingSupply, params),
+    finalCirculatingSupply,
+    cumulativeBurned,
+    mintCutOff: timeline.reduce((sum, row) => sum + row.mintCutOff, 0),
+    burnRejected: timeline.reduce((sum, row) => sum + row.burnRejected, 0),
+    supplyChange: settings.initialGlobalMinted > 0
+      ? finalCirculatingSupply / settings.initialGlobalMinted - 1
+      : 0,
+  };
+};
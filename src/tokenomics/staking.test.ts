@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MARKET_ASSUMPTIONS, calculateResults, createClonedMarket } from './engine';
+import { DEFAULT_SYSTEM_PARAMS } from './params';
+import { DEFAULT_USER_INPUTS } from './inputs';
+import { DEFAULT_POPULATION, aggregatePopulation, createPopulationMarket } from './population';
+import { DEFAULT_STAKING_SETTINGS, calculateStaking } from './staking';
+
+const params = DEFAULT_SYSTEM_PARAMS;
+// A tenth of every burn goes to the staking pool
+const stakingParams = { ...params, burn_staking: 0.1 };
+
+describe('calculateStaking', () => {
+  it('pays the staking share of the yearly market burn over the periods of a year', () => {
+    const results = calculateResults(DEFAULT_USER_INPUTS, stakingParams, createClonedMarket());
+    const staking = calculateStaking(results, stakingParams, DEFAULT_STAKING_SETTINGS);
+    const { lockShare, participation, periodsPerYear, termPeriods } = DEFAULT_STAKING_SETTINGS;
+    const poolPerPeriod = (results.breakdown.marketBurnedYear * 0.1) / periodsPerYear;
+    // The buyer and half of the other 99 clones lock the same amount
+    const poolShare = 1 / (1 + 99 * participation);
+    expect(results.breakdown.marketBurnedPeriod).toBeNull();
+    expect(staking.stakedTokens).toBeCloseTo(results.netTokens * lockShare, 12);
+    expect(staking.poolPerPeriod).toBeCloseTo(poolPerPeriod, 12);
+    expect(staking.timeline).toHaveLength(termPeriods + 1);
+    expect(staking.yieldTokens).toBeGreaterThan(0);
+    expect(staking.yieldTokens).toBeCloseTo(poolPerPeriod * poolShare * termPeriods, 12);
+  });
+
+  it('pays the staking share of a population burn, which is already per period', () => {
+    const market = createPopulationMarket(DEFAULT_POPULATION, stakingParams, 1);
+    const aggregate = aggregatePopulation(
+      DEFAULT_POPULATION,
+      stakingParams,
+      1,
+      DEFAULT_MARKET_ASSUMPTIONS.initialGlobalMinted
+    );
+    const results = calculateResults(DEFAULT_USER_INPUTS, stakingParams, market);
+    const staking = calculateStaking(results, stakingParams, DEFAULT_STAKING_SETTINGS);
+    expect(aggregate.burned).toBeGreaterThan(0);
+    expect(staking.poolPerPeriod).toBeCloseTo(aggregate.burned * 0.1, 9);
+  });
+
+  it('funds the pool from the emission of the active market', () => {
+    const market = createPopulationMarket(DEFAULT_POPULATION, params, 1);
+    const results = calculateResults(DEFAULT_USER_INPUTS, params, market);
+    const staking = calculateStaking(results, params, { ...DEFAULT_STAKING_SETTINGS, funding: 'emission' });
+    const marketMinted = market.estimate(results.totalMintedUser).marketMinted;
+    expect(marketMinted).toBeGreaterThan(results.totalMintedUser);
+    expect(staking.poolPerPeriod).toBeCloseTo(marketMinted * DEFAULT_STAKING_SETTINGS.emissionShare, 12);
+  });
+});
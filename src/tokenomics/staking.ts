@@ -0,0 +1,130 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import type { SystemParams } from './params';
+import { calculateTokenPrice, type CalculationResults } from './engine';
+
+// Where the staking reward pool comes from
+export type StakingFunding = 'burns' | 'emission';
+
+// Buyer's lock-up settings
+export interface StakingSettings {
+  lockShare: number; // Share of netTokens the buyer locks (0-1)
+  termPeriods: number; // Lock-up term in periods
+  funding: StakingFunding;
+  emissionShare: number; // Share of market emission minted into the pool when funded by emission
+  participation: number; // Share of other users who stake the same way (0-1)
+  periodsPerYear: number; // Splits a yearly market burn into per-period pool payments
+}
+
+export const DEFAULT_STAKING_SETTINGS: StakingSettings = {
+  lockShare: 0.5,
+  termPeriods: 6,
+  funding: 'burns',
+  emissionShare: 0.05,
+  participation: 0.5,
+  periodsPerYear: 12,
+};
+
+export const STAKING_FUNDINGS: StakingFunding[] = ['burns', 'emission'];
+
+type NumericStakingSetting = Exclude<keyof StakingSettings, 'funding'>;
+
+// Validation function
+export const validateStakingSetting = (
+  field: NumericStakingSetting,
+  value: number,
+  locale: Locale = DEFAULT_LOCALE
+): string | null => {
+  switch (field) {
+    case 'lockShare':
+    case 'emissionShare':
+    case 'participation':
+      if (isNaN(value) || value < 0 || value > 1) {
+        return translate(locale, 'validation.share');
+      }
+      return null;
+    case 'termPeriods':
+      if (isNaN(value) || value < 1 || !Number.isInteger(value)) {
+        return translate(locale, 'staking.error.termPeriods');
+      }
+      return null;
+    case 'periodsPerYear':
+      if (isNaN(value) || value < 1 || !Number.isInteger(value)) {
+        return translate(locale, 'validation.wholeAtLeastOne');
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+export interface StakingPeriod {
+  period: number; // Periods since the lock started
+  yieldTokens: number; // Cumulative yield
+}
+
+export interface StakingResult {
+  stakedTokens: number; // Locked by the buyer
+  liquidTokens: number; // netTokens left unlocked
+  lockedSupply: number; // Locked by the buyer and the staking part of the market
+  poolPerPeriod: number; // Tokens paid into the pool each period
+  poolShare: number; // Buyer's share of the pool
+  yieldTokens: number; // Buyer's yield over the term
+  yieldRub: number;
+  yieldRate: number; // yieldTokens / stakedTokens over the term
+  tokenPrice: number; // Price with locked tokens removed from supply
+  finalTokens: number; // netTokens + yield once the lock ends
+  timeline: StakingPeriod[];
+}
+
+// Lock part of the buyer's net tokens for termPeriods.
+// A `participation` share of the other users of the active market locks the same amount,
+// and the pool is split pro rata between all stakers.
+// Each period the pool receives the staking share (burn_staking) of the market's burn in one
+// period, or a share of the market emission, which then adds to supply. A market that only
+// knows its yearly burn (the cloned market) has it spread over periodsPerYear.
+// Locked tokens leave the circulating supply that drives the token price.
+export const calculateStaking = (
+  results: CalculationResults,
+  params: SystemParams,
+  settings: StakingSettings
+): StakingResult => {
+  const { breakdown } = results;
+  const stakedTokens = Math.max(0, results.netTokens) * settings.lockShare;
+  const stakers = 1 + Math.max(0, breakdown.assumedUsers - 1) * settings.participation;
+  const lockedSupply = stakedTokens * stakers;
+  const poolShare = stakedTokens > 0 ? 1 / stakers : 0;
+
+  const marketBurnedPeriod = breakdown.marketBurnedPeriod ?? breakdown.marketBurnedYear / settings.periodsPerYear;
+  const poolPerPeriod =
+    settings.funding === 'burns'
+      ? marketBurnedPeriod * params.burn_staking
+      : breakdown.marketMinted * settings.emissionShare;
+
+  const timeline: StakingPeriod[] = Array.from({ length: settings.termPeriods + 1 }, (_, period) => ({
+    period,
+    yieldTokens: poolPerPeriod * poolShare * period,
+  }));
+  const yieldTokens = timeline[timeline.length - 1].yieldTokens;
+
+  // Emission-funded rewards are new tokens; burn-funded ones were already in supply
+  const emittedRewards = settings.funding === 'emission' ? poolPerPeriod * settings.termPeriods : 0;
+  const tokenPrice = calculateTokenPrice(
+    Math.max(0, breakdown.newGlobalTotalMinted - lockedSupply + emittedRewards),
+    params
+  );
+
+  return {
+    stakedTokens,
+    liquidTokens: results.netTokens - stakedTokens,
+    lockedSupply,
+    poolPerPeriod,
+    poolShare,
+    yieldTokens,
+    yieldRub: yieldTokens * tokenPrice,
+    yieldRate: stakedTokens > 0 ? yieldTokens / stakedTokens : 0,
+    tokenPrice,
+    finalTokens: results.netTokens + yieldTokens,
+    timeline,
+  };
+};
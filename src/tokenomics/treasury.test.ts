@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TREASURY_SETTINGS, runTreasury } from './treasury';
+import { DEFAULT_SIMULATION_SETTINGS, runSimulation } from './simulation';
+import { DEFAULT_SYSTEM_PARAMS } from './params';
+
+describe('runTreasury', () => {
+  const settings = { ...DEFAULT_SIMULATION_SETTINGS, periods: 6 };
+  const treasury = { ...DEFAULT_TREASURY_SETTINGS, fundingRate: 0 };
+
+  it('moves the reserve only by funding and discount payouts', () => {
+    const simulation = runSimulation(settings, DEFAULT_SYSTEM_PARAMS);
+    const { timeline } = runTreasury(simulation, settings, DEFAULT_SYSTEM_PARAMS, treasury);
+    let reserve = treasury.initialReserve;
+    timeline.forEach((row, i) => {
+      reserve -= simulation.timeline[i].discountBurned * simulation.timeline[i].tokenPrice;
+      expect(row.reserve).toBeCloseTo(reserve, 6);
+    });
+  });
+
+  it('counts access fees once, through the supply they burn', () => {
+    const params = { ...DEFAULT_SYSTEM_PARAMS, discount_base: 0 };
+    const withFee = runTreasury(runSimulation(settings, params), settings, params, treasury);
+    const noFeeParams = { ...params, access_fee: 0 };
+    const noFee = runTreasury(runSimulation(settings, noFeeParams), settings, noFeeParams, treasury);
+    expect(withFee.finalReserve).toBe(noFee.finalReserve);
+    expect(withFee.timeline[0].requiredReserve).toBeLessThan(noFee.timeline[0].requiredReserve);
+  });
+});
@@ -0,0 +1,104 @@
+import { DEFAULT_LOCALE, translate } from '../i18n/format';
+import type { Locale } from '../i18n/messages';
+import type { SystemParams } from './params';
+import { calculateCurveArea } from './engine';
+import type { SimulationResult, SimulationSettings } from './simulation';
+
+// Treasury settings: who funds the cashback and how much backing is expected
+export interface TreasurySettings {
+  initialReserve: number; // Ruble reserve at t_launch
+  fundingRate: number; // Share of purchase volume the platform pays into the reserve
+  minReserveRatio: number; // Reserve ratio below which the treasury is flagged
+}
+
+export const DEFAULT_TREASURY_SETTINGS: TreasurySettings = {
+  initialReserve: 50000,
+  fundingRate: 0.05,
+  minReserveRatio: 0.5,
+};
+
+// Validation function
+export const validateTreasurySetting = (
+  field: keyof TreasurySettings,
+  value: number,
+  locale: Locale = DEFAULT_LOCALE
+): string | null => {
+  switch (field) {
+    case 'initialReserve':
+      if (isNaN(value) || value < 0) {
+        return translate(locale, 'treasury.error.initialReserve');
+      }
+      return null;
+    case 'fundingRate':
+    case 'minReserveRatio':
+      if (isNaN(value) || value < 0 || value > 1) {
+        return translate(locale, 'validation.share');
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+export interface TreasuryPeriod {
+  period: number;
+  fundingInflow: number; // ₽ paid in by the platform
+  discountOutflow: number; // ₽ paid out for discounts redeemed with tokens
+  reserve: number; // Ruble reserve at the end of the period
+  requiredReserve: number; // ₽ needed to buy back the circulating supply outside the treasury
+  reserveRatio: number; // reserve / requiredReserve
+  insolvent: boolean; // Reserve went negative
+  undercollateralized: boolean; // Reserve ratio below minReserveRatio
+}
+
+export interface TreasuryResult {
+  timeline: TreasuryPeriod[];
+  finalReserve: number;
+  minReserveRatio: number; // Lowest reserve ratio over the run
+  insolventPeriod: number | null; // First period with a negative reserve
+  undercollateralizedPeriod: number | null; // First period below minReserveRatio
+}
+
+// Track the ruble reserve behind a simulation run.
+// Discounts are paid out of the reserve at the period's token price and platform funding
+// flows in. Backing is measured against the area under the curve up to the circulating
+// supply held outside the treasury, i.e. the cost of redeeming every such token along the curve.
+// Access fees are paid in tokens, not rubles: they count only through the burn that lowers
+// that supply, not again as a ruble inflow.
+export const runTreasury = (
+  simulation: SimulationResult,
+  settings: SimulationSettings,
+  params: SystemParams,
+  treasury: TreasurySettings
+): TreasuryResult => {
+  const purchaseVolume = settings.users * settings.purchasesPerPeriod * settings.purchasePrice;
+  let reserve = treasury.initialReserve;
+
+  const timeline = simulation.timeline.map((row): TreasuryPeriod => {
+    const fundingInflow = purchaseVolume * treasury.fundingRate;
+    const discountOutflow = row.discountBurned * row.tokenPrice;
+    reserve += fundingInflow - discountOutflow;
+
+    const requiredReserve = calculateCurveArea(0, row.circulatingSupply - row.pools.treasury, params);
+    const reserveRatio = requiredReserve > 0 ? reserve / requiredReserve : Infinity;
+
+    return {
+      period: row.period,
+      fundingInflow,
+      discountOutflow,
+      reserve,
+      requiredReserve,
+      reserveRatio,
+      insolvent: reserve < 0,
+      undercollateralized: reserveRatio < treasury.minReserveRatio,
+    };
+  });
+
+  return {
+    timeline,
+    finalReserve: reserve,
+    minReserveRatio: timeline.reduce((min, row) => Math.min(min, row.reserveRatio), Infinity),
+    insolventPeriod: timeline.find((row) => row.insolvent)?.period ?? null,
+    undercollateralizedPeriod: timeline.find((row) => row.undercollateralized)?.period ?? null,
+  };
+};
@@ -0,0 +1,88 @@
+import {
+  DEFAULT_SYSTEM_PARAMS,
+  SYSTEM_PARAM_FIELDS,
+  validateSystemParam,
+  type SystemParams,
+} from './params';
+import { DEFAULT_USER_INPUTS, validateInput, type UserInputs } from './inputs';
+import { validateCurve } from './curves';
+import { BURN_SHARE_PARAMS, validateBurnSplit } from './burnSplit';
+
+const USER_INPUT_KEYS = Object.keys(DEFAULT_USER_INPUTS) as (keyof UserInputs)[];
+
+export interface CalculatorUrlState {
+  userInputs: UserInputs;
+  systemParams: SystemParams;
+}
+
+// Serialize calculator state into query parameters; only non-default SystemParams are written
+export const encodeCalculatorState = (
+  userInputs: UserInputs,
+  systemParams: SystemParams
+): URLSearchParams => {
+  const search = new URLSearchParams();
+  for (const key of USER_INPUT_KEYS) {
+    search.set(key, String(userInputs[key]));
+  }
+  for (const { key } of SYSTEM_PARAM_FIELDS) {
+    if (systemParams[key] !== DEFAULT_SYSTEM_PARAMS[key]) {
+      search.set(key, String(systemParams[key]));
+    }
+  }
+  // The curve is written as JSON, only when it differs from the default
+  const curve = JSON.stringify(systemParams.curve);
+  if (curve !== JSON.stringify(DEFAULT_SYSTEM_PARAMS.curve)) {
+    search.set('curve', curve);
+  }
+  if (systemParams.hard_caps) {
+    search.set('hard_caps', '1');
+  }
+  return search;
+};
+
+// Restore calculator state from query parameters; missing or invalid values fall back to defaults
+export const decodeCalculatorState = (search: URLSearchParams): CalculatorUrlState => {
+  const userInputs: UserInputs = { ...DEFAULT_USER_INPUTS };
+  for (const key of USER_INPUT_KEYS) {
+    const raw = search.get(key);
+    if (raw === null || raw.trim() === '') {
+      continue;
+    }
+    const value = Number(raw);
+    if (!validateInput(key, value)) {
+      userInputs[key] = value;
+    }
+  }
+
+  const systemParams: SystemParams = { ...DEFAULT_SYSTEM_PARAMS };
+  for (const { key } of SYSTEM_PARAM_FIELDS) {
+    const raw = search.get(key);
+    if (raw === null || raw.trim() === '') {
+      continue;
+    }
+    const value = Number(raw);
+    if (!validateSystemParam(key, value)) {
+      systemParams[key] = value;
+    }
+  }
+  // Burn shares that together exceed the whole burn fall back to the default split
+  if (validateBurnSplit(systemParams)) {
+    for (const key of Object.values(BURN_SHARE_PARAMS)) {
+      systemParams[key] = DEFAULT_SYSTEM_PARAMS[key];
+    }
+  }
+  const rawCurve = search.get('curve');
+  if (rawCurve) {
+    try {
+      const curve = JSON.parse(rawCurve);
+      if (!validateCurve(curve, systemParams.P0)) {
+        systemParams.curve = curve;
+      }
+    } catch {
+      // Malformed curve - keep the default
+    }
+  }
+  systemParams.hard_caps = search.get('hard_caps') === '1';
+
+  return { userInputs, systemParams };
+};
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Tests cover the framework-free tokenomics modules, so they run in Node
+// without the browser globals vite.config.ts defines for the app build
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
+})